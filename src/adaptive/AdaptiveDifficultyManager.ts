@@ -1,6 +1,7 @@
 import { DifficultyLevel, DifficultySettings } from '../types/index.js';
 import { PlayerProfile, GameResult } from './PlayerProfile.js';
 import { ProfileManager } from './ProfileManager.js';
+import { DEFAULT_MINE_DISTRIBUTION, MINE_DISTRIBUTION_LADDER } from '../game/MineDistributions.js';
 
 export interface DifficultyAdjustment {
   previousDifficulty: DifficultySettings;
@@ -142,6 +143,12 @@ export class AdaptiveDifficultyManager {
       return null;
     }
 
+    // Assisted games say nothing reliable about the player's skill,
+    // and daily challenges are played at a fixed difficulty
+    if (gameResult.assisted || gameResult.dailyChallenge) {
+      return null;
+    }
+
     // Check if we're in cooldown period
     if (this.isInCooldownPeriod()) {
       return null;
@@ -289,6 +296,7 @@ export class AdaptiveDifficultyManager {
     // Increase mine density first (up to 25% of total cells)
     const totalCells = current.width * current.height;
     const maxMines = Math.floor(totalCells * 0.25);
+    const distributionStep = this.getDistributionStep(current);
     
     if (current.mineCount < maxMines) {
       // Increase mine count by 10-20%
@@ -308,6 +316,9 @@ export class AdaptiveDifficultyManager {
         const newTotalCells = newSettings.width * newSettings.height;
         const currentDensity = current.mineCount / totalCells;
         newSettings.mineCount = Math.floor(newTotalCells * currentDensity);
+      } else if (distributionStep >= 0 && distributionStep < MINE_DISTRIBUTION_LADDER.length - 1) {
+        // At full size and density, spread the mines out more evenly
+        newSettings.mineDistribution = MINE_DISTRIBUTION_LADDER[distributionStep + 1];
       }
     }
 
@@ -322,6 +333,7 @@ export class AdaptiveDifficultyManager {
    */
   private scaleDifficultyDown(current: DifficultySettings): DifficultySettings {
     const newSettings = { ...current };
+    const distributionStep = this.getDistributionStep(current);
     
     // Decrease mine count first
     if (current.mineCount > 5) {
@@ -343,6 +355,9 @@ export class AdaptiveDifficultyManager {
         const newTotalCells = newSettings.width * newSettings.height;
         const currentDensity = current.mineCount / totalCells;
         newSettings.mineCount = Math.max(5, Math.floor(newTotalCells * currentDensity));
+      } else if (distributionStep > 0) {
+        // On the smallest board, bunch the mines up to open the board out
+        newSettings.mineDistribution = MINE_DISTRIBUTION_LADDER[distributionStep - 1];
       }
     }
 
@@ -375,7 +390,8 @@ export class AdaptiveDifficultyManager {
     
     return this.currentDifficulty.width >= 30 && 
            this.currentDifficulty.height >= 20 && 
-           this.currentDifficulty.mineCount >= maxMines;
+           this.currentDifficulty.mineCount >= maxMines &&
+           [-1, MINE_DISTRIBUTION_LADDER.length - 1].includes(this.getDistributionStep(this.currentDifficulty));
   }
 
   /**
@@ -384,7 +400,16 @@ export class AdaptiveDifficultyManager {
   private isAtMinimumDifficulty(): boolean {
     return this.currentDifficulty.width <= 8 && 
            this.currentDifficulty.height <= 8 && 
-           this.currentDifficulty.mineCount <= 5;
+           this.currentDifficulty.mineCount <= 5 &&
+           this.getDistributionStep(this.currentDifficulty) <= 0;
+  }
+
+  /**
+   * Position of the settings' mine distribution on the easiest-to-hardest ladder.
+   * Distributions registered outside the ladder are -1, and the manager leaves them alone.
+   */
+  private getDistributionStep(settings: DifficultySettings): number {
+    return MINE_DISTRIBUTION_LADDER.indexOf(settings.mineDistribution ?? DEFAULT_MINE_DISTRIBUTION);
   }
 
   /**
@@ -1,4 +1,4 @@
-import { DifficultyLevel, SkillArea } from '../types/index.js';
+import { DifficultyLevel, EfficiencyStats, GameMode, GameModeResult, SkillArea } from '../types/index.js';
 
 export interface PerformanceMetrics {
   gamesPlayed: number;
@@ -10,6 +10,7 @@ export interface PerformanceMetrics {
   currentStreak: number; // current win/loss streak (positive for wins, negative for losses)
   longestWinStreak: number;
   recentGames: GameResult[]; // last 10 games for trend analysis
+  assistedGames: number; // games finished after using undo, excluded from the stats above
 }
 
 export interface GameResult {
@@ -21,6 +22,18 @@ export interface GameResult {
   timestamp: Date;
   boardSize: { width: number; height: number };
   mineCount: number;
+  assisted?: boolean; // undo or checkpoints were used, so the game does not count towards the profile
+  efficiency?: EfficiencyStats; // 3BV, 3BV/s, IOE and throughput at the end of the game
+  score?: number;
+  scoringRuleset?: string; // Id of the ruleset the score was calculated with
+  mineDistribution?: string; // Id of the strategy that placed the mines; uniform when missing
+  dailyChallenge?: string; // Date (YYYY-MM-DD) of the daily challenge this game was played for
+}
+
+export interface DailyChallengeRecord {
+  attempts: number;
+  completed: boolean;
+  bestTime: number | null; // fastest unassisted win in seconds
 }
 
 export class PlayerProfile {
@@ -29,6 +42,8 @@ export class PlayerProfile {
   public preferredDifficulty: DifficultyLevel;
   public improvementAreas: SkillArea[];
   public metrics: PerformanceMetrics;
+  public dailyChallenges: Record<string, DailyChallengeRecord>; // keyed by challenge date
+  public personalBests: Record<string, GameModeResult>; // keyed by PlayerProfile.personalBestKey
   public createdAt: Date;
   public lastUpdated: Date;
 
@@ -49,8 +64,11 @@ export class PlayerProfile {
       bestTime: Infinity,
       currentStreak: 0,
       longestWinStreak: 0,
-      recentGames: []
+      recentGames: [],
+      assistedGames: 0
     };
+    this.dailyChallenges = {};
+    this.personalBests = {};
   }
 
   /**
@@ -73,6 +91,21 @@ export class PlayerProfile {
    * Record the result of a completed game
    */
   recordGameResult(result: GameResult): void {
+    // Challenge boards are fixed rather than matched to the player, so they stay out of the
+    // rating and streaks that drive adaptive difficulty
+    if (result.dailyChallenge) {
+      this.recordDailyChallenge(result);
+      this.lastUpdated = new Date();
+      return;
+    }
+
+    // Assisted games are counted but must not inflate the rating, streaks or records
+    if (result.assisted) {
+      this.metrics.assistedGames++;
+      this.lastUpdated = new Date();
+      return;
+    }
+    
     // Update basic metrics
     this.metrics.gamesPlayed++;
     if (result.won) {
@@ -124,6 +157,81 @@ export class PlayerProfile {
     this.lastUpdated = new Date();
   }
 
+  /**
+   * Progress on the daily challenge for a date, if it has been attempted
+   */
+  getDailyChallengeRecord(date: string): DailyChallengeRecord | null {
+    const record = this.dailyChallenges[date];
+    return record ? { ...record } : null;
+  }
+
+  /**
+   * Personal bests are kept per mode and time limit, since runs with different limits do not compare
+   */
+  static personalBestKey(mode: GameMode, timeLimit?: number): string {
+    return timeLimit === undefined ? mode : `${mode}:${timeLimit}`;
+  }
+
+  /**
+   * Record a finished game mode run. Returns true if it set a new personal best.
+   */
+  recordGameModeResult(result: GameModeResult): boolean {
+    const key = PlayerProfile.personalBestKey(result.mode, PlayerProfile.timeLimitOf(result));
+    const best = this.personalBests[key];
+    this.lastUpdated = new Date();
+
+    if (best && !PlayerProfile.isBetterRun(result, best)) {
+      return false;
+    }
+    this.personalBests[key] = { ...result };
+    return true;
+  }
+
+  getPersonalBest(mode: GameMode, timeLimit?: number): GameModeResult | null {
+    const best = this.personalBests[PlayerProfile.personalBestKey(mode, timeLimit)];
+    return best ? { ...best } : null;
+  }
+
+  private static timeLimitOf(result: GameModeResult): number | undefined {
+    switch (result.mode) {
+      case GameMode.TIME_ATTACK: return result.timeLimit;
+      case GameMode.COUNTDOWN: return result.boardTimeLimit;
+      default: return undefined;
+    }
+  }
+
+  /**
+   * More boards cleared wins; ties go to fewer losses, the quicker run or the fastest board
+   */
+  private static isBetterRun(result: GameModeResult, best: GameModeResult): boolean {
+    if (result.boardsCleared !== best.boardsCleared) {
+      return result.boardsCleared > best.boardsCleared;
+    }
+    if (result.mode === GameMode.TIME_ATTACK && best.mode === GameMode.TIME_ATTACK) {
+      return result.boardsLost < best.boardsLost;
+    }
+    if (result.mode === GameMode.SURVIVAL && best.mode === GameMode.SURVIVAL) {
+      return result.duration < best.duration;
+    }
+    if (result.mode === GameMode.COUNTDOWN && best.mode === GameMode.COUNTDOWN) {
+      return result.fastestBoard !== null && (best.fastestBoard === null || result.fastestBoard < best.fastestBoard);
+    }
+    return false;
+  }
+
+  private recordDailyChallenge(result: GameResult): void {
+    const record = this.dailyChallenges[result.dailyChallenge!] ??= { attempts: 0, completed: false, bestTime: null };
+    record.attempts++;
+
+    // Undo makes a win easy to force, so assisted wins do not complete the challenge
+    if (result.won && !result.assisted) {
+      record.completed = true;
+      if (record.bestTime === null || result.playTime < record.bestTime) {
+        record.bestTime = result.playTime;
+      }
+    }
+  }
+
   /**
    * Update skill rating using a modified ELO system
    */
@@ -269,6 +377,8 @@ export class PlayerProfile {
           timestamp: game.timestamp.toISOString()
         }))
       },
+      dailyChallenges: this.dailyChallenges,
+      personalBests: this.personalBests,
       createdAt: this.createdAt.toISOString(),
       lastUpdated: this.lastUpdated.toISOString()
     });
@@ -284,12 +394,18 @@ export class PlayerProfile {
     profile.skillRating = data.skillRating;
     profile.preferredDifficulty = data.preferredDifficulty;
     profile.improvementAreas = data.improvementAreas || [];
+    profile.dailyChallenges = data.dailyChallenges || {};
+    profile.personalBests = {};
+    Object.entries(data.personalBests || {}).forEach(([key, best]: [string, any]) => {
+      profile.personalBests[key] = { ...best, timestamp: new Date(best.timestamp) };
+    });
     profile.createdAt = new Date(data.createdAt);
     profile.lastUpdated = new Date(data.lastUpdated);
     
     // Restore metrics
     profile.metrics = {
       ...data.metrics,
+      assistedGames: data.metrics.assistedGames ?? 0,
       recentGames: data.metrics.recentGames.map((game: any) => ({
         ...game,
         timestamp: new Date(game.timestamp)
@@ -1,6 +1,6 @@
 import { PlayerProfile, GameResult } from './PlayerProfile.js';
 import { ProfileStorage } from './ProfileStorage.js';
-import { DifficultyLevel } from '../types/index.js';
+import { DifficultyLevel, GameMode, GameModeResult } from '../types/index.js';
 
 /**
  * High-level manager for player profiles and performance tracking
@@ -56,6 +56,30 @@ export class ProfileManager {
     }
   }
 
+  /**
+   * Record a finished game mode run for the current profile. Returns true for a new personal best.
+   */
+  recordGameModeResult(result: GameModeResult): boolean {
+    if (!this.currentProfile) {
+      throw new Error('No active profile. Call initialize() first.');
+    }
+    
+    const isPersonalBest = this.currentProfile.recordGameModeResult(result);
+    
+    if (this.autoSave) {
+      this.saveCurrentProfile();
+    }
+    
+    return isPersonalBest;
+  }
+
+  /**
+   * Get the current profile's personal best for a mode (and time limit, for timed modes)
+   */
+  getPersonalBest(mode: GameMode, timeLimit?: number): GameModeResult | null {
+    return this.currentProfile?.getPersonalBest(mode, timeLimit) ?? null;
+  }
+
   /**
    * Save the current profile to storage
    */
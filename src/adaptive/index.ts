@@ -1,5 +1,5 @@
 // Adaptive difficulty system exports
-export { PlayerProfile, type PerformanceMetrics, type GameResult } from './PlayerProfile.js';
+export { PlayerProfile, type PerformanceMetrics, type GameResult, type DailyChallengeRecord } from './PlayerProfile.js';
 export { ProfileStorage } from './ProfileStorage.js';
 export { ProfileManager } from './ProfileManager.js';
 export { AdaptiveDifficultyManager, type DifficultyAdjustment, type AdaptiveDifficultyConfig } from './AdaptiveDifficultyManager.js';
\ No newline at end of file
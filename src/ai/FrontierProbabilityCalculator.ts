@@ -0,0 +1,254 @@
+import { Cell, ProbabilityMap } from '@/types';
+import { IProbabilityCalculator } from '@/interfaces/AIEngine';
+import { IGameBoard } from '@/interfaces/GameEngine';
+
+/**
+ * Rectangle of the board to calculate over, in cells
+ */
+export interface FrontierRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface FrontierConstraint {
+  cells: Cell[];
+  mineCount: number; // Mines still to find among the cells
+}
+
+/**
+ * Mine probabilities for boards where the total mine count tells nothing useful, such as endless
+ * boards. Only the active region is considered. Hidden cells next to revealed numbers are solved
+ * exactly, one connected group at a time, with each solution weighted by the mine density;
+ * the other hidden cells in the region get the density itself.
+ */
+export class FrontierProbabilityCalculator implements IProbabilityCalculator {
+  private calculationTimeout: number = 5000;
+  private density: number | null;
+  private region: FrontierRegion | null = null;
+  private lastCalculation: ProbabilityMap | null = null;
+  private readonly MAX_GROUP_CELLS = 20;  // Larger groups fall back to per-constraint estimates
+  private readonly REGION_MARGIN = 2;     // Hidden cells kept around the revealed area when no region is set
+
+  /**
+   * Without a density, it is estimated from the board's unflagged mines and hidden cells
+   */
+  constructor(density?: number) {
+    this.density = density ?? null;
+  }
+
+  /**
+   * Limit the calculation to part of the board, e.g. what the camera shows.
+   * With no region, the revealed area plus a small margin is used.
+   */
+  setRegion(region: FrontierRegion | null): void {
+    this.region = region;
+  }
+
+  calculateProbabilities(board: IGameBoard): ProbabilityMap {
+    const deadline = Date.now() + this.calculationTimeout;
+    const density = this.density ?? this.estimateDensity(board);
+    const region = this.region ?? this.getRevealedArea(board);
+    const probabilities = new Map<string, number>();
+    let exact = true;
+
+    if (region) {
+      for (const group of this.findGroups(this.extractConstraints(board, region))) {
+        const solved = group.cells.length <= this.MAX_GROUP_CELLS
+          ? this.solveGroup(group.cells, group.constraints, density, deadline)
+          : null;
+        exact = exact && solved !== null;
+        const groupProbabilities = solved ?? this.estimateGroup(group.cells, group.constraints);
+        group.cells.forEach((cell, i) => probabilities.set(`${cell.x},${cell.y}`, groupProbabilities[i]));
+      }
+
+      // Hidden cells away from the frontier are unconstrained
+      this.forEachCellIn(board, region, cell => {
+        const key = `${cell.x},${cell.y}`;
+        if (!cell.isRevealed && !cell.isFlagged && !cell.isMasked && !probabilities.has(key)) {
+          probabilities.set(key, density);
+        }
+      });
+    }
+
+    this.lastCalculation = {
+      cellProbabilities: probabilities,
+      lastUpdated: new Date(),
+      // The map type has no label for estimates; they are the approximate result, as Monte Carlo is elsewhere
+      calculationMethod: exact ? 'exact' : 'monte_carlo'
+    };
+    return this.lastCalculation;
+  }
+
+  getCellProbability(board: IGameBoard, x: number, y: number): number {
+    const cell = board.getCell(x, y);
+    if (!cell || cell.isRevealed) {
+      return 0;
+    }
+    const probability = this.calculateProbabilities(board).cellProbabilities.get(`${x},${y}`);
+    return probability ?? this.density ?? this.estimateDensity(board);
+  }
+
+  updateProbabilities(board: IGameBoard): void {
+    this.calculateProbabilities(board);
+  }
+
+  getCalculationMethod(): 'exact' | 'monte_carlo' {
+    return this.lastCalculation?.calculationMethod ?? 'exact';
+  }
+
+  setCalculationTimeout(ms: number): void {
+    this.calculationTimeout = ms;
+  }
+
+  private estimateDensity(board: IGameBoard): number {
+    const hidden = board.getCells().flat().filter(cell => !cell.isRevealed && !cell.isFlagged && !cell.isMasked).length;
+    return hidden > 0 ? Math.min(1, Math.max(0, board.getRemainingMines() / hidden)) : 0;
+  }
+
+  /**
+   * Bounding box of the revealed cells, grown by the margin and kept on the board
+   */
+  private getRevealedArea(board: IGameBoard): FrontierRegion | null {
+    const revealed = board.getCells().flat().filter(cell => cell.isRevealed);
+    if (revealed.length === 0) {
+      return null;
+    }
+
+    const left = Math.max(0, Math.min(...revealed.map(cell => cell.x)) - this.REGION_MARGIN);
+    const top = Math.max(0, Math.min(...revealed.map(cell => cell.y)) - this.REGION_MARGIN);
+    const right = Math.min(board.getWidth() - 1, Math.max(...revealed.map(cell => cell.x)) + this.REGION_MARGIN);
+    const bottom = Math.min(board.getHeight() - 1, Math.max(...revealed.map(cell => cell.y)) + this.REGION_MARGIN);
+    return { x: left, y: top, width: right - left + 1, height: bottom - top + 1 };
+  }
+
+  private forEachCellIn(board: IGameBoard, region: FrontierRegion, callback: (cell: Cell) => void): void {
+    for (let y = Math.max(0, region.y); y < Math.min(board.getHeight(), region.y + region.height); y++) {
+      for (let x = Math.max(0, region.x); x < Math.min(board.getWidth(), region.x + region.width); x++) {
+        callback(board.getCell(x, y)!);
+      }
+    }
+  }
+
+  /**
+   * One constraint per revealed number in the region that still borders hidden cells
+   */
+  private extractConstraints(board: IGameBoard, region: FrontierRegion): FrontierConstraint[] {
+    const constraints: FrontierConstraint[] = [];
+    this.forEachCellIn(board, region, cell => {
+      if (!cell.isRevealed || cell.isMine || cell.adjacentMines === 0) {
+        return;
+      }
+      const neighbours = board.getAdjacentCells(cell.x, cell.y);
+      const hidden = neighbours.filter(neighbour => !neighbour.isRevealed && !neighbour.isFlagged);
+      const flagged = neighbours.filter(neighbour => neighbour.isFlagged).length;
+      if (hidden.length > 0) {
+        constraints.push({ cells: hidden, mineCount: cell.adjacentMines - flagged });
+      }
+    });
+    return constraints;
+  }
+
+  /**
+   * Split the frontier into groups of cells linked by shared constraints. Cells come out in
+   * the order they were reached, which keeps neighbouring cells together for the search.
+   */
+  private findGroups(constraints: FrontierConstraint[]): Array<{ cells: Cell[]; constraints: FrontierConstraint[] }> {
+    const constraintsByCell = new Map<Cell, FrontierConstraint[]>();
+    constraints.forEach(constraint => constraint.cells.forEach(cell => {
+      const list = constraintsByCell.get(cell) ?? [];
+      list.push(constraint);
+      constraintsByCell.set(cell, list);
+    }));
+
+    const groups: Array<{ cells: Cell[]; constraints: FrontierConstraint[] }> = [];
+    const seenCells = new Set<Cell>();
+    const seenConstraints = new Set<FrontierConstraint>();
+    for (const start of constraintsByCell.keys()) {
+      if (seenCells.has(start)) continue;
+
+      const group = { cells: [start], constraints: [] as FrontierConstraint[] };
+      seenCells.add(start);
+      for (let i = 0; i < group.cells.length; i++) {
+        for (const constraint of constraintsByCell.get(group.cells[i])!) {
+          if (seenConstraints.has(constraint)) continue;
+          seenConstraints.add(constraint);
+          group.constraints.push(constraint);
+          constraint.cells.forEach(cell => {
+            if (!seenCells.has(cell)) {
+              seenCells.add(cell);
+              group.cells.push(cell);
+            }
+          });
+        }
+      }
+      groups.push(group);
+    }
+    return groups;
+  }
+
+  /**
+   * Enumerate every mine layout of the group that satisfies its constraints. Independent mines
+   * at the given density make a layout with k mines (density / (1 - density))^k times as likely.
+   * Returns null if the search runs past the deadline or the constraints contradict each other.
+   */
+  private solveGroup(cells: Cell[], constraints: FrontierConstraint[], density: number, deadline: number): number[] | null {
+    const indices = new Map(cells.map((cell, i) => [cell, i]));
+    const constraintsOf: number[][] = cells.map(() => []);
+    constraints.forEach((constraint, c) => constraint.cells.forEach(cell => constraintsOf[indices.get(cell)!].push(c)));
+
+    const placed = constraints.map(() => 0);
+    const open = constraints.map(constraint => constraint.cells.length);
+    const layout: boolean[] = [];
+    const mineWeights = cells.map(() => 0);
+    const ratio = density / (1 - density);
+    let totalWeight = 0;
+    let steps = 0;
+    let timedOut = false;
+
+    const search = (i: number, mines: number): void => {
+      if ((++steps & 1023) === 0 && Date.now() > deadline) {
+        timedOut = true;
+      }
+      if (timedOut) {
+        return;
+      }
+      if (i === cells.length) {
+        const weight = Math.pow(ratio, mines);
+        totalWeight += weight;
+        layout.forEach((isMine, j) => { if (isMine) mineWeights[j] += weight; });
+        return;
+      }
+
+      for (const isMine of [false, true]) {
+        constraintsOf[i].forEach(c => { open[c]--; if (isMine) placed[c]++; });
+        const consistent = constraintsOf[i].every(c =>
+          placed[c] <= constraints[c].mineCount && placed[c] + open[c] >= constraints[c].mineCount);
+        if (consistent) {
+          layout[i] = isMine;
+          search(i + 1, mines + (isMine ? 1 : 0));
+        }
+        constraintsOf[i].forEach(c => { open[c]++; if (isMine) placed[c]--; });
+      }
+    };
+
+    search(0, 0);
+    if (timedOut || totalWeight === 0) {
+      return null;
+    }
+    return mineWeights.map(weight => weight / totalWeight);
+  }
+
+  /**
+   * Fallback for groups too large to enumerate: the tightest share of mines any one constraint asks for
+   */
+  private estimateGroup(cells: Cell[], constraints: FrontierConstraint[]): number[] {
+    return cells.map(cell => {
+      const shares = constraints
+        .filter(constraint => constraint.cells.includes(cell))
+        .map(constraint => Math.min(1, Math.max(0, constraint.mineCount / constraint.cells.length)));
+      return Math.max(...shares);
+    });
+  }
+}
@@ -1,6 +1,6 @@
 import { IGameAnalyzer } from '@/interfaces/AIEngine';
-import { IGameBoard } from '@/interfaces/GameEngine';
-import { GameAnalysis, Move, SkillArea } from '@/types';
+import { IBoardEventSource, IGameBoard } from '@/interfaces/GameEngine';
+import { GameAnalysis, GameState, Move, MoveAction, SkillArea } from '@/types';
 
 export class GameAnalyzer implements IGameAnalyzer {
   constructor() {
@@ -12,7 +12,7 @@ export class GameAnalyzer implements IGameAnalyzer {
     const totalMoves = moves.length;
     
     // Analyze each move for optimality
-    const analyzedMoves = this.analyzeMovesForOptimality(moves);
+    const analyzedMoves = this.analyzeMovesForOptimality(moves, finalBoard);
     const optimalMoves = analyzedMoves.filter(move => move.wasOptimal).length;
     
     // Identify critical mistakes and missed opportunities
@@ -40,8 +40,27 @@ export class GameAnalyzer implements IGameAnalyzer {
     };
   }
 
-  identifySuboptimalMoves(moves: Move[]): Move[] {
-    return this.analyzeMovesForOptimality(moves).filter(move => !move.wasOptimal);
+  /**
+   * Analyze each game as soon as the board reports it won or lost.
+   * Returns a function that stops listening.
+   */
+  subscribeTo(
+    source: IBoardEventSource,
+    getMoves: () => Move[],
+    onAnalysis: (analysis: GameAnalysis) => void
+  ): () => void {
+    const analyzeFinishedGame = ({ board }: { board: IGameBoard }) => {
+      onAnalysis(this.analyzeGame(getMoves(), board));
+    };
+    const subscriptions = [
+      source.on('gameWon', analyzeFinishedGame),
+      source.on('gameLost', analyzeFinishedGame)
+    ];
+    return () => subscriptions.forEach(unsubscribe => unsubscribe());
+  }
+
+  identifySuboptimalMoves(moves: Move[], finalBoard?: IGameBoard): Move[] {
+    return this.analyzeMovesForOptimality(moves, finalBoard).filter(move => !move.wasOptimal);
   }
 
   generateImprovementSuggestions(analysis: GameAnalysis): string[] {
@@ -181,7 +200,7 @@ export class GameAnalyzer implements IGameAnalyzer {
     
     moves.forEach((move, index) => {
       const moveNumber = index + 1;
-      const action = move.action === 'reveal' ? 'revealed' : 'flagged';
+      const action = this.describeAction(move.action);
       const position = `(${move.cell.x}, ${move.cell.y})`;
       
       let comment = `Move ${moveNumber}: ${action} cell ${position}`;
@@ -208,6 +227,8 @@ export class GameAnalyzer implements IGameAnalyzer {
         // Add learning insights for good moves
         if (move.action === 'flag') {
           comment += " Flagging suspected mines helps with logical deduction.";
+        } else if (move.action === 'chord') {
+          comment += " Chording a satisfied number clears its neighbours in one click.";
         } else if (index === 0) {
           comment += " Good opening move - starting with corner or edge cells is often safe.";
         }
@@ -231,7 +252,9 @@ export class GameAnalyzer implements IGameAnalyzer {
         }
         
         // Add specific advice for suboptimal moves
-        if (move.action === 'reveal' && index > 0) {
+        if (move.action === 'chord') {
+          comment += " Double-check the flags around a number before chording it.";
+        } else if (move.action === 'reveal' && index > 0) {
           comment += " Consider using flags to mark suspected mines before revealing uncertain cells.";
         }
       }
@@ -275,8 +298,9 @@ export class GameAnalyzer implements IGameAnalyzer {
       
       const flagMoves = moves.filter(m => m.action === 'flag').length;
       const revealMoves = moves.filter(m => m.action === 'reveal').length;
+      const chordMoves = moves.filter(m => m.action === 'chord').length;
       
-      commentary.push(`Move distribution: ${revealMoves} reveals, ${flagMoves} flags`);
+      commentary.push(`Move distribution: ${revealMoves} reveals, ${flagMoves} flags, ${chordMoves} chords`);
       
       if (flagMoves === 0) {
         commentary.push('💡 Tip: Using flags can help with logical deduction and reduce mistakes.');
@@ -332,17 +356,20 @@ export class GameAnalyzer implements IGameAnalyzer {
     return `game_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
 
-  private analyzeMovesForOptimality(moves: Move[]): Move[] {
+  private analyzeMovesForOptimality(moves: Move[], finalBoard?: IGameBoard): Move[] {
     // For now, we'll use a simplified analysis
     // In a full implementation, we would reconstruct the board state at each move
     // and use the HintEngine to determine the optimal move
     
-    return moves.map(move => {
+    return moves.map((move, index) => {
       // If wasOptimal is already set (e.g., from previous analysis), preserve it
       // Otherwise, use simplified optimality check
       let wasOptimal = move.wasOptimal;
       
-      if (wasOptimal === undefined) {
+      if (move.action === 'chord') {
+        // Chords are only as good as the flags they rely on
+        wasOptimal = this.isSafeChord(index, moves, finalBoard);
+      } else if (wasOptimal === undefined) {
         // Simplified optimality check - this would be more sophisticated in practice
         // For now, we'll assume moves are optimal if they have alternative options
         // (indicating the AI analyzed them) or if they're early game moves
@@ -371,6 +398,22 @@ export class GameAnalyzer implements IGameAnalyzer {
     return false;
   }
 
+  /**
+   * A chord is safe when every flag the chorded number counts sits on a mine. A wrong flag
+   * leaves a mine among the cells the chord opens, so only a chord that lost the game was unsafe.
+   */
+  private isSafeChord(index: number, moves: Move[], finalBoard?: IGameBoard): boolean {
+    return index < moves.length - 1 || finalBoard?.getGameState() !== GameState.LOST;
+  }
+
+  private describeAction(action: MoveAction): string {
+    switch (action) {
+      case 'reveal': return 'revealed';
+      case 'flag': return 'flagged';
+      case 'chord': return 'chorded';
+    }
+  }
+
   private identifyCriticalMistakes(moves: Move[], finalBoard: IGameBoard): Move[] {
     // Identify moves that led to immediate game loss or significant setbacks
     const criticalMistakes: Move[] = [];
@@ -380,7 +423,7 @@ export class GameAnalyzer implements IGameAnalyzer {
     if (gameState === 'lost') {
       // The last move that revealed a mine is a critical mistake
       const lastMove = moves[moves.length - 1];
-      if (lastMove && lastMove.action === 'reveal') {
+      if (lastMove && lastMove.action !== 'flag') {
         criticalMistakes.push(lastMove);
       }
     }
@@ -390,7 +433,7 @@ export class GameAnalyzer implements IGameAnalyzer {
       if (!move.wasOptimal && move.alternativeOptions.length > 0) {
         const bestAlternative = move.alternativeOptions[0];
         // If there was a much safer alternative, it's a critical mistake
-        if (bestAlternative.confidence > 0.9 && move.action === 'reveal') {
+        if (bestAlternative.confidence > 0.9 && move.action !== 'flag') {
           criticalMistakes.push(move);
         }
       }
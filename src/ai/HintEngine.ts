@@ -1,4 +1,4 @@
-import { ProbabilityMap, HintSuggestion } from '@/types';
+import { Cell, ProbabilityMap, HintSuggestion } from '@/types';
 import { IHintEngine } from '@/interfaces/AIEngine';
 import { IGameBoard } from '@/interfaces/GameEngine';
 
@@ -41,7 +41,7 @@ export class HintEngine implements IHintEngine {
                 cell: { x, y },
                 action: 'reveal',
                 confidence: 1.0, // 100% confidence for safe moves
-                reasoning: `This cell has a ${(probability * 100).toFixed(2)}% chance of containing a mine, making it safe to reveal.`,
+                reasoning: `This cell has a ${(probability * 100).toFixed(2)}% chance of containing a mine, making it safe to reveal.${this.describeQuestionMark(cell, 'reveal')}`,
                 expectedInformation: informationGain
               });
             } else if (probability >= (1 - this.SAFE_PROBABILITY_THRESHOLD)) {
@@ -49,7 +49,7 @@ export class HintEngine implements IHintEngine {
                 cell: { x, y },
                 action: 'flag',
                 confidence: 1.0,
-                reasoning: `This cell has a ${(probability * 100).toFixed(2)}% chance of containing a mine, making it certain to be a mine.`,
+                reasoning: `This cell has a ${(probability * 100).toFixed(2)}% chance of containing a mine, making it certain to be a mine.${this.describeQuestionMark(cell, 'flag')}`,
                 expectedInformation: 0 // Flagging doesn't reveal new information about other cells
               });
             }
@@ -84,7 +84,7 @@ export class HintEngine implements IHintEngine {
                 cell: { x, y },
                 action: 'reveal',
                 confidence: Math.max(0, 1 - probability), // Higher confidence for lower probability
-                reasoning: `This is the safest available move with a ${(probability * 100).toFixed(2)}% chance of containing a mine.`,
+                reasoning: `This is the safest available move with a ${(probability * 100).toFixed(2)}% chance of containing a mine.${this.describeQuestionMark(cell, 'reveal')}`,
                 expectedInformation: informationGain
               };
             }
@@ -140,6 +140,18 @@ export class HintEngine implements IHintEngine {
     return potentialRevealCount + constraintValue + constraintBonus + frontierBonus;
   }
 
+  /**
+   * Question-marked cells are hinted like any unknown cell, but the reasoning acknowledges the marker
+   */
+  private describeQuestionMark(cell: Cell, action: 'reveal' | 'flag'): string {
+    if (!cell.isQuestioned) {
+      return '';
+    }
+    return action === 'reveal'
+      ? ' You marked it with "?", but the odds favour revealing it.'
+      : ' Your "?" was right - it can be flagged.';
+  }
+
   private isFrontierCell(board: IGameBoard, x: number, y: number): boolean {
     // A frontier cell is an unrevealed cell adjacent to at least one revealed cell
     const adjacentCells = board.getAdjacentCells(x, y);
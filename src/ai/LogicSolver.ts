@@ -0,0 +1,59 @@
+import { GameState } from '@/types';
+import { IGameBoard } from '@/interfaces/GameEngine';
+import { ProbabilityCalculator } from './ProbabilityCalculator';
+import { HintEngine } from './HintEngine';
+
+export interface SolveResult {
+  solved: boolean;
+  steps: number; // Deduction rounds the solver needed
+  revealedCells: number;
+  flaggedCells: number;
+}
+
+/**
+ * Deterministic solver that plays a board using only moves the AI can prove are safe
+ */
+export class LogicSolver {
+  private probabilityCalculator: ProbabilityCalculator;
+  private hintEngine: HintEngine;
+
+  constructor(probabilityCalculator?: ProbabilityCalculator, hintEngine?: HintEngine) {
+    this.probabilityCalculator = probabilityCalculator || new ProbabilityCalculator();
+    this.hintEngine = hintEngine || new HintEngine();
+  }
+
+  /**
+   * Play the board from the opening click without guessing.
+   * The board is mutated, so pass a throwaway copy when the layout must stay untouched.
+   */
+  solve(board: IGameBoard, firstClick: { x: number; y: number }): SolveResult {
+    const result: SolveResult = { solved: false, steps: 0, revealedCells: 0, flaggedCells: 0 };
+
+    if (!board.revealCell(firstClick.x, firstClick.y)) {
+      return result;
+    }
+
+    while (board.getGameState() === GameState.PLAYING) {
+      const certainties = this.probabilityCalculator.calculateCertainties(board);
+      const safeMoves = this.hintEngine.findSafeMoves(board, certainties);
+
+      if (safeMoves.length === 0) {
+        break; // Progress would require a guess
+      }
+
+      result.steps++;
+      for (const move of safeMoves) {
+        if (move.action === 'reveal') {
+          if (board.revealCell(move.cell.x, move.cell.y)) {
+            result.revealedCells++;
+          }
+        } else if (board.flagCell(move.cell.x, move.cell.y)) {
+          result.flaggedCells++;
+        }
+      }
+    }
+
+    result.solved = board.getGameState() === GameState.WON;
+    return result;
+  }
+}
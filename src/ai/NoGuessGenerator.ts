@@ -0,0 +1,69 @@
+import { DifficultySettings, FirstClickPolicy } from '@/types';
+import { GameBoard } from '@/game/GameBoard';
+import { LogicSolver } from './LogicSolver';
+import { Mulberry32, generateSeed } from '@/utils/SeededRandom';
+
+export interface NoGuessOptions {
+  firstClick?: { x: number; y: number }; // Defaults to the centre of the board
+  timeBudget?: number; // Milliseconds to spend re-rolling before giving up
+  maxAttempts?: number;
+}
+
+export interface NoGuessResult {
+  settings: DifficultySettings; // Seeded settings that reproduce the chosen layout
+  firstClick: { x: number; y: number };
+  attempts: number;
+  elapsedTime: number; // in milliseconds
+  noGuess: boolean; // False when the budget ran out before a solvable layout was found
+}
+
+/**
+ * Generates boards that the logic solver can clear from the opening click without guessing
+ */
+export class NoGuessGenerator {
+  private solver: LogicSolver;
+  private defaultTimeBudget: number = 2000; // 2 seconds default budget
+
+  constructor(solver?: LogicSolver) {
+    this.solver = solver || new LogicSolver();
+  }
+
+  /**
+   * Re-roll seeded layouts until one is solvable by pure logic or the budget is spent, in which
+   * case the result says so and holds the last layout tried. Candidate seeds are derived from
+   * settings.seed, so the search itself is reproducible.
+   */
+  generate(settings: DifficultySettings, options: NoGuessOptions = {}): NoGuessResult {
+    const startTime = Date.now();
+    const timeBudget = options.timeBudget ?? this.defaultTimeBudget;
+    const maxAttempts = options.maxAttempts ?? Infinity;
+    const firstClick = options.firstClick ?? {
+      x: Math.floor(settings.width / 2),
+      y: Math.floor(settings.height / 2)
+    };
+    const seeds = new Mulberry32(settings.seed ?? generateSeed());
+
+    let candidate: DifficultySettings = { ...settings };
+    let attempts = 0;
+
+    while (attempts < maxAttempts) {
+      attempts++;
+      candidate = {
+        ...settings,
+        seed: Math.floor(seeds.next() * 0x100000000) >>> 0,
+        firstClickPolicy: FirstClickPolicy.ZERO
+      };
+
+      const trial = new GameBoard(candidate);
+      if (this.solver.solve(trial, firstClick).solved) {
+        return { settings: candidate, firstClick, attempts, elapsedTime: Date.now() - startTime, noGuess: true };
+      }
+
+      if (Date.now() - startTime >= timeBudget) {
+        break;
+      }
+    }
+
+    return { settings: candidate, firstClick, attempts, elapsedTime: Date.now() - startTime, noGuess: false };
+  }
+}
@@ -13,6 +13,7 @@ interface Constraint {
 export class ProbabilityCalculator implements IProbabilityCalculator {
   private calculationTimeout: number = 5000; // 5 seconds default timeout
   private lastCalculation: ProbabilityMap | null = null;
+  private readonly MAX_DERIVED_CONSTRAINTS = 2000; // Bounds subset reasoning on very open boards
 
   calculateProbabilities(board: IGameBoard): ProbabilityMap {
     const startTime = Date.now();
@@ -122,6 +123,92 @@ export class ProbabilityCalculator implements IProbabilityCalculator {
     }
   }
 
+  /**
+   * Deduce cells that are certainly safe (0) or certainly mines (1) using single-constraint
+   * and subset reasoning only. Cells that cannot be decided by pure logic are left out of the map.
+   */
+  calculateCertainties(board: IGameBoard): ProbabilityMap {
+    const certainties = new Map<string, number>();
+    const seen = new Set<string>();
+    let constraints: Array<{ keys: Set<string>; mineCount: number }> = [];
+
+    const addConstraint = (keys: Set<string>, mineCount: number) => {
+      if (constraints.length >= this.MAX_DERIVED_CONSTRAINTS) return;
+      const signature = `${[...keys].sort().join('|')}=${mineCount}`;
+      if (keys.size > 0 && !seen.has(signature)) {
+        seen.add(signature);
+        constraints.push({ keys, mineCount });
+      }
+    };
+
+    this.extractConstraints(board).forEach(constraint => {
+      addConstraint(new Set(constraint.cells.map(cell => `${cell.x},${cell.y}`)), constraint.mineCount);
+    });
+
+    let changed = true;
+    while (changed) {
+      changed = false;
+
+      // Fold already decided cells into every constraint
+      constraints = constraints
+        .map(constraint => {
+          const keys = new Set<string>();
+          let mineCount = constraint.mineCount;
+          constraint.keys.forEach(key => {
+            const known = certainties.get(key);
+            if (known === undefined) {
+              keys.add(key);
+            } else {
+              mineCount -= known;
+            }
+          });
+          return { keys, mineCount };
+        })
+        .filter(constraint => constraint.keys.size > 0);
+
+      for (const constraint of constraints) {
+        if (constraint.mineCount === 0 || constraint.mineCount === constraint.keys.size) {
+          const value = constraint.mineCount === 0 ? 0 : 1;
+          constraint.keys.forEach(key => certainties.set(key, value));
+          changed = true;
+        }
+      }
+
+      if (changed) continue;
+
+      // Subset rule: if A is contained in B then B \ A holds exactly B - A mines
+      const derived: Array<{ keys: Set<string>; mineCount: number }> = [];
+      for (const a of constraints) {
+        for (const b of constraints) {
+          if (a === b || a.keys.size >= b.keys.size) continue;
+          if (![...a.keys].every(key => b.keys.has(key))) continue;
+
+          const difference = new Set([...b.keys].filter(key => !a.keys.has(key)));
+          derived.push({ keys: difference, mineCount: b.mineCount - a.mineCount });
+        }
+      }
+
+      const before = constraints.length;
+      derived.forEach(constraint => addConstraint(constraint.keys, constraint.mineCount));
+      changed = constraints.length > before;
+    }
+
+    // Global mine count can settle the remaining unknown cells
+    const undecided = this.getUnknownCells(board).filter(cell => !certainties.has(`${cell.x},${cell.y}`));
+    const knownMines = [...certainties.values()].filter(value => value === 1).length;
+    const remainingMines = board.getRemainingMines() - knownMines;
+    if (undecided.length > 0 && (remainingMines === 0 || remainingMines === undecided.length)) {
+      const value = remainingMines === 0 ? 0 : 1;
+      undecided.forEach(cell => certainties.set(`${cell.x},${cell.y}`, value));
+    }
+
+    return {
+      cellProbabilities: certainties,
+      lastUpdated: new Date(),
+      calculationMethod: 'exact'
+    };
+  }
+
   /**
    * Get empty probability map as fallback
    */
@@ -196,7 +283,8 @@ export class ProbabilityCalculator implements IProbabilityCalculator {
     for (let y = 0; y < board.getHeight(); y++) {
       for (let x = 0; x < board.getWidth(); x++) {
         const cell = cells[y][x];
-        if (!cell.isRevealed && !cell.isFlagged) {
+        // Question marks are only a player note, so those cells stay unknown; holes are not cells at all
+        if (!cell.isRevealed && !cell.isFlagged && !cell.isMasked) {
           unknown.push(cell);
         }
       }
@@ -2,9 +2,10 @@
  * Enhanced ProbabilityCalculator that uses Web Workers for heavy calculations
  */
 
-import { Cell, ProbabilityMap } from '@/types';
+import { Cell, GridTopology, NeighbourhoodRule, ProbabilityMap } from '@/types';
 import { IProbabilityCalculator } from '@/interfaces/AIEngine';
 import { IGameBoard } from '@/interfaces/GameEngine';
+import { GameBoard } from '@/game/GameBoard';
 import { ErrorHandler, ErrorType, safeAsync, safeSync } from '@/utils/ErrorHandler';
 import { PerformanceMonitor, measurePerformance } from '@/utils/PerformanceMonitor';
 
@@ -26,6 +27,8 @@ interface BoardData {
   height: number;
   cells: Cell[][];
   remainingMines: number;
+  topology: GridTopology;
+  neighbourhood: NeighbourhoodRule;
 }
 
 export class ProbabilityCalculatorWithWorker implements IProbabilityCalculator {
@@ -203,21 +206,14 @@ export class ProbabilityCalculatorWithWorker implements IProbabilityCalculator {
         return;
       }
 
-      // Create worker from blob to avoid external file dependency
-      const workerCode = this.getWorkerCode();
-      const blob = new Blob([workerCode], { type: 'application/javascript' });
-      const workerUrl = URL.createObjectURL(blob);
-      
-      this.worker = new Worker(workerUrl);
+      // Vite bundles the worker module, with its constraint solver, from this URL
+      this.worker = new Worker(new URL('../workers/ProbabilityWorker.ts', import.meta.url), { type: 'module' });
       this.worker.onmessage = this.handleWorkerMessage.bind(this);
       this.worker.onerror = this.handleWorkerError.bind(this);
       
       this.workerAvailable = true;
       console.log('Probability calculation worker initialized');
       
-      // Clean up blob URL
-      URL.revokeObjectURL(workerUrl);
-      
     } catch (error) {
       console.error('Failed to initialize worker:', error);
       this.workerAvailable = false;
@@ -243,7 +239,7 @@ export class ProbabilityCalculatorWithWorker implements IProbabilityCalculator {
     for (let y = 0; y < board.getHeight(); y++) {
       for (let x = 0; x < board.getWidth(); x++) {
         const cell = cells[y][x];
-        if (!cell.isRevealed && !cell.isFlagged) {
+        if (!cell.isRevealed && !cell.isFlagged && !cell.isMasked) {
           count++;
         }
       }
@@ -260,18 +256,25 @@ export class ProbabilityCalculatorWithWorker implements IProbabilityCalculator {
       }
 
       const id = `calc_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-      const boardData: BoardData = {
-        width: board.getWidth(),
-        height: board.getHeight(),
-        cells: board.getCells(),
-        remainingMines: board.getRemainingMines()
-      };
-
-      const message: WorkerMessage = {
-        id,
-        type: 'calculateProbabilities',
-        data: { boardData }
-      };
+      let message: WorkerMessage;
+      let transfer: Transferable[] = [];
+
+      if (board instanceof GameBoard) {
+        // Typed-array boards are copied once and their buffers transferred instead of cloned
+        const compactBoard = board.toCompact();
+        message = { id, type: 'calculateProbabilities', data: { compactBoard } };
+        transfer = [compactBoard.state.buffer, compactBoard.adjacent.buffer];
+      } else {
+        const boardData: BoardData = {
+          width: board.getWidth(),
+          height: board.getHeight(),
+          cells: board.getCells(),
+          remainingMines: board.getRemainingMines(),
+          topology: board.getTopology(),
+          neighbourhood: board.getNeighbourhood()
+        };
+        message = { id, type: 'calculateProbabilities', data: { boardData } };
+      }
 
       // Set up timeout
       const timeout = setTimeout(() => {
@@ -283,7 +286,7 @@ export class ProbabilityCalculatorWithWorker implements IProbabilityCalculator {
       this.pendingCalculations.set(id, { resolve, reject, timeout });
 
       // Send message to worker
-      this.worker.postMessage(message);
+      this.worker.postMessage(message, transfer);
     });
   }
 
@@ -340,79 +343,4 @@ export class ProbabilityCalculatorWithWorker implements IProbabilityCalculator {
       this.initializeWorker();
     }, 1000);
   }
-
-  private getWorkerCode(): string {
-    // Return the worker code as a string
-    // In a real implementation, you might want to load this from the actual worker file
-    return `
-      // Simplified worker code - in production, load from actual worker file
-      const workerEngine = {
-        calculateProbabilities: function(boardData) {
-          // Simplified Monte Carlo calculation for worker
-          const probabilities = new Map();
-          const unknownCells = [];
-          
-          // Find unknown cells
-          for (let y = 0; y < boardData.height; y++) {
-            for (let x = 0; x < boardData.width; x++) {
-              const cell = boardData.cells[y][x];
-              if (!cell.isRevealed && !cell.isFlagged) {
-                unknownCells.push(cell);
-              }
-            }
-          }
-          
-          if (unknownCells.length === 0) {
-            return {
-              cellProbabilities: {},
-              lastUpdated: new Date(),
-              calculationMethod: 'exact'
-            };
-          }
-          
-          // Simple uniform probability as fallback
-          const uniformProb = Math.max(0, boardData.remainingMines) / unknownCells.length;
-          const result = {};
-          
-          unknownCells.forEach(cell => {
-            result[\`\${cell.x},\${cell.y}\`] = Math.max(0, Math.min(1, uniformProb));
-          });
-          
-          return {
-            cellProbabilities: result,
-            lastUpdated: new Date(),
-            calculationMethod: 'monte_carlo'
-          };
-        }
-      };
-      
-      self.onmessage = function(event) {
-        const { id, type, data } = event.data;
-        
-        try {
-          let result;
-          
-          switch (type) {
-            case 'calculateProbabilities':
-              result = workerEngine.calculateProbabilities(data.boardData);
-              break;
-            default:
-              throw new Error('Unknown message type: ' + type);
-          }
-          
-          self.postMessage({
-            id: id,
-            success: true,
-            result: result
-          });
-        } catch (error) {
-          self.postMessage({
-            id: id,
-            success: false,
-            error: error.message
-          });
-        }
-      };
-    `;
-  }
-}
\ No newline at end of file
+}
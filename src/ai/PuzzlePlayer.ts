@@ -0,0 +1,115 @@
+import { GameState, MoveAction } from '@/types';
+import { GameBoard } from '@/game/GameBoard';
+import { GameLogic } from '@/game/GameLogic';
+import { Puzzle, PuzzleMove, createPuzzleBoard } from '@/game/Puzzles';
+import { ProbabilityCalculator } from './ProbabilityCalculator';
+
+export type PuzzleMoveResult = 'correct' | 'wrong' | 'ignored'; // Ignored moves change nothing on the board
+
+/**
+ * Plays a hand-authored puzzle through GameLogic, turning away any flag or reveal that
+ * contradicts the puzzle's solution instead of letting it end the game
+ */
+export class PuzzlePlayer {
+  private gameLogic: GameLogic;
+  private puzzle: Puzzle;
+  private probabilityCalculator: ProbabilityCalculator;
+  private board: GameBoard | null = null;
+  private mistakes: number = 0;
+
+  constructor(gameLogic: GameLogic, puzzle: Puzzle, probabilityCalculator?: ProbabilityCalculator) {
+    this.gameLogic = gameLogic;
+    this.puzzle = puzzle;
+    this.probabilityCalculator = probabilityCalculator || new ProbabilityCalculator();
+  }
+
+  /**
+   * Load the position and start playing it. Throws if pure logic cannot clear the position,
+   * since a puzzle that needs a guess has more than one answer.
+   */
+  start(): GameBoard {
+    this.verifyUniquelySolvable();
+    this.board = this.gameLogic.startGame(createPuzzleBoard(this.puzzle));
+    this.mistakes = 0;
+    return this.board;
+  }
+
+  /**
+   * Make the move if it agrees with the solution. Flags only ever sit on mines, so chords and
+   * taking a flag back off are always allowed. Once solved, the puzzle takes no more moves.
+   */
+  play(x: number, y: number, action: MoveAction): PuzzleMoveResult {
+    if (!this.board) {
+      throw new Error('Puzzle has not been started');
+    }
+    if (this.gameLogic.isGameFinished(this.board)) {
+      return 'ignored';
+    }
+
+    const cell = this.board.getCell(x, y);
+    if (cell && action !== 'chord' && !cell.isRevealed && !cell.isFlagged && cell.isMine !== (action === 'flag')) {
+      this.mistakes++;
+      return 'wrong';
+    }
+    return this.gameLogic.makeMove(this.board, x, y, action) ? 'correct' : 'ignored';
+  }
+
+  getPuzzle(): Puzzle {
+    return this.puzzle;
+  }
+
+  getBoard(): GameBoard | null {
+    return this.board;
+  }
+
+  getMistakes(): number {
+    return this.mistakes;
+  }
+
+  isSolved(): boolean {
+    return this.board?.getGameState() === GameState.WON;
+  }
+
+  /**
+   * Clear the board using only the calculator's certainties and return the moves in the order
+   * they were found, cells an opening uncovered included, or null if logic gets stuck. Every safe
+   * cell being provably safe means the mine layout is the only one the numbers allow.
+   * The board is played, so pass a throwaway copy.
+   */
+  static findLogicalSolution(board: GameBoard, probabilityCalculator: ProbabilityCalculator = new ProbabilityCalculator()): PuzzleMove[] | null {
+    const moves: PuzzleMove[] = [];
+    let progress = true;
+
+    while (progress && board.getGameState() !== GameState.WON && board.getGameState() !== GameState.LOST) {
+      progress = false;
+      probabilityCalculator.calculateCertainties(board).cellProbabilities.forEach((value, key) => {
+        const [x, y] = key.split(',').map(Number);
+        const cell = board.getCell(x, y)!;
+        if (cell.isRevealed || cell.isFlagged) return;
+
+        if (value === 1) {
+          board.flagCell(x, y);
+          moves.push({ x, y, action: 'flag' });
+        } else {
+          board.revealCellBatch(x, y).forEach(opened => moves.push({ x: opened.x, y: opened.y, action: 'reveal' }));
+        }
+        progress = true;
+      });
+    }
+
+    if (board.getGameState() !== GameState.WON) {
+      return null;
+    }
+    // The last reveal can win before every mine is flagged
+    board.getCells().flat()
+      .filter(cell => cell.isMine && !cell.isFlagged)
+      .forEach(cell => moves.push({ x: cell.x, y: cell.y, action: 'flag' }));
+    return moves;
+  }
+
+  private verifyUniquelySolvable(): void {
+    if (!PuzzlePlayer.findLogicalSolution(createPuzzleBoard(this.puzzle), this.probabilityCalculator)) {
+      throw new Error(`Puzzle '${this.puzzle.id}' is not uniquely solvable`);
+    }
+  }
+}
@@ -1,3 +1,7 @@
 export { HintEngine } from './HintEngine';
 export { ProbabilityCalculator } from './ProbabilityCalculator';
-export { GameAnalyzer } from './GameAnalyzer';
\ No newline at end of file
+export { GameAnalyzer } from './GameAnalyzer';
+export { LogicSolver } from './LogicSolver';
+export { NoGuessGenerator } from './NoGuessGenerator';
+export { FrontierProbabilityCalculator } from './FrontierProbabilityCalculator';
+export { PuzzlePlayer } from './PuzzlePlayer';
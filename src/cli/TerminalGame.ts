@@ -0,0 +1,219 @@
+import { Cell, DifficultyLevel, DifficultySettings, GameState, MoveAction, ProbabilityMap } from '@/types';
+import { IGameBoard } from '@/interfaces/GameEngine';
+import { GameLogic } from '@/game/GameLogic';
+import { StateManager } from '@/game/StateManager';
+import { ProbabilityCalculator } from '@/ai/ProbabilityCalculator';
+import { HintEngine } from '@/ai/HintEngine';
+import { AdaptiveDifficultyManager } from '@/adaptive/AdaptiveDifficultyManager';
+
+export const TERMINAL_HELP = [
+  'Commands:',
+  '  r x y   reveal a cell',
+  '  f x y   flag a cell, or take the flag off',
+  '  c x y   chord a revealed number',
+  '  hint    suggest the next move',
+  '  undo    take back the last move',
+  '  probs   show the chance of a mine under each hidden cell',
+  '  board   show the board again',
+  '  help    show this list'
+].join('\n');
+
+const MOVE_COMMANDS: Record<string, MoveAction> = { r: 'reveal', f: 'flag', c: 'chord' };
+
+/**
+ * Board settings from command-line flags: --level, --seed, --width, --height and --mines.
+ * Throws on flags it does not know or cannot read.
+ */
+export function parseTerminalArguments(args: string[]): DifficultySettings {
+  const flags = new Map<string, string>();
+  for (let i = 0; i < args.length; i += 2) {
+    if (!args[i].startsWith('--') || args[i + 1] === undefined) {
+      throw new Error(`Expected --flag value, got: ${args.slice(i).join(' ')}`);
+    }
+    flags.set(args[i].slice(2), args[i + 1]);
+  }
+
+  const number = (flag: string) => {
+    const value = Number(flags.get(flag));
+    if (!Number.isInteger(value) || value < 0) {
+      throw new Error(`--${flag} must be a whole number`);
+    }
+    flags.delete(flag);
+    return value;
+  };
+
+  const level = (flags.get('level') ?? DifficultyLevel.BEGINNER) as DifficultyLevel;
+  if (!Object.values(DifficultyLevel).includes(level)) {
+    throw new Error(`Unknown level: ${level}`);
+  }
+  flags.delete('level');
+
+  const settings = AdaptiveDifficultyManager.getDifficultyPreset(level);
+  if (flags.has('width')) settings.width = number('width');
+  if (flags.has('height')) settings.height = number('height');
+  if (flags.has('mines')) settings.mineCount = number('mines');
+  if (flags.has('seed')) settings.seed = number('seed');
+  if (flags.size > 0) {
+    throw new Error(`Unknown option: --${[...flags.keys()][0]}`);
+  }
+  return settings;
+}
+
+/**
+ * A game played through text commands, with no DOM. Each command returns the text to show,
+ * so the same game can sit behind a terminal prompt or a scripted regression check.
+ */
+export class TerminalGame {
+  private gameLogic: GameLogic;
+  private stateManager: StateManager;
+  private probabilityCalculator: ProbabilityCalculator;
+  private hintEngine: HintEngine;
+  private board: IGameBoard;
+
+  constructor(settings: DifficultySettings) {
+    this.gameLogic = new GameLogic();
+    this.stateManager = new StateManager(this.gameLogic);
+    this.probabilityCalculator = new ProbabilityCalculator();
+    this.hintEngine = new HintEngine();
+
+    this.board = this.gameLogic.createBoard(settings);
+    this.stateManager.setPracticeMode(true);
+    this.stateManager.saveState(this.board);
+  }
+
+  getBoard(): IGameBoard {
+    return this.board;
+  }
+
+  getGameLogic(): GameLogic {
+    return this.gameLogic;
+  }
+
+  isFinished(): boolean {
+    return this.gameLogic.isGameFinished(this.board);
+  }
+
+  /**
+   * Run one command line and return what it printed. Blank lines print nothing.
+   */
+  execute(line: string): string {
+    const [command, ...args] = line.trim().toLowerCase().split(/\s+/);
+    if (!command) {
+      return '';
+    }
+
+    if (command in MOVE_COMMANDS) {
+      return this.move(MOVE_COMMANDS[command], args);
+    }
+    switch (command) {
+      case 'hint': return this.hint();
+      case 'undo': return this.undo();
+      case 'probs': return this.renderProbabilities(this.calculateProbabilities());
+      case 'board': return this.render();
+      case 'help': return TERMINAL_HELP;
+      default: return `Unknown command: ${command}. Type help for the list of commands.`;
+    }
+  }
+
+  /**
+   * The board as text: '#' hidden, '.' open, digits for numbers, 'F' flags, '?' question marks.
+   * Once the game is over mines show as '*' and wrong flags as 'X'. Columns are x and rows are
+   * y, both from 0.
+   */
+  render(): string {
+    const state = this.board.getGameState();
+    const status = state === GameState.WON ? 'You won!'
+      : state === GameState.LOST ? 'You hit a mine.'
+      : state;
+    const header = `Seed ${this.board.getSeed()} | Mines left ${this.board.getRemainingMines()} | ` +
+      `Moves ${this.gameLogic.getMoveCount()} | ${status}`;
+    return [header, ...this.renderGrid(cell => this.symbolFor(cell, state), 1)].join('\n');
+  }
+
+  private move(action: MoveAction, args: string[]): string {
+    const [x, y] = args.map(Number);
+    if (args.length !== 2 || !Number.isInteger(x) || !Number.isInteger(y)) {
+      return `Expected x and y, as in: ${action[0]} 3 4`;
+    }
+    if (this.isFinished()) {
+      return 'The game is over. Undo to take back the last move.';
+    }
+    if (!this.gameLogic.makeMove(this.board, x, y, action)) {
+      return `Cannot ${action} (${x}, ${y})`;
+    }
+
+    this.stateManager.saveState(this.board);
+    return this.render();
+  }
+
+  private hint(): string {
+    if (this.isFinished()) {
+      return 'The game is over.';
+    }
+    const hint = this.hintEngine.generateHint(this.board, this.calculateProbabilities());
+    if (!hint) {
+      return 'No hint available';
+    }
+
+    this.gameLogic.recordHintUsage(hint);
+    return `Hint: ${hint.action} (${hint.cell.x}, ${hint.cell.y}), ` +
+      `${Math.round(hint.confidence * 100)}% confident. ${hint.reasoning}`;
+  }
+
+  private undo(): string {
+    const board = this.stateManager.undo();
+    if (!board) {
+      return 'Nothing to undo';
+    }
+    this.board = board;
+    return this.render();
+  }
+
+  private calculateProbabilities(): ProbabilityMap {
+    return this.probabilityCalculator.calculateProbabilities(this.board);
+  }
+
+  /**
+   * Each hidden cell's mine chance as a whole percentage, with open and flagged cells as on the board
+   */
+  private renderProbabilities(probabilities: ProbabilityMap): string {
+    const state = this.board.getGameState();
+    return this.renderGrid(cell => {
+      const probability = probabilities.cellProbabilities.get(`${cell.x},${cell.y}`);
+      const hidden = !cell.isRevealed && !cell.isFlagged && !cell.isMasked;
+      return hidden && probability !== undefined
+        ? String(Math.round(probability * 100))
+        : this.symbolFor(cell, state);
+    }, 3).join('\n');
+  }
+
+  /**
+   * Rows of cells, each right-aligned to the given width, under a header of column numbers
+   */
+  private renderGrid(symbol: (cell: Cell) => string, cellWidth: number): string[] {
+    const width = this.board.getWidth();
+    const labelWidth = String(this.board.getHeight() - 1).length;
+    const columnWidth = Math.max(cellWidth, String(width - 1).length);
+    const pad = (text: string) => text.padStart(columnWidth);
+    const columns = Array.from({ length: width }, (_, x) => pad(String(x)));
+
+    return [
+      `${' '.repeat(labelWidth)} ${columns.join(' ')}`,
+      ...this.board.getCells().map((row, y) =>
+        `${String(y).padStart(labelWidth)} ${row.map(cell => pad(symbol(cell))).join(' ')}`)
+    ];
+  }
+
+  private symbolFor(cell: Cell, state: GameState): string {
+    if (cell.isMasked) return ' ';
+    const over = state === GameState.WON || state === GameState.LOST;
+    if (cell.isRevealed) {
+      if (cell.isMine) return '*';
+      return cell.adjacentMines > 0 ? String(cell.adjacentMines) : '.';
+    }
+    if (cell.isFlagged) return over && !cell.isMine ? 'X' : 'F';
+    if (over && cell.isMine) return '*';
+    if (cell.isQuestioned) return '?';
+    return '#';
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * Terminal entry point: npm run cli -- [--level beginner|intermediate|expert] [--seed N]
+ * [--width W --height H --mines M]. Commands are read line by line from stdin, so a file of
+ * commands can be piped in for a scripted run.
+ */
+
+import { createInterface } from 'readline';
+import { GameState } from '@/types';
+import { TERMINAL_HELP, TerminalGame, parseTerminalArguments } from './TerminalGame';
+
+function main(): void {
+  let game: TerminalGame;
+  try {
+    game = new TerminalGame(parseTerminalArguments(process.argv.slice(2)));
+  } catch (error) {
+    console.error((error as Error).message);
+    process.exitCode = 1;
+    return;
+  }
+
+  const interactive = process.stdin.isTTY === true;
+  const terminal = createInterface({ input: process.stdin, output: process.stdout, terminal: interactive });
+  if (interactive) {
+    console.log(TERMINAL_HELP);
+  }
+  console.log(game.render());
+  terminal.setPrompt('> ');
+  if (interactive) terminal.prompt();
+
+  terminal.on('line', line => {
+    if (['quit', 'exit'].includes(line.trim().toLowerCase())) {
+      terminal.close();
+      return;
+    }
+    const output = game.execute(line);
+    if (output) console.log(output);
+    if (interactive) terminal.prompt();
+  });
+
+  // Scripted runs report how the game ended through the exit code: 0 won, 2 lost, 3 unfinished
+  terminal.on('close', () => {
+    const state = game.getBoard().getGameState();
+    if (!interactive) {
+      process.exitCode = state === GameState.WON ? 0 : state === GameState.LOST ? 2 : 3;
+    }
+  });
+}
+
+main();
@@ -0,0 +1,307 @@
+/**
+ * Compact board storage backed by typed arrays.
+ * Cells are addressed by index (y * width + x) and their state is packed into bit flags.
+ */
+
+import { Cell, GridTopology, NeighbourhoodRule } from '@/types';
+
+export const CELL_MINE = 1;
+export const CELL_REVEALED = 2;
+export const CELL_FLAGGED = 4;
+export const CELL_QUESTIONED = 8;
+export const CELL_MASKED = 16; // Outside the board's shape
+
+/**
+ * Typed-array copy of a board. Its buffers can be transferred to a worker without cloning cells.
+ */
+export interface CompactBoard {
+  width: number;
+  height: number;
+  remainingMines: number;
+  state: Uint8Array;    // CELL_* bit flags per cell
+  adjacent: Uint8Array; // Adjacent mine count per cell
+  topology?: GridTopology; // Square when missing
+  neighbourhood?: NeighbourhoodRule; // Standard when missing
+}
+
+/**
+ * Calls the callback with the index of every neighbour of a cell. Topologies provide one each.
+ */
+export type NeighbourFunction = (
+  width: number,
+  height: number,
+  index: number,
+  callback: (neighbour: number) => void
+) => void;
+
+/**
+ * Wrap a neighbour function so cells marked CELL_MASKED in the state array are left out
+ */
+export function skipMasked(neighbours: NeighbourFunction, state: Uint8Array): NeighbourFunction {
+  return (width, height, index, callback) => neighbours(width, height, index, neighbour => {
+    if ((state[neighbour] & CELL_MASKED) === 0) callback(neighbour);
+  });
+}
+
+/**
+ * Call the callback with the index of every neighbour of a cell on a square grid
+ */
+export function forEachNeighbour(
+  width: number,
+  height: number,
+  index: number,
+  callback: (neighbour: number) => void
+): void {
+  const x = index % width;
+  const y = (index - x) / width;
+
+  for (let dy = -1; dy <= 1; dy++) {
+    const ny = y + dy;
+    if (ny < 0 || ny >= height) continue;
+
+    for (let dx = -1; dx <= 1; dx++) {
+      const nx = x + dx;
+      if ((dx === 0 && dy === 0) || nx < 0 || nx >= width) continue;
+      callback(ny * width + nx);
+    }
+  }
+}
+
+export class BoardCore {
+  readonly width: number;
+  readonly height: number;
+  readonly size: number;
+  readonly state: Uint8Array;
+  readonly adjacent: Uint8Array;
+  private flaggedCount: number = 0;
+  private revealedSafeCount: number = 0;
+  private mineTotal: number = 0;
+  private maskedCount: number = 0;
+  private neighbours: NeighbourFunction;
+  private unmaskedNeighbours: NeighbourFunction;
+
+  constructor(width: number, height: number, neighbours: NeighbourFunction = forEachNeighbour) {
+    this.width = width;
+    this.height = height;
+    this.neighbours = neighbours;
+    this.size = width * height;
+    this.state = new Uint8Array(this.size);
+    this.adjacent = new Uint8Array(this.size);
+    this.unmaskedNeighbours = skipMasked(neighbours, this.state);
+  }
+
+  index(x: number, y: number): number {
+    return y * this.width + x;
+  }
+
+  has(index: number, flag: number): boolean {
+    return (this.state[index] & flag) !== 0;
+  }
+
+  /**
+   * Set or clear a flag, keeping the running counts in step
+   */
+  set(index: number, flag: number, on: boolean): void {
+    const before = this.state[index];
+    const after = on ? before | flag : before & ~flag;
+    if (before === after) {
+      return;
+    }
+
+    this.state[index] = after;
+    this.flaggedCount += BoardCore.count(after, CELL_FLAGGED) - BoardCore.count(before, CELL_FLAGGED);
+    this.mineTotal += BoardCore.count(after, CELL_MINE) - BoardCore.count(before, CELL_MINE);
+    this.maskedCount += BoardCore.count(after, CELL_MASKED) - BoardCore.count(before, CELL_MASKED);
+    this.revealedSafeCount += BoardCore.revealedSafe(after) - BoardCore.revealedSafe(before);
+  }
+
+  /**
+   * Masked cells are nobody's neighbour; unshaped boards skip the check
+   */
+  forEachNeighbour(index: number, callback: (neighbour: number) => void): void {
+    const neighbours = this.maskedCount > 0 ? this.unmaskedNeighbours : this.neighbours;
+    neighbours(this.width, this.height, index, callback);
+  }
+
+  /**
+   * Recount adjacent mines for every safe cell inside the shape
+   */
+  calculateAdjacency(): void {
+    for (let index = 0; index < this.size; index++) {
+      let count = 0;
+      if (!this.has(index, CELL_MINE | CELL_MASKED)) {
+        this.forEachNeighbour(index, neighbour => {
+          if (this.has(neighbour, CELL_MINE)) count++;
+        });
+      }
+      this.adjacent[index] = count;
+    }
+  }
+
+  getFlaggedCount(): number {
+    return this.flaggedCount;
+  }
+
+  getMineTotal(): number {
+    return this.mineTotal;
+  }
+
+  /**
+   * Cells inside the board's shape
+   */
+  getPlayableCount(): number {
+    return this.size - this.maskedCount;
+  }
+
+  /**
+   * Whether every safe cell has been revealed
+   */
+  allSafeCellsRevealed(): boolean {
+    return this.revealedSafeCount === this.getPlayableCount() - this.mineTotal;
+  }
+
+  /**
+   * Count the 3BV: one click per opening plus one per number that does not border an opening.
+   * solved is the part of it already uncovered by revealed cells.
+   */
+  calculate3BV(): { total: number; solved: number } {
+    const covered = new Uint8Array(this.size);
+    let total = 0;
+    let solved = 0;
+
+    for (let index = 0; index < this.size; index++) {
+      if (covered[index] || this.adjacent[index] !== 0 || this.has(index, CELL_MINE | CELL_MASKED)) continue;
+
+      // Flood the opening, covering its border numbers as well
+      let revealed = false;
+      const pending = [index];
+      covered[index] = 1;
+      while (pending.length > 0) {
+        const current = pending.pop()!;
+        revealed = revealed || this.has(current, CELL_REVEALED);
+        this.forEachNeighbour(current, neighbour => {
+          if (!covered[neighbour] && !this.has(neighbour, CELL_MINE)) {
+            covered[neighbour] = 1;
+            if (this.adjacent[neighbour] === 0) pending.push(neighbour);
+          }
+        });
+      }
+
+      total++;
+      if (revealed) solved++;
+    }
+
+    for (let index = 0; index < this.size; index++) {
+      if (covered[index] || this.has(index, CELL_MINE | CELL_MASKED)) continue;
+      total++;
+      if (this.has(index, CELL_REVEALED)) solved++;
+    }
+
+    return { total, solved };
+  }
+
+  /**
+   * Copy the arrays into a snapshot that can be handed off without affecting this board
+   */
+  toCompact(
+    remainingMines: number,
+    topology: GridTopology = GridTopology.SQUARE,
+    neighbourhood: NeighbourhoodRule = NeighbourhoodRule.STANDARD
+  ): CompactBoard {
+    return {
+      width: this.width,
+      height: this.height,
+      remainingMines,
+      topology,
+      neighbourhood,
+      state: this.state.slice(),
+      adjacent: this.adjacent.slice()
+    };
+  }
+
+  private static count(state: number, flag: number): number {
+    return (state & flag) !== 0 ? 1 : 0;
+  }
+
+  private static revealedSafe(state: number): number {
+    return (state & (CELL_REVEALED | CELL_MINE)) === CELL_REVEALED ? 1 : 0;
+  }
+}
+
+/**
+ * Cell view that reads and writes through to a BoardCore, so IGameBoard callers keep the Cell shape
+ */
+export class BoardCell implements Cell {
+  readonly x: number;
+  readonly y: number;
+  private readonly core: BoardCore;
+  private readonly index: number;
+
+  constructor(core: BoardCore, x: number, y: number) {
+    this.core = core;
+    this.x = x;
+    this.y = y;
+    this.index = core.index(x, y);
+  }
+
+  get isMine(): boolean {
+    return this.core.has(this.index, CELL_MINE);
+  }
+
+  set isMine(value: boolean) {
+    this.core.set(this.index, CELL_MINE, value);
+  }
+
+  get isRevealed(): boolean {
+    return this.core.has(this.index, CELL_REVEALED);
+  }
+
+  set isRevealed(value: boolean) {
+    this.core.set(this.index, CELL_REVEALED, value);
+  }
+
+  get isFlagged(): boolean {
+    return this.core.has(this.index, CELL_FLAGGED);
+  }
+
+  set isFlagged(value: boolean) {
+    this.core.set(this.index, CELL_FLAGGED, value);
+  }
+
+  get isQuestioned(): boolean {
+    return this.core.has(this.index, CELL_QUESTIONED);
+  }
+
+  set isQuestioned(value: boolean) {
+    this.core.set(this.index, CELL_QUESTIONED, value);
+  }
+
+  get isMasked(): boolean {
+    return this.core.has(this.index, CELL_MASKED);
+  }
+
+  get adjacentMines(): number {
+    return this.core.adjacent[this.index];
+  }
+
+  set adjacentMines(value: number) {
+    this.core.adjacent[this.index] = value;
+  }
+
+  /**
+   * Serialize as a plain cell, matching the format saved before the typed-array core
+   */
+  toJSON(): Cell {
+    return {
+      x: this.x,
+      y: this.y,
+      isMine: this.isMine,
+      isRevealed: this.isRevealed,
+      isFlagged: this.isFlagged,
+      isQuestioned: this.isQuestioned,
+      adjacentMines: this.adjacentMines,
+      // Only shaped boards carry the field, so rectangular saves are unchanged
+      ...(this.isMasked ? { isMasked: true } : {})
+    };
+  }
+}
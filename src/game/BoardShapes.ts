@@ -0,0 +1,107 @@
+/**
+ * Board shape masks. A mask is one string per row, '#' for a playable cell and '.' for a hole;
+ * holes are never mined, never played and never counted as anyone's neighbour.
+ */
+
+export const MASK_CELL = '#';
+export const MASK_HOLE = '.';
+
+export interface ShapePreset {
+  id: string;
+  name: string;
+  mask: string[];
+  mineCount: number; // Suggested count, roughly beginner density
+}
+
+export const SHAPE_PRESETS: ShapePreset[] = [
+  {
+    id: 'heart',
+    name: 'Heart',
+    mineCount: 16,
+    mask: [
+      '..###...###..',
+      '.#####.#####.',
+      '#############',
+      '#############',
+      '#############',
+      '.###########.',
+      '..#########..',
+      '...#######...',
+      '....#####....',
+      '.....###.....',
+      '......#......'
+    ]
+  },
+  {
+    id: 'ring',
+    name: 'Ring',
+    mineCount: 14,
+    mask: [
+      '...#####...',
+      '..#######..',
+      '.#########.',
+      '####...####',
+      '###.....###',
+      '###.....###',
+      '###.....###',
+      '####...####',
+      '.#########.',
+      '..#######..',
+      '...#####...'
+    ]
+  },
+  {
+    id: 'cross',
+    name: 'Cross',
+    mineCount: 13,
+    mask: [
+      '...#####...',
+      '...#####...',
+      '...#####...',
+      '###########',
+      '###########',
+      '###########',
+      '###########',
+      '###########',
+      '...#####...',
+      '...#####...',
+      '...#####...'
+    ]
+  },
+  {
+    id: 'letter-a',
+    name: 'Letter A',
+    mineCount: 11,
+    mask: [
+      '....###....',
+      '...#####...',
+      '..###.###..',
+      '..##...##..',
+      '.###...###.',
+      '.#########.',
+      '.#########.',
+      '###.....###',
+      '###.....###',
+      '##.......##',
+      '##.......##'
+    ]
+  }
+];
+
+export function getShapePreset(id: string): ShapePreset | undefined {
+  return SHAPE_PRESETS.find(preset => preset.id === id);
+}
+
+/**
+ * Check a mask against the board size it is meant for. Throws if it does not fit.
+ */
+export function validateMask(mask: string[], width: number, height: number): void {
+  if (!Array.isArray(mask) || mask.length !== height ||
+      mask.some(row => typeof row !== 'string' || row.length !== width || /[^#.]/.test(row))) {
+    throw new Error('Shape mask does not match the board dimensions');
+  }
+}
+
+export function countPlayableCells(mask: string[]): number {
+  return mask.reduce((total, row) => total + row.split('').filter(cell => cell === MASK_CELL).length, 0);
+}
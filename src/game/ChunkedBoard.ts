@@ -0,0 +1,541 @@
+import { Cell, GameState, GridTopology, NeighbourhoodRule } from '@/types';
+import { BoardEventListener, BoardEventMap, BoardEventName, IGameBoard } from '@/interfaces/GameEngine';
+import { EventEmitter } from '@/utils/EventEmitter';
+import { BoardCore, CELL_MINE, CELL_REVEALED } from './BoardCore';
+import { DEFAULT_MINE_DISTRIBUTION } from './MineDistributions';
+import { createSeededRandom, generateSeed, randomInt, seedFromString } from '@/utils/SeededRandom';
+
+export interface ChunkedBoardSettings {
+  seed?: number;
+  chunkSize?: number; // Cells along each side of a chunk
+  density?: number;   // Share of every chunk that is mined
+}
+
+type Side = 'left' | 'right' | 'top' | 'bottom';
+
+const DEFAULT_CHUNK_SIZE = 16;
+const DEFAULT_DENSITY = 0.16;
+// Below this, openings can join up and a single reveal would never stop cascading
+const MIN_DENSITY = 0.1;
+const MAX_DENSITY = 0.3;
+// Revealing within this many cells of an edge generates the chunks beyond it
+const EXPAND_MARGIN = 2;
+
+/**
+ * Endless board built from square chunks generated as play reaches them. Each chunk's mines
+ * come from the seed and the chunk's own coordinates, so a chunk is the same whichever order
+ * the board grew in. Board coordinates start at the top-left generated cell; growing left or
+ * up moves every existing cell, which the boardExpanded event reports as a shift.
+ */
+export class ChunkedBoard implements IGameBoard {
+  private cells: Cell[][] = [];
+  private seed: number;
+  private chunkSize: number;
+  private density: number;
+  private chunkLeft: number = -1; // Chunk coordinates of the top-left chunk
+  private chunkTop: number = -1;
+  private chunksWide: number = 0;
+  private chunksHigh: number = 0;
+  private mineCount: number = 0;
+  private flaggedCount: number = 0;
+  private clearedCount: number = 0;
+  private gameState: GameState = GameState.READY;
+  private startTime: Date = new Date();
+  private endTime?: Date;
+  private events: EventEmitter<BoardEventMap> = new EventEmitter();
+
+  constructor(settings: ChunkedBoardSettings = {}) {
+    const chunkSize = settings.chunkSize ?? DEFAULT_CHUNK_SIZE;
+    const density = settings.density ?? DEFAULT_DENSITY;
+    if (!Number.isInteger(chunkSize) || chunkSize < 4) {
+      throw new Error(`Invalid chunk size: ${chunkSize}`);
+    }
+    if (!(density >= MIN_DENSITY && density <= MAX_DENSITY)) {
+      throw new Error(`Invalid mine density: ${density}`);
+    }
+
+    this.seed = settings.seed ?? generateSeed();
+    this.chunkSize = chunkSize;
+    this.density = density;
+
+    // Start with the chunk holding the opening and a ring of chunks around it
+    const span = 3 * chunkSize;
+    this.cells = Array.from({ length: span }, () => []);
+    this.chunksWide = 3;
+    this.chunksHigh = 3;
+    for (let chunkY = -1; chunkY <= 1; chunkY++) {
+      for (let chunkX = -1; chunkX <= 1; chunkX++) {
+        this.placeChunk(chunkX, chunkY);
+      }
+    }
+    this.updateAdjacency(0, 0, span - 1, span - 1);
+  }
+
+  /**
+   * Rebuild a board from the output of serialize() by regenerating its chunks from the seed
+   */
+  static fromSerialized(data: string): ChunkedBoard {
+    let state: any;
+    try {
+      state = JSON.parse(data);
+    } catch {
+      throw new Error('Serialized board is not valid JSON');
+    }
+    if (!state || state.kind !== 'chunked') {
+      throw new Error('Serialized board is not a chunked board');
+    }
+    if (!Object.values(GameState).includes(state.gameState)) {
+      throw new Error(`Invalid game state: ${state.gameState}`);
+    }
+
+    const board = new ChunkedBoard({ seed: state.seed, chunkSize: state.chunkSize, density: state.density });
+    while (board.chunkLeft > state.chunkLeft) board.addChunks('left');
+    while (board.chunkTop > state.chunkTop) board.addChunks('top');
+    while (board.chunkLeft + board.chunksWide < state.chunkLeft + state.chunksWide) board.addChunks('right');
+    while (board.chunkTop + board.chunksHigh < state.chunkTop + state.chunksHigh) board.addChunks('bottom');
+
+    const cellAt = (index: number): Cell => {
+      const cell = Number.isInteger(index) ? board.getCell(index % board.getWidth(), Math.floor(index / board.getWidth())) : null;
+      if (!cell) {
+        throw new Error(`Invalid cell index: ${index}`);
+      }
+      return cell;
+    };
+    (state.revealed as number[]).map(cellAt).forEach(cell => {
+      cell.isRevealed = true;
+      if (!cell.isMine) board.clearedCount++;
+    });
+    (state.flagged as number[]).map(cellAt).forEach(cell => {
+      cell.isFlagged = true;
+      board.flaggedCount++;
+    });
+    (state.questioned as number[]).map(cellAt).forEach(cell => cell.isQuestioned = true);
+
+    board.gameState = state.gameState;
+    board.startTime = new Date(state.startTime);
+    board.endTime = state.endTime ? new Date(state.endTime) : undefined;
+    return board;
+  }
+
+  /**
+   * Subscribe to board changes. Returns a function that unsubscribes.
+   */
+  on<K extends BoardEventName>(event: K, listener: BoardEventListener<K>): () => void {
+    return this.events.on(event, listener);
+  }
+
+  off<K extends BoardEventName>(event: K, listener: BoardEventListener<K>): void {
+    this.events.off(event, listener);
+  }
+
+  getCell(x: number, y: number): Cell | null {
+    if (!this.isValidPosition(x, y)) {
+      return null;
+    }
+    return this.cells[y][x];
+  }
+
+  getCells(): Cell[][] {
+    return this.cells;
+  }
+
+  getWidth(): number {
+    return this.chunksWide * this.chunkSize;
+  }
+
+  getHeight(): number {
+    return this.chunksHigh * this.chunkSize;
+  }
+
+  /**
+   * Mines in the chunks generated so far
+   */
+  getMineCount(): number {
+    return this.mineCount;
+  }
+
+  getGameState(): GameState {
+    return this.gameState;
+  }
+
+  getSeed(): number {
+    return this.seed;
+  }
+
+  getTopology(): GridTopology {
+    return GridTopology.SQUARE;
+  }
+
+  getNeighbourhood(): NeighbourhoodRule {
+    return NeighbourhoodRule.STANDARD;
+  }
+
+  /**
+   * Every chunk is filled uniformly at the board's density
+   */
+  getMineDistribution(): string {
+    return DEFAULT_MINE_DISTRIBUTION;
+  }
+
+  getChunkSize(): number {
+    return this.chunkSize;
+  }
+
+  getDensity(): number {
+    return this.density;
+  }
+
+  /**
+   * Board position of the cell the game starts from; it is always an opening
+   */
+  getStartCell(): { x: number; y: number } {
+    const centre = Math.floor(this.chunkSize / 2);
+    return { x: -this.chunkLeft * this.chunkSize + centre, y: -this.chunkTop * this.chunkSize + centre };
+  }
+
+  /**
+   * Board position of world cell (0, 0), the top-left cell of the starting chunk.
+   * World positions never move, so they identify cells across growth.
+   */
+  getOrigin(): { x: number; y: number } {
+    return { x: -this.chunkLeft * this.chunkSize, y: -this.chunkTop * this.chunkSize };
+  }
+
+  /**
+   * Safe cells revealed so far - the measure of an endless game
+   */
+  getClearedCells(): number {
+    return this.clearedCount;
+  }
+
+  revealCell(x: number, y: number): boolean {
+    return this.revealCellBatch(x, y).length > 0;
+  }
+
+  /**
+   * Reveal a cell and flood-fill any opening it starts, generating chunks as the reveal nears an edge.
+   * Returns every cell revealed, in reveal order.
+   */
+  revealCellBatch(x: number, y: number): Cell[] {
+    const cell = this.getCell(x, y);
+    if (!cell || this.isFinished()) {
+      return [];
+    }
+
+    const wasReady = this.gameState === GameState.READY;
+    const revealed = this.floodReveal(cell);
+    if (revealed.length > 0) {
+      if (wasReady) {
+        this.events.emit('gameStarted', { board: this, cell: revealed[0] });
+      }
+      this.emitRevealed(revealed);
+    }
+    return revealed;
+  }
+
+  /**
+   * Cells are tracked as objects rather than positions, because growing left or up mid-cascade moves them
+   */
+  private floodReveal(start: Cell): Cell[] {
+    if (start.isRevealed || start.isFlagged) {
+      return [];
+    }
+
+    if (this.gameState === GameState.READY) {
+      this.gameState = GameState.PLAYING;
+    }
+
+    const revealed: Cell[] = [];
+    const pending: Cell[] = [start];
+    start.isRevealed = true;
+
+    while (pending.length > 0) {
+      const current = pending.pop()!;
+      // A revealed number must see all of its neighbours
+      this.expandAround(current);
+      current.isQuestioned = false;
+      revealed.push(current);
+
+      if (current.isMine) {
+        this.gameState = GameState.LOST;
+        this.endTime = new Date();
+        return revealed;
+      }
+      this.clearedCount++;
+
+      if (current.adjacentMines === 0) {
+        this.getAdjacentCells(current.x, current.y).forEach(neighbour => {
+          if (!neighbour.isRevealed && !neighbour.isFlagged && !neighbour.isMine) {
+            neighbour.isRevealed = true;
+            pending.push(neighbour);
+          }
+        });
+      }
+    }
+
+    // An endless board is never cleared, so there is no win to check
+    return revealed;
+  }
+
+  flagCell(x: number, y: number): boolean {
+    const cell = this.getCell(x, y);
+    if (!cell || cell.isRevealed) {
+      return false;
+    }
+
+    cell.isFlagged = !cell.isFlagged;
+    cell.isQuestioned = false;
+    this.flaggedCount += cell.isFlagged ? 1 : -1;
+    this.events.emit('cellFlagged', { board: this, cell });
+    this.events.emit('minesRemainingChanged', { board: this, minesRemaining: this.getRemainingMines() });
+    return true;
+  }
+
+  /**
+   * Toggle the question mark on a hidden, unflagged cell
+   */
+  questionCell(x: number, y: number): boolean {
+    const cell = this.getCell(x, y);
+    if (!cell || cell.isRevealed || cell.isFlagged) {
+      return false;
+    }
+
+    cell.isQuestioned = !cell.isQuestioned;
+    this.events.emit('cellFlagged', { board: this, cell });
+    return true;
+  }
+
+  /**
+   * Reveal all unflagged neighbours of a revealed number whose flag count matches it
+   */
+  chordCell(x: number, y: number): boolean {
+    const cell = this.getCell(x, y);
+    if (!cell || this.gameState !== GameState.PLAYING || !cell.isRevealed || cell.adjacentMines === 0) {
+      return false;
+    }
+
+    const neighbours = this.getAdjacentCells(x, y);
+    if (neighbours.filter(neighbour => neighbour.isFlagged).length !== cell.adjacentMines) {
+      return false;
+    }
+
+    const revealed: Cell[] = [];
+    for (const neighbour of neighbours) {
+      if (this.gameState !== GameState.PLAYING) {
+        break;
+      }
+      revealed.push(...this.floodReveal(neighbour));
+    }
+
+    if (revealed.length > 0) {
+      this.emitRevealed(revealed);
+    }
+    return revealed.length > 0;
+  }
+
+  isValidPosition(x: number, y: number): boolean {
+    return x >= 0 && x < this.getWidth() && y >= 0 && y < this.getHeight();
+  }
+
+  getAdjacentCells(x: number, y: number): Cell[] {
+    const adjacent: Cell[] = [];
+    for (let dy = -1; dy <= 1; dy++) {
+      for (let dx = -1; dx <= 1; dx++) {
+        if ((dx !== 0 || dy !== 0) && this.isValidPosition(x + dx, y + dy)) {
+          adjacent.push(this.cells[y + dy][x + dx]);
+        }
+      }
+    }
+    return adjacent;
+  }
+
+  getRemainingMines(): number {
+    return this.mineCount - this.flaggedCount;
+  }
+
+  /**
+   * 3BV of the area generated so far
+   */
+  get3BV(): number {
+    return this.toCore().calculate3BV().total;
+  }
+
+  getSolved3BV(): number {
+    return this.toCore().calculate3BV().solved;
+  }
+
+  /**
+   * Only the seed, extent and cell states are stored; the mines are regenerated on load
+   */
+  serialize(): string {
+    const revealed: number[] = [];
+    const flagged: number[] = [];
+    const questioned: number[] = [];
+    this.cells.forEach((row, y) => row.forEach((cell, x) => {
+      const index = y * this.getWidth() + x;
+      if (cell.isRevealed) revealed.push(index);
+      if (cell.isFlagged) flagged.push(index);
+      if (cell.isQuestioned) questioned.push(index);
+    }));
+
+    return JSON.stringify({
+      kind: 'chunked',
+      seed: this.seed,
+      chunkSize: this.chunkSize,
+      density: this.density,
+      chunkLeft: this.chunkLeft,
+      chunkTop: this.chunkTop,
+      chunksWide: this.chunksWide,
+      chunksHigh: this.chunksHigh,
+      gameState: this.gameState,
+      startTime: this.startTime,
+      endTime: this.endTime,
+      revealed,
+      flagged,
+      questioned
+    });
+  }
+
+  private isFinished(): boolean {
+    return this.gameState === GameState.WON || this.gameState === GameState.LOST;
+  }
+
+  private expandAround(cell: Cell): void {
+    while (cell.x < EXPAND_MARGIN) this.addChunks('left');
+    while (cell.x >= this.getWidth() - EXPAND_MARGIN) this.addChunks('right');
+    while (cell.y < EXPAND_MARGIN) this.addChunks('top');
+    while (cell.y >= this.getHeight() - EXPAND_MARGIN) this.addChunks('bottom');
+  }
+
+  /**
+   * Generate a column or row of chunks along one side of the board
+   */
+  private addChunks(side: Side): void {
+    const size = this.chunkSize;
+    const oldWidth = this.getWidth();
+    const oldHeight = this.getHeight();
+    let shiftX = 0;
+    let shiftY = 0;
+
+    if (side === 'left') {
+      this.cells.forEach(row => {
+        row.forEach(cell => cell.x += size);
+        row.unshift(...new Array<Cell>(size));
+      });
+      this.chunkLeft--;
+      shiftX = size;
+    } else if (side === 'top') {
+      this.cells.forEach(row => row.forEach(cell => cell.y += size));
+      this.cells.unshift(...Array.from({ length: size }, () => []));
+      this.chunkTop--;
+      shiftY = size;
+    } else if (side === 'bottom') {
+      this.cells.push(...Array.from({ length: size }, () => []));
+    }
+
+    if (side === 'left' || side === 'right') {
+      this.chunksWide++;
+      const chunkX = side === 'left' ? this.chunkLeft : this.chunkLeft + this.chunksWide - 1;
+      for (let row = 0; row < this.chunksHigh; row++) {
+        this.placeChunk(chunkX, this.chunkTop + row);
+      }
+    } else {
+      this.chunksHigh++;
+      const chunkY = side === 'top' ? this.chunkTop : this.chunkTop + this.chunksHigh - 1;
+      for (let column = 0; column < this.chunksWide; column++) {
+        this.placeChunk(this.chunkLeft + column, chunkY);
+      }
+    }
+
+    // The new cells and the old edge next to them
+    const width = this.getWidth();
+    const height = this.getHeight();
+    if (side === 'left') this.updateAdjacency(0, 0, size, height - 1);
+    if (side === 'right') this.updateAdjacency(oldWidth - 1, 0, width - 1, height - 1);
+    if (side === 'top') this.updateAdjacency(0, 0, width - 1, size);
+    if (side === 'bottom') this.updateAdjacency(0, oldHeight - 1, width - 1, height - 1);
+
+    this.events.emit('boardExpanded', { board: this, width, height, shiftX, shiftY });
+  }
+
+  /**
+   * Create the cells of one chunk in the grid, with mines but without adjacency counts
+   */
+  private placeChunk(chunkX: number, chunkY: number): void {
+    const size = this.chunkSize;
+    const mines = this.generateChunkMines(chunkX, chunkY);
+    const left = (chunkX - this.chunkLeft) * size;
+    const top = (chunkY - this.chunkTop) * size;
+
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        const isMine = mines.has(y * size + x);
+        this.cells[top + y][left + x] = {
+          x: left + x,
+          y: top + y,
+          isMine,
+          isRevealed: false,
+          isFlagged: false,
+          isQuestioned: false,
+          adjacentMines: 0
+        };
+        if (isMine) this.mineCount++;
+      }
+    }
+  }
+
+  /**
+   * Pick a chunk's mines from the seed and the chunk coordinates alone.
+   * The starting chunk keeps a 3x3 mine-free opening around the start cell.
+   */
+  private generateChunkMines(chunkX: number, chunkY: number): Set<number> {
+    const size = this.chunkSize;
+    const random = createSeededRandom(seedFromString(`${this.seed}:${chunkX}:${chunkY}`));
+    const excluded = new Set<number>();
+    if (chunkX === 0 && chunkY === 0) {
+      const centre = Math.floor(size / 2);
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          excluded.add((centre + dy) * size + centre + dx);
+        }
+      }
+    }
+
+    const mines = new Set<number>();
+    const target = Math.round(size * size * this.density);
+    while (mines.size < target) {
+      const index = randomInt(random, size * size);
+      if (!excluded.has(index)) {
+        mines.add(index);
+      }
+    }
+    return mines;
+  }
+
+  private updateAdjacency(fromX: number, fromY: number, toX: number, toY: number): void {
+    for (let y = Math.max(0, fromY); y <= Math.min(toY, this.getHeight() - 1); y++) {
+      for (let x = Math.max(0, fromX); x <= Math.min(toX, this.getWidth() - 1); x++) {
+        const cell = this.cells[y][x];
+        cell.adjacentMines = cell.isMine ? 0 : this.getAdjacentCells(x, y).filter(neighbour => neighbour.isMine).length;
+      }
+    }
+  }
+
+  private toCore(): BoardCore {
+    const core = new BoardCore(this.getWidth(), this.getHeight());
+    this.cells.forEach((row, y) => row.forEach((cell, x) => {
+      const index = core.index(x, y);
+      core.set(index, CELL_MINE, cell.isMine);
+      core.set(index, CELL_REVEALED, cell.isRevealed);
+    }));
+    core.calculateAdjacency();
+    return core;
+  }
+
+  private emitRevealed(revealed: Cell[]): void {
+    this.events.emit('cellRevealed', { board: this, cells: revealed });
+    if (this.gameState === GameState.LOST) {
+      this.events.emit('gameLost', { board: this, cell: revealed[revealed.length - 1] });
+    }
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * Daily challenge: one board per calendar day, identical for every player.
+ * Dates are taken in UTC so players in different time zones share the same board.
+ */
+
+import { DifficultyLevel, DifficultySettings, FirstClickPolicy } from '@/types';
+import { AdaptiveDifficultyManager } from '@/adaptive/AdaptiveDifficultyManager';
+import { seedFromString } from '@/utils/SeededRandom';
+
+export const DAILY_CHALLENGE_LEVEL = DifficultyLevel.INTERMEDIATE;
+
+export interface DailyChallenge {
+  date: string; // YYYY-MM-DD
+  settings: DifficultySettings;
+}
+
+/**
+ * The challenge date (YYYY-MM-DD, UTC) for a moment in time
+ */
+export function getChallengeDate(now: Date = new Date()): string {
+  return now.toISOString().slice(0, 10);
+}
+
+/**
+ * Build the challenge for a date. Mines are placed from the seed up front rather than around
+ * the first click, otherwise players opening in different places would get different boards.
+ */
+export function createDailyChallenge(date: string = getChallengeDate()): DailyChallenge {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    throw new Error(`Invalid challenge date: ${date}`);
+  }
+
+  return {
+    date,
+    settings: {
+      ...AdaptiveDifficultyManager.getDifficultyPreset(DAILY_CHALLENGE_LEVEL),
+      seed: seedFromString(`daily:${date}`),
+      firstClickPolicy: FirstClickPolicy.NONE
+    }
+  };
+}
@@ -1,7 +1,32 @@
-import { Cell, GameState, DifficultySettings } from '@/types';
-import { IGameBoard } from '@/interfaces/GameEngine';
+import { Cell, GameState, DifficultyLevel, DifficultySettings, FirstClickPolicy, GridTopology, NeighbourhoodRule } from '@/types';
+import { BoardEventListener, BoardEventMap, BoardEventName, IGameBoard } from '@/interfaces/GameEngine';
+import { EventEmitter } from '@/utils/EventEmitter';
+import {
+  BoardCell,
+  BoardCore,
+  CELL_FLAGGED,
+  CELL_MASKED,
+  CELL_MINE,
+  CELL_QUESTIONED,
+  CELL_REVEALED,
+  CompactBoard
+} from './BoardCore';
+import {
+  RandomGeneratorFactory,
+  RandomNumberGenerator,
+  createSeededRandom,
+  generateSeed
+} from '@/utils/SeededRandom';
+import { Topology, getTopology } from './Topology';
+import { Neighbourhood, getNeighbourhood } from './Neighbourhood';
+import { MASK_HOLE, validateMask } from './BoardShapes';
+import { DEFAULT_MINE_DISTRIBUTION, MineDistribution, getMineDistribution } from './MineDistributions';
 
+/**
+ * Board state lives in a typed-array BoardCore; the Cell objects handed out are views onto it
+ */
 export class GameBoard implements IGameBoard {
+  private core: BoardCore;
   private cells: Cell[][];
   private width: number;
   private height: number;
@@ -9,74 +34,252 @@ export class GameBoard implements IGameBoard {
   private gameState: GameState;
   private startTime: Date;
   private endTime?: Date;
+  private seed: number;
+  private random: RandomNumberGenerator;
+  private firstClickPolicy: FirstClickPolicy;
+  private topology: Topology;
+  private neighbourhood: Neighbourhood;
+  private mask?: string[];
+  private mineDistribution: MineDistribution;
+  private minesPlaced: boolean = false;
+  private events: EventEmitter<BoardEventMap> = new EventEmitter();
 
-  constructor(settings: DifficultySettings) {
+  constructor(settings: DifficultySettings, randomFactory: RandomGeneratorFactory = createSeededRandom) {
     this.width = settings.width;
     this.height = settings.height;
     this.mineCount = settings.mineCount;
+    this.seed = settings.seed ?? generateSeed();
+    this.random = randomFactory(this.seed);
+    this.firstClickPolicy = settings.firstClickPolicy ?? FirstClickPolicy.NONE;
+    this.topology = getTopology(settings.topology);
+    this.neighbourhood = getNeighbourhood(settings.neighbourhood);
+    this.mineDistribution = GameBoard.findMineDistribution(settings.mineDistribution ?? DEFAULT_MINE_DISTRIBUTION);
     this.gameState = GameState.READY;
     this.startTime = new Date();
+    this.core = new BoardCore(this.width, this.height, this.neighbourhood.neighboursOn(this.topology));
+    if (settings.mask) {
+      this.applyMask(settings.mask);
+    }
     this.cells = this.initializeBoard();
-    this.placeMines();
-    this.calculateAdjacentMines();
+
+    // Guaranteed openings need to know the first click, so placement waits for it
+    if (this.firstClickPolicy === FirstClickPolicy.NONE) {
+      this.placeMines();
+      this.core.calculateAdjacency();
+    }
   }
 
-  private initializeBoard(): Cell[][] {
-    const board: Cell[][] = [];
-    for (let y = 0; y < this.height; y++) {
-      board[y] = [];
-      for (let x = 0; x < this.width; x++) {
-        board[y][x] = {
-          x,
-          y,
-          isMine: false,
-          isRevealed: false,
-          isFlagged: false,
-          adjacentMines: 0
-        };
+  /**
+   * Rebuild a board from the output of serialize().
+   * Throws if the data is malformed or describes an impossible board.
+   */
+  static fromSerialized(data: string): GameBoard {
+    let state: any;
+    try {
+      state = JSON.parse(data);
+    } catch {
+      throw new Error('Serialized board is not valid JSON');
+    }
+    GameBoard.validateSerializedState(state);
+
+    // Boards saved before deferred placement always had their mines placed up front
+    const minesPlaced = state.minesPlaced ?? true;
+    const board = new GameBoard({
+      width: state.width,
+      height: state.height,
+      mineCount: state.mineCount,
+      level: DifficultyLevel.CUSTOM,
+      seed: state.seed,
+      firstClickPolicy: state.firstClickPolicy,
+      topology: state.topology,
+      neighbourhood: state.neighbourhood,
+      mask: state.mask,
+      mineDistribution: state.mineDistribution
+    });
+
+    // The constructor may have placed mines already, so every flag is written explicitly
+    state.cells.forEach((row: Cell[]) => row.forEach(cell => {
+      const index = board.core.index(cell.x, cell.y);
+      board.core.set(index, CELL_MINE, cell.isMine);
+      board.core.set(index, CELL_REVEALED, cell.isRevealed);
+      board.core.set(index, CELL_FLAGGED, cell.isFlagged);
+      board.core.set(index, CELL_QUESTIONED, cell.isQuestioned === true);
+      board.core.adjacent[index] = cell.adjacentMines;
+    }));
+    board.minesPlaced = minesPlaced;
+    board.gameState = state.gameState;
+    board.startTime = new Date(state.startTime);
+    board.endTime = state.endTime ? new Date(state.endTime) : undefined;
+    return board;
+  }
+
+  /**
+   * Build a board from a hand-made layout instead of a seed. Cells in revealed start uncovered
+   * without flooding; the game itself starts with the first move. Throws if a mine or revealed
+   * cell is off the board or in a hole, or a revealed cell is a mine.
+   */
+  static fromLayout(
+    settings: DifficultySettings,
+    mines: Array<{ x: number; y: number }>,
+    revealed: Array<{ x: number; y: number }> = []
+  ): GameBoard {
+    // Deferred placement keeps the seed's mines off the board
+    const board = new GameBoard({ ...settings, mineCount: mines.length, firstClickPolicy: FirstClickPolicy.ZERO });
+    const place = ({ x, y }: { x: number; y: number }, flag: number) => {
+      const index = board.core.index(x, y);
+      if (!board.isValidPosition(x, y) || board.core.has(index, CELL_MASKED | flag)) {
+        throw new Error(`Invalid layout cell at (${x}, ${y})`);
       }
+      board.core.set(index, flag, true);
+    };
+
+    mines.forEach(cell => place(cell, CELL_MINE));
+    board.core.calculateAdjacency();
+    revealed.forEach(cell => place(cell, CELL_REVEALED));
+    if (revealed.some(({ x, y }) => board.core.has(board.core.index(x, y), CELL_MINE))) {
+      throw new Error('Layout reveals a mine');
     }
+
+    board.minesPlaced = true;
+    board.firstClickPolicy = settings.firstClickPolicy ?? FirstClickPolicy.NONE;
     return board;
   }
 
-  private placeMines(): void {
-    let minesPlaced = 0;
-    while (minesPlaced < this.mineCount) {
-      const x = Math.floor(Math.random() * this.width);
-      const y = Math.floor(Math.random() * this.height);
-      
-      if (!this.cells[y][x].isMine) {
-        this.cells[y][x].isMine = true;
-        minesPlaced++;
+  private static validateSerializedState(state: any): void {
+    if (!state || typeof state !== 'object') {
+      throw new Error('Serialized board must be an object');
+    }
+
+    const { width, height, mineCount, cells } = state;
+    if (!Number.isInteger(width) || !Number.isInteger(height) || width <= 0 || height <= 0) {
+      throw new Error(`Invalid board dimensions: ${width}x${height}`);
+    }
+    if (!Number.isInteger(mineCount) || mineCount < 0 || mineCount > width * height) {
+      throw new Error(`Invalid mine count: ${mineCount}`);
+    }
+    if (!Object.values(GameState).includes(state.gameState)) {
+      throw new Error(`Invalid game state: ${state.gameState}`);
+    }
+    if (state.seed !== undefined && !Number.isInteger(state.seed)) {
+      throw new Error(`Invalid seed: ${state.seed}`);
+    }
+    if (state.firstClickPolicy !== undefined && !Object.values(FirstClickPolicy).includes(state.firstClickPolicy)) {
+      throw new Error(`Invalid first-click policy: ${state.firstClickPolicy}`);
+    }
+    if (state.topology !== undefined && !Object.values(GridTopology).includes(state.topology)) {
+      throw new Error(`Invalid topology: ${state.topology}`);
+    }
+    if (state.neighbourhood !== undefined && !Object.values(NeighbourhoodRule).includes(state.neighbourhood)) {
+      throw new Error(`Invalid neighbourhood rule: ${state.neighbourhood}`);
+    }
+    if (state.mask !== undefined) {
+      validateMask(state.mask, width, height);
+    }
+    if (!Array.isArray(cells) || cells.length !== height ||
+        cells.some((row: unknown) => !Array.isArray(row) || row.length !== width)) {
+      throw new Error('Cell grid does not match the board dimensions');
+    }
+
+    let mines = 0;
+    cells.forEach((row: any[], y: number) => row.forEach((cell, x) => {
+      if (!cell || cell.x !== x || cell.y !== y ||
+          typeof cell.isMine !== 'boolean' || typeof cell.isRevealed !== 'boolean' ||
+          typeof cell.isFlagged !== 'boolean' || !Number.isInteger(cell.adjacentMines)) {
+        throw new Error(`Invalid cell at (${x}, ${y})`);
+      }
+      if (cell.isMine) mines++;
+    }));
+
+    if (state.minesPlaced !== false && mines !== mineCount) {
+      throw new Error(`Board has ${mines} mines but expects ${mineCount}`);
+    }
+    if (state.minesPlaced === false && (mines > 0 || state.gameState !== GameState.READY)) {
+      throw new Error('Board without placed mines must be untouched');
+    }
+  }
+
+  /**
+   * Cut the holes out of the board. Throws if the mask does not fit or leaves too few cells for the mines.
+   */
+  private applyMask(mask: string[]): void {
+    validateMask(mask, this.width, this.height);
+    mask.forEach((row, y) => row.split('').forEach((cell, x) => {
+      if (cell === MASK_HOLE) {
+        this.core.set(this.core.index(x, y), CELL_MASKED, true);
       }
+    }));
+    if (this.mineCount > this.core.getPlayableCount()) {
+      throw new Error(`Invalid mine count: ${this.mineCount} for ${this.core.getPlayableCount()} cells`);
     }
+    this.mask = [...mask];
   }
 
-  private calculateAdjacentMines(): void {
+  private initializeBoard(): Cell[][] {
+    const board: Cell[][] = [];
     for (let y = 0; y < this.height; y++) {
+      board[y] = [];
       for (let x = 0; x < this.width; x++) {
-        if (!this.cells[y][x].isMine) {
-          this.cells[y][x].adjacentMines = this.countAdjacentMines(x, y);
-        }
+        board[y][x] = new BoardCell(this.core, x, y);
       }
     }
+    return board;
+  }
+
+  private static findMineDistribution(id: string): MineDistribution {
+    const distribution = getMineDistribution(id);
+    if (!distribution) {
+      throw new Error(`Unknown mine distribution '${id}'`);
+    }
+    return distribution;
+  }
+
+  private placeMines(excluded: Set<number> = new Set()): void {
+    const mines = this.mineDistribution.place({
+      width: this.width,
+      height: this.height,
+      mineCount: this.mineCount,
+      seed: this.seed,
+      random: this.random,
+      canHoldMine: index => !this.core.has(index, CELL_MASKED) && !excluded.has(index)
+    });
+    mines.forEach(index => this.core.set(index, CELL_MINE, true));
+    this.minesPlaced = true;
   }
 
-  private countAdjacentMines(x: number, y: number): number {
-    let count = 0;
-    for (let dy = -1; dy <= 1; dy++) {
-      for (let dx = -1; dx <= 1; dx++) {
-        if (dx === 0 && dy === 0) continue;
-        
-        const nx = x + dx;
-        const ny = y + dy;
-        
-        if (this.isValidPosition(nx, ny) && this.cells[ny][nx].isMine) {
-          count++;
-        }
+  /**
+   * Place mines around the first revealed cell according to the first-click policy
+   */
+  private placeMinesForFirstClick(x: number, y: number): void {
+    const totalCells = this.core.getPlayableCount();
+    const clicked = this.core.index(x, y);
+    const excluded = new Set<number>();
+
+    if (this.firstClickPolicy === FirstClickPolicy.ZERO) {
+      const opening = [clicked];
+      this.core.forEachNeighbour(clicked, neighbour => opening.push(neighbour));
+      // Fall back to a safe click when the board is too dense for a full opening
+      if (totalCells - opening.length >= this.mineCount) {
+        opening.forEach(index => excluded.add(index));
       }
     }
-    return count;
+
+    if (excluded.size === 0 && totalCells - 1 >= this.mineCount) {
+      excluded.add(clicked);
+    }
+
+    this.placeMines(excluded);
+    this.core.calculateAdjacency();
+  }
+
+  /**
+   * Subscribe to board changes. Returns a function that unsubscribes.
+   */
+  on<K extends BoardEventName>(event: K, listener: BoardEventListener<K>): () => void {
+    return this.events.on(event, listener);
+  }
+
+  off<K extends BoardEventName>(event: K, listener: BoardEventListener<K>): void {
+    this.events.off(event, listener);
   }
 
   getCell(x: number, y: number): Cell | null {
@@ -106,14 +309,71 @@ export class GameBoard implements IGameBoard {
     return this.gameState;
   }
 
+  getSeed(): number {
+    return this.seed;
+  }
+
+  getFirstClickPolicy(): FirstClickPolicy {
+    return this.firstClickPolicy;
+  }
+
+  getTopology(): GridTopology {
+    return this.topology.type;
+  }
+
+  getNeighbourhood(): NeighbourhoodRule {
+    return this.neighbourhood.rule;
+  }
+
+  getMineDistribution(): string {
+    return this.mineDistribution.id;
+  }
+
+  /**
+   * The shape mask the board was cut from, or undefined for a full rectangle
+   */
+  getMask(): string[] | undefined {
+    return this.mask;
+  }
+
+  hasPlacedMines(): boolean {
+    return this.minesPlaced;
+  }
+
   revealCell(x: number, y: number): boolean {
+    return this.revealCellBatch(x, y).length > 0;
+  }
+
+  /**
+   * Reveal a cell and flood-fill any opening it starts.
+   * Returns every cell revealed, in reveal order, for renderers and animations.
+   */
+  revealCellBatch(x: number, y: number): Cell[] {
+    const wasReady = this.gameState === GameState.READY;
+    const revealed = this.floodReveal(x, y);
+
+    if (revealed.length > 0) {
+      if (wasReady) {
+        this.events.emit('gameStarted', { board: this, cell: revealed[0] });
+      }
+      this.emitRevealed(revealed);
+    }
+    return revealed;
+  }
+
+  /**
+   * The cascade runs iteratively, so large open boards cannot overflow the stack,
+   * and the win condition is checked once for the whole batch.
+   */
+  private floodReveal(x: number, y: number): Cell[] {
     if (!this.isValidPosition(x, y)) {
-      return false;
+      return [];
     }
 
-    const cell = this.cells[y][x];
-    if (cell.isRevealed || cell.isFlagged) {
-      return false;
+    const core = this.core;
+    const start = core.index(x, y);
+    if (core.has(start, CELL_REVEALED | CELL_FLAGGED | CELL_MASKED)) {
+      return [];
     }
 
     // Start the game on first move
@@ -121,18 +381,36 @@ export class GameBoard implements IGameBoard {
       this.gameState = GameState.PLAYING;
     }
 
-    cell.isRevealed = true;
-
-    // Check if mine was revealed
-    if (cell.isMine) {
-      this.gameState = GameState.LOST;
-      this.endTime = new Date();
-      return true;
+    if (!this.minesPlaced) {
+      this.placeMinesForFirstClick(x, y);
     }
 
-    // Auto-reveal adjacent cells if this cell has no adjacent mines
-    if (cell.adjacentMines === 0) {
-      this.revealAdjacentCells(x, y);
+    const revealed: Cell[] = [];
+    const pending: number[] = [start];
+    const openNeighbour = (neighbour: number) => {
+      if (!core.has(neighbour, CELL_REVEALED | CELL_FLAGGED | CELL_MINE)) {
+        core.set(neighbour, CELL_REVEALED, true);
+        pending.push(neighbour);
+      }
+    };
+    core.set(start, CELL_REVEALED, true);
+
+    while (pending.length > 0) {
+      const current = pending.pop()!;
+      core.set(current, CELL_QUESTIONED, false);
+      revealed.push(this.cellAt(current));
+
+      // Check if mine was revealed
+      if (core.has(current, CELL_MINE)) {
+        this.gameState = GameState.LOST;
+        this.endTime = new Date();
+        return revealed;
+      }
+
+      // Openings spread to every neighbour that is not flagged
+      if (core.adjacent[current] === 0) {
+        core.forEachNeighbour(current, openNeighbour);
+      }
     }
 
     // Check win condition
@@ -141,86 +419,139 @@ export class GameBoard implements IGameBoard {
       this.endTime = new Date();
     }
 
-    return true;
+    return revealed;
   }
 
-  private revealAdjacentCells(x: number, y: number): void {
-    for (let dy = -1; dy <= 1; dy++) {
-      for (let dx = -1; dx <= 1; dx++) {
-        if (dx === 0 && dy === 0) continue;
-        
-        const nx = x + dx;
-        const ny = y + dy;
-        
-        if (this.isValidPosition(nx, ny)) {
-          const adjacentCell = this.cells[ny][nx];
-          if (!adjacentCell.isRevealed && !adjacentCell.isFlagged && !adjacentCell.isMine) {
-            this.revealCell(nx, ny);
-          }
-        }
-      }
+  flagCell(x: number, y: number): boolean {
+    if (!this.isValidPosition(x, y)) {
+      return false;
+    }
+
+    const cell = this.cells[y][x];
+    if (cell.isRevealed || cell.isMasked) {
+      return false;
     }
+
+    cell.isFlagged = !cell.isFlagged;
+    cell.isQuestioned = false;
+    this.events.emit('cellFlagged', { board: this, cell });
+    this.events.emit('minesRemainingChanged', { board: this, minesRemaining: this.getRemainingMines() });
+    return true;
   }
 
-  flagCell(x: number, y: number): boolean {
+  /**
+   * Toggle the question mark on a hidden, unflagged cell
+   */
+  questionCell(x: number, y: number): boolean {
     if (!this.isValidPosition(x, y)) {
       return false;
     }
 
     const cell = this.cells[y][x];
-    if (cell.isRevealed) {
+    if (cell.isRevealed || cell.isFlagged || cell.isMasked) {
       return false;
     }
 
-    cell.isFlagged = !cell.isFlagged;
+    cell.isQuestioned = !cell.isQuestioned;
+    this.events.emit('cellFlagged', { board: this, cell });
     return true;
   }
 
+  /**
+   * Reveal all unflagged neighbours of a revealed number whose flag count matches it.
+   * A misplaced flag means a mine gets revealed and the game is lost.
+   */
+  chordCell(x: number, y: number): boolean {
+    if (!this.isValidPosition(x, y) || this.gameState !== GameState.PLAYING) {
+      return false;
+    }
+
+    const cell = this.cells[y][x];
+    if (!cell.isRevealed || cell.adjacentMines === 0) {
+      return false;
+    }
+
+    const neighbours = this.getAdjacentCells(x, y);
+    const flaggedCount = neighbours.filter(neighbour => neighbour.isFlagged).length;
+    if (flaggedCount !== cell.adjacentMines) {
+      return false;
+    }
+
+    // Everything the chord uncovers is reported as one batch
+    const revealed: Cell[] = [];
+    for (const neighbour of neighbours) {
+      // Stop as soon as a wrong flag ends the game
+      if (this.gameState !== GameState.PLAYING) {
+        break;
+      }
+      if (!neighbour.isRevealed && !neighbour.isFlagged) {
+        revealed.push(...this.floodReveal(neighbour.x, neighbour.y));
+      }
+    }
+
+    if (revealed.length > 0) {
+      this.emitRevealed(revealed);
+    }
+    return revealed.length > 0;
+  }
+
   isValidPosition(x: number, y: number): boolean {
     return x >= 0 && x < this.width && y >= 0 && y < this.height;
   }
 
+  /**
+   * The cells a number here counts, as the board's topology and neighbourhood rule define them
+   */
   getAdjacentCells(x: number, y: number): Cell[] {
     const adjacent: Cell[] = [];
-    
-    for (let dy = -1; dy <= 1; dy++) {
-      for (let dx = -1; dx <= 1; dx++) {
-        if (dx === 0 && dy === 0) continue;
-        
-        const nx = x + dx;
-        const ny = y + dy;
-        
-        if (this.isValidPosition(nx, ny)) {
-          adjacent.push(this.cells[ny][nx]);
-        }
-      }
+    if (this.isValidPosition(x, y)) {
+      this.core.forEachNeighbour(this.core.index(x, y), neighbour => adjacent.push(this.cellAt(neighbour)));
     }
-    
     return adjacent;
   }
 
   getRemainingMines(): number {
-    let flaggedCount = 0;
-    for (let y = 0; y < this.height; y++) {
-      for (let x = 0; x < this.width; x++) {
-        if (this.cells[y][x].isFlagged) {
-          flaggedCount++;
-        }
-      }
+    return this.mineCount - this.core.getFlaggedCount();
+  }
+
+  /**
+   * Minimum number of clicks needed to clear the board, or 0 before the mines are placed
+   */
+  get3BV(): number {
+    return this.minesPlaced ? this.core.calculate3BV().total : 0;
+  }
+
+  /**
+   * How much of the 3BV the revealed cells have cleared
+   */
+  getSolved3BV(): number {
+    return this.minesPlaced ? this.core.calculate3BV().solved : 0;
+  }
+
+  /**
+   * Copy the board into typed arrays that can be transferred to a worker
+   */
+  toCompact(): CompactBoard {
+    return this.core.toCompact(this.getRemainingMines(), this.topology.type, this.neighbourhood.rule);
+  }
+
+  private emitRevealed(revealed: Cell[]): void {
+    this.events.emit('cellRevealed', { board: this, cells: revealed });
+
+    if (this.gameState === GameState.LOST) {
+      this.events.emit('gameLost', { board: this, cell: revealed[revealed.length - 1] });
+    } else if (this.gameState === GameState.WON) {
+      this.events.emit('gameWon', { board: this });
     }
-    return this.mineCount - flaggedCount;
+  }
+
+  private cellAt(index: number): Cell {
+    const x = index % this.width;
+    return this.cells[(index - x) / this.width][x];
   }
 
   private checkWinCondition(): boolean {
-    for (let y = 0; y < this.height; y++) {
-      for (let x = 0; x < this.width; x++) {
-        const cell = this.cells[y][x];
-        if (!cell.isMine && !cell.isRevealed) {
-          return false;
-        }
-      }
-    }
-    return true;
+    return this.core.allSafeCellsRevealed();
   }
 
   serialize(): string {
@@ -228,6 +559,13 @@ export class GameBoard implements IGameBoard {
       width: this.width,
       height: this.height,
       mineCount: this.mineCount,
+      seed: this.seed,
+      firstClickPolicy: this.firstClickPolicy,
+      topology: this.topology.type,
+      neighbourhood: this.neighbourhood.rule,
+      mask: this.mask,
+      mineDistribution: this.mineDistribution.id,
+      minesPlaced: this.minesPlaced,
       gameState: this.gameState,
       startTime: this.startTime,
       endTime: this.endTime,
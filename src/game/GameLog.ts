@@ -0,0 +1,125 @@
+import { IGameBoard } from '@/interfaces/GameEngine';
+import { Cell, Move, MoveAction } from '@/types';
+import { GameBoard } from './GameBoard';
+import { ChunkedBoard } from './ChunkedBoard';
+
+interface LogEntry {
+  move: Move;
+  questionMarks: boolean; // Whether a flag click on a flagged cell left a question mark
+}
+
+/**
+ * What a move did to the board. Moves that change nothing are not part of a game.
+ */
+export interface MoveOutcome {
+  changed: boolean;
+  revealed: Cell[]; // Cells a reveal uncovered, opening included
+}
+
+/**
+ * Make a move on a board: reveal, chord, or advance the marker on a hidden cell through flag,
+ * question mark (when enabled) and clear. GameLogic plays moves through here and GameLog replays
+ * them the same way.
+ */
+export function applyMove(board: IGameBoard, x: number, y: number, action: MoveAction, questionMarks: boolean): MoveOutcome {
+  if (action === 'reveal') {
+    const revealed = board.revealCellBatch(x, y);
+    return { changed: revealed.length > 0, revealed };
+  }
+  if (action === 'chord') {
+    return { changed: board.chordCell(x, y), revealed: [] };
+  }
+
+  const cell = board.getCell(x, y);
+  if (!questionMarks || !cell) {
+    return { changed: board.flagCell(x, y), revealed: [] };
+  }
+  if (cell.isFlagged) {
+    return { changed: board.flagCell(x, y) && board.questionCell(x, y), revealed: [] };
+  }
+  if (cell.isQuestioned) {
+    return { changed: board.questionCell(x, y), revealed: [] };
+  }
+  return { changed: board.flagCell(x, y), revealed: [] };
+}
+
+/**
+ * A game as an append-only log of the moves made from the board it started on. Any point in the
+ * game is rebuilt by replaying the log from that board, so moves carry no snapshots. Slices share
+ * their moves with the log they came from, which keeps undo history and checkpoints cheap.
+ */
+export class GameLog {
+  private origin: string; // Serialized board before the first move
+  private entries: LogEntry[];
+  private length: number; // Entries past this belong to a later point some other slice can see
+
+  private constructor(origin: string, entries: LogEntry[], length: number) {
+    this.origin = origin;
+    this.entries = entries;
+    this.length = length;
+  }
+
+  /**
+   * Start the log of a game about to be played on this board
+   */
+  static start(board: IGameBoard): GameLog {
+    return new GameLog(board.serialize(), [], 0);
+  }
+
+  /**
+   * Rebuild a log from its origin and moves, as kept in a saved session
+   */
+  static restore(origin: string, moves: Move[], questionMarks: boolean[] = []): GameLog {
+    const entries = moves.map((move, index) => ({ move, questionMarks: questionMarks[index] === true }));
+    return new GameLog(origin, entries, entries.length);
+  }
+
+  append(move: Move, questionMarks: boolean): void {
+    // Playing on from an earlier point leaves the moves other slices see untouched
+    if (this.length < this.entries.length) {
+      this.entries = this.entries.slice(0, this.length);
+    }
+    this.entries.push({ move, questionMarks });
+    this.length++;
+  }
+
+  getLength(): number {
+    return this.length;
+  }
+
+  getMoves(): Move[] {
+    return this.entries.slice(0, this.length).map(entry => entry.move);
+  }
+
+  getQuestionMarks(): boolean[] {
+    return this.entries.slice(0, this.length).map(entry => entry.questionMarks);
+  }
+
+  getOrigin(): string {
+    return this.origin;
+  }
+
+  /**
+   * The log up to the given number of moves. Appending to either log leaves the other as it is.
+   */
+  slice(length: number): GameLog {
+    return new GameLog(this.origin, this.entries, Math.max(0, Math.min(length, this.length)));
+  }
+
+  /**
+   * The board as it stood after the given number of moves, rebuilt from the origin.
+   * Throws if a move no longer applies, which means the log was not made on this board.
+   */
+  replay(length: number = this.length): IGameBoard {
+    const board: IGameBoard = JSON.parse(this.origin).kind === 'chunked'
+      ? ChunkedBoard.fromSerialized(this.origin)
+      : GameBoard.fromSerialized(this.origin);
+
+    this.entries.slice(0, Math.min(length, this.length)).forEach(({ move, questionMarks }, index) => {
+      if (!applyMove(board, move.cell.x, move.cell.y, move.action, questionMarks).changed) {
+        throw new Error(`Move ${index} (${move.action} at (${move.cell.x}, ${move.cell.y})) does not apply to the logged board`);
+      }
+    });
+    return board;
+  }
+}
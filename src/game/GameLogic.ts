@@ -1,21 +1,129 @@
-import { IGameLogic, IGameBoard } from '@/interfaces/GameEngine';
+import {
+  BoardEventListener,
+  BoardEventMap,
+  BoardEventName,
+  IBoardEventSource,
+  IGameLogic,
+  IGameBoard
+} from '@/interfaces/GameEngine';
 import { GameBoard } from './GameBoard';
-import { DifficultySettings, GameState, Move, HintSuggestion } from '@/types';
-
-export class GameLogic implements IGameLogic {
-  private moveHistory: Move[] = [];
-  private hintHistory: Array<{hint: HintSuggestion, timestamp: Date, gameState: number}> = [];
+import { GameLog, applyMove } from './GameLog';
+import {
+  Cell,
+  ClickCounts,
+  DifficultySettings,
+  EfficiencyStats,
+  GameState,
+  Move,
+  MoveAction,
+  HintSuggestion
+} from '@/types';
+import { CLASSIC_SCORING, ScoringRuleset, getScoringRuleset } from './ScoringRules';
+import { EventEmitter } from '@/utils/EventEmitter';
+import { generateSeed } from '@/utils/SeededRandom';
+
+const BOARD_EVENTS: BoardEventName[] = [
+  'cellRevealed',
+  'cellFlagged',
+  'gameStarted',
+  'gameWon',
+  'gameLost',
+  'minesRemainingChanged',
+  'boardExpanded'
+];
+
+export type HintRecord = { hint: HintSuggestion, timestamp: Date, gameState: number };
+
+/**
+ * Everything GameLogic tracks about a game besides the board itself
+ */
+export interface GameSession {
+  moves: Move[];
+  origin?: string; // Serialized board before the first move, which the moves replay from
+  questionMarks?: boolean[]; // Whether question marks were on for each move
+  hintHistory: HintRecord[];
+  startTime?: Date;
+  endTime?: Date;
+  score: number;
+  seed?: number;
+  clicks?: ClickCounts;
+  scoringRuleset?: string; // Id of the ruleset the score was calculated with
+}
+
+/**
+ * Game rules, move history and scoring. Events from the board in play are re-emitted here,
+ * so subscribers keep working when the board is replaced by a new game, undo or a resume.
+ * The moves are kept as a GameLog, so any point in the game can be rebuilt from its start.
+ */
+export class GameLogic implements IGameLogic, IBoardEventSource {
+  private log: GameLog | null = null;
+  private hintHistory: HintRecord[] = [];
   private gameStartTime?: Date;
   private gameEndTime?: Date;
   private score: number = 0;
+  private seed?: number;
+  private questionMarksEnabled: boolean = false;
+  private lastRevealedCells: Cell[] = [];
+  private clicks: ClickCounts = { left: 0, right: 0, chord: 0 };
+  private board: IGameBoard | null = null;
+  private scoringRuleset: ScoringRuleset = CLASSIC_SCORING;
+  private events: EventEmitter<BoardEventMap> = new EventEmitter();
+  private boardSubscriptions: Array<() => void> = [];
+  private pendingEvents: Array<() => void> | null = null; // Events held back until the move is recorded
 
   createBoard(settings: DifficultySettings): IGameBoard {
-    const board = new GameBoard(settings);
+    // Resolve the seed up front so the game can always be reproduced later
+    const seed = settings.seed ?? generateSeed();
+    return this.startGame(new GameBoard({ ...settings, seed }));
+  }
+
+  /**
+   * Start a new game on a board built elsewhere, such as an endless board
+   */
+  startGame<T extends IGameBoard>(board: T): T {
     this.resetGame();
+    this.seed = board.getSeed();
+    this.log = GameLog.start(board);
+    this.attachBoard(board);
     return board;
   }
 
-  makeMove(board: IGameBoard, x: number, y: number, action: 'reveal' | 'flag'): boolean {
+  /**
+   * Subscribe to events from whichever board is in play
+   */
+  on<K extends BoardEventName>(event: K, listener: BoardEventListener<K>): () => void {
+    return this.events.on(event, listener);
+  }
+
+  off<K extends BoardEventName>(event: K, listener: BoardEventListener<K>): void {
+    this.events.off(event, listener);
+  }
+
+  /**
+   * Forward events from this board instead of the previous one
+   */
+  attachBoard(board: IGameBoard): void {
+    this.board = board;
+    this.boardSubscriptions.forEach(unsubscribe => unsubscribe());
+    this.boardSubscriptions = BOARD_EVENTS.map(event => this.forwardEvent(board, event));
+  }
+
+  private forwardEvent<K extends BoardEventName>(board: IGameBoard, event: K): () => void {
+    return board.on(event, payload => {
+      if (this.pendingEvents) {
+        this.pendingEvents.push(() => this.events.emit(event, payload));
+      } else {
+        this.events.emit(event, payload);
+      }
+    });
+  }
+
+  makeMove(board: IGameBoard, x: number, y: number, action: MoveAction): boolean {
+    // Every click during the game counts towards efficiency, even one that changes nothing
+    if (this.isGameActive(board)) {
+      this.countClick(action);
+    }
+
     // Validate the move first
     if (!this.validateMove(board, x, y, action)) {
       return false;
@@ -26,38 +134,46 @@ export class GameLogic implements IGameLogic {
       this.gameStartTime = new Date();
     }
 
-    // Create move record before executing
+    // Boards played without startGame() start their log with the first move
+    this.log ??= GameLog.start(board);
+    const log = this.log;
+
     const moveRecord: Move = {
       cell: { x, y },
       action,
       timestamp: new Date(),
-      boardState: board.serialize(),
       wasOptimal: false, // Will be determined by AI analysis later
       alternativeOptions: [] // Will be populated by AI analysis later
     };
 
     let moveSuccessful = false;
-
-    // Execute the move
-    if (action === 'reveal') {
-      moveSuccessful = board.revealCell(x, y);
-    } else if (action === 'flag') {
-      moveSuccessful = board.flagCell(x, y);
-    }
-
-    // Only record successful moves that are direct user actions
-    // (not auto-revealed cells from the GameBoard's internal logic)
-    if (moveSuccessful) {
-      this.addMove(moveRecord);
-      
-      // Update score and timing based on game state
-      this.updateGameMetrics(board);
+    this.lastRevealedCells = [];
+    const pendingEvents: Array<() => void> = [];
+    this.pendingEvents = pendingEvents;
+
+    try {
+      const outcome = applyMove(board, x, y, action, this.questionMarksEnabled);
+      this.lastRevealedCells = outcome.revealed;
+      moveSuccessful = outcome.changed;
+
+      // Only record successful moves that are direct user actions
+      // (not auto-revealed cells from the GameBoard's internal logic)
+      if (moveSuccessful) {
+        log.append(moveRecord, this.questionMarksEnabled);
+        
+        // Update score and timing based on game state
+        this.updateGameMetrics(board);
+      }
+    } finally {
+      // Subscribers see the move history and score including this move
+      this.pendingEvents = null;
+      pendingEvents.forEach(emit => emit());
     }
 
     return moveSuccessful;
   }
 
-  validateMove(board: IGameBoard, x: number, y: number, action: 'reveal' | 'flag'): boolean {
+  validateMove(board: IGameBoard, x: number, y: number, action: MoveAction): boolean {
     // Check if position is valid
     if (!board.isValidPosition(x, y)) {
       return false;
@@ -69,8 +185,9 @@ export class GameLogic implements IGameLogic {
       return false;
     }
 
+    // Holes in a shaped board cannot be played
     const cell = board.getCell(x, y);
-    if (!cell) {
+    if (!cell || cell.isMasked) {
       return false;
     }
 
@@ -86,9 +203,40 @@ export class GameLogic implements IGameLogic {
       return !cell.isRevealed;
     }
 
+    // Validate chord action
+    if (action === 'chord') {
+      // Only a revealed number whose flags match its count can be chorded,
+      // and there must be something left to reveal around it
+      if (!cell.isRevealed || cell.adjacentMines === 0) {
+        return false;
+      }
+      const adjacentCells = board.getAdjacentCells(x, y);
+      const flaggedCount = adjacentCells.filter(adjacent => adjacent.isFlagged).length;
+      return flaggedCount === cell.adjacentMines &&
+             adjacentCells.some(adjacent => !adjacent.isRevealed && !adjacent.isFlagged);
+    }
+
     return false;
   }
 
+  private countClick(action: MoveAction): void {
+    if (action === 'reveal') {
+      this.clicks.left++;
+    } else if (action === 'flag') {
+      this.clicks.right++;
+    } else {
+      this.clicks.chord++;
+    }
+  }
+
+  setQuestionMarksEnabled(enabled: boolean): void {
+    this.questionMarksEnabled = enabled;
+  }
+
+  areQuestionMarksEnabled(): boolean {
+    return this.questionMarksEnabled;
+  }
+
   checkWinCondition(board: IGameBoard): boolean {
     const cells = board.getCells();
     const width = board.getWidth();
@@ -98,7 +246,7 @@ export class GameLogic implements IGameLogic {
     for (let y = 0; y < height; y++) {
       for (let x = 0; x < width; x++) {
         const cell = cells[y][x];
-        if (!cell.isMine && !cell.isRevealed) {
+        if (!cell.isMine && !cell.isRevealed && !cell.isMasked) {
           return false;
         }
       }
@@ -152,16 +300,119 @@ export class GameLogic implements IGameLogic {
     return this.score;
   }
 
+  /**
+   * Choose how games are scored. Takes effect from the next move.
+   */
+  setScoringRuleset(id: string): void {
+    const ruleset = getScoringRuleset(id);
+    if (!ruleset) {
+      throw new Error(`Unknown scoring ruleset '${id}'`);
+    }
+    this.scoringRuleset = ruleset;
+  }
+
+  getScoringRuleset(): ScoringRuleset {
+    return this.scoringRuleset;
+  }
+
   getMoveCount(): number {
-    return this.moveHistory.length;
+    return this.log?.getLength() ?? 0;
+  }
+
+  getSeed(): number | undefined {
+    return this.seed;
+  }
+
+  /**
+   * Cells uncovered by the last reveal, including any flood-filled opening
+   */
+  getLastRevealedCells(): Cell[] {
+    return [...this.lastRevealedCells];
+  }
+
+  getClickCounts(): ClickCounts {
+    return { ...this.clicks };
+  }
+
+  /**
+   * 3BV-based efficiency of the game on the board in play
+   */
+  getEfficiencyStats(): EfficiencyStats {
+    const threeBV = this.board?.get3BV() ?? 0;
+    const solved3BV = this.board?.getSolved3BV() ?? 0;
+    const totalClicks = this.clicks.left + this.clicks.right + this.clicks.chord;
+    const usefulClicks = this.getMoveCount();
+    const seconds = this.gameStartTime
+      ? ((this.gameEndTime ?? new Date()).getTime() - this.gameStartTime.getTime()) / 1000
+      : 0;
+
+    return {
+      threeBV,
+      solved3BV,
+      threeBVPerSecond: seconds > 0 ? solved3BV / seconds : 0,
+      ioe: totalClicks > 0 ? solved3BV / totalClicks : 0,
+      throughput: usefulClicks > 0 ? solved3BV / usefulClicks : 0,
+      completion: threeBV > 0 ? (solved3BV / threeBV) * 100 : 0,
+      clicks: this.getClickCounts()
+    };
   }
 
   getGameHistory(): Move[] {
-    return [...this.moveHistory];
+    return this.log?.getMoves() ?? [];
+  }
+
+  /**
+   * The log of the current game, or null before a game has started
+   */
+  getGameLog(): GameLog | null {
+    return this.log;
   }
 
-  private addMove(move: Move): void {
-    this.moveHistory.push(move);
+  /**
+   * Rewind to an earlier point of the game (used by undo/redo). The board is rebuilt from the
+   * log unless one matching it is given.
+   */
+  restoreHistory(log: GameLog, board: IGameBoard = log.replay()): void {
+    this.attachBoard(board);
+    this.log = log.slice(log.getLength());
+    this.gameEndTime = undefined;
+    this.score = 0;
+    this.updateGameMetrics(board);
+  }
+
+  /**
+   * Capture the current game so it can be resumed later
+   */
+  getSession(): GameSession {
+    return {
+      moves: this.getGameHistory(),
+      origin: this.log?.getOrigin(),
+      questionMarks: this.log?.getQuestionMarks(),
+      hintHistory: [...this.hintHistory],
+      startTime: this.gameStartTime,
+      endTime: this.gameEndTime,
+      score: this.score,
+      seed: this.seed,
+      clicks: { ...this.clicks },
+      scoringRuleset: this.scoringRuleset.id
+    };
+  }
+
+  /**
+   * Continue a game captured by getSession()
+   */
+  restoreSession(session: GameSession): void {
+    this.log = session.origin !== undefined
+      ? GameLog.restore(session.origin, session.moves, session.questionMarks)
+      : null;
+    this.hintHistory = [...session.hintHistory];
+    this.gameStartTime = session.startTime;
+    this.gameEndTime = session.endTime;
+    this.score = session.score;
+    this.seed = session.seed;
+    this.clicks = { left: 0, right: 0, chord: 0, ...session.clicks };
+    // Keep scoring the game the way it started; sessions from unknown rulesets keep the current one
+    this.scoringRuleset = getScoringRuleset(session.scoringRuleset ?? CLASSIC_SCORING.id) ?? this.scoringRuleset;
   }
 
   private updateGameMetrics(board: IGameBoard): void {
@@ -172,28 +423,26 @@ export class GameLogic implements IGameLogic {
       this.gameEndTime = new Date();
     }
 
-    // Calculate score based on game completion and efficiency
-    if (gameState === GameState.WON) {
-      const duration = this.getGameDuration();
-      const moveCount = this.getMoveCount();
-      const boardSize = board.getWidth() * board.getHeight();
-      const mineCount = board.getMineCount();
-      
-      // Base score calculation: higher score for faster completion with fewer moves
-      // Formula: (boardSize * mineCount * 1000) / (duration * moveCount)
-      this.score = Math.floor((boardSize * mineCount * 1000) / Math.max(duration * moveCount, 1));
-    } else if (gameState === GameState.LOST) {
-      // Penalty for losing
-      this.score = Math.max(0, this.score - 100);
-    }
+    this.score = this.scoringRuleset.score({
+      gameState,
+      duration: this.getGameDuration(),
+      moveCount: this.getMoveCount(),
+      width: board.getWidth(),
+      height: board.getHeight(),
+      mineCount: board.getMineCount(),
+      hintsUsed: this.getHintsUsedCount(),
+      efficiency: this.getEfficiencyStats(),
+      previousScore: this.score
+    });
   }
 
   private resetGame(): void {
-    this.moveHistory = [];
+    this.log = null;
     this.hintHistory = [];
     this.gameStartTime = undefined;
     this.gameEndTime = undefined;
     this.score = 0;
+    this.clicks = { left: 0, right: 0, chord: 0 };
   }
 
   // Hint tracking methods
@@ -201,12 +450,12 @@ export class GameLogic implements IGameLogic {
     const hintRecord = {
       hint,
       timestamp: new Date(),
-      gameState: this.moveHistory.length // Track at which move the hint was requested
+      gameState: this.getMoveCount() // Track at which move the hint was requested
     };
     this.hintHistory.push(hintRecord);
   }
 
-  getHintHistory(): Array<{hint: HintSuggestion, timestamp: Date, gameState: number}> {
+  getHintHistory(): HintRecord[] {
     return [...this.hintHistory];
   }
 
@@ -229,9 +478,12 @@ export class GameLogic implements IGameLogic {
     return {
       duration: this.getGameDuration(),
       score: this.getScore(),
+      scoringRuleset: this.scoringRuleset.id,
       moveCount: this.getMoveCount(),
+      seed: this.seed,
       startTime: this.gameStartTime,
-      endTime: this.gameEndTime
+      endTime: this.gameEndTime,
+      efficiency: this.getEfficiencyStats()
     };
   }
 }
\ No newline at end of file
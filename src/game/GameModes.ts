@@ -0,0 +1,255 @@
+/**
+ * Game modes played over a series of boards. A run creates boards through GameLogic
+ * and follows its won/lost events, so the single-game rules stay unchanged.
+ */
+
+import { IGameBoard } from '@/interfaces/GameEngine';
+import { DifficultySettings, FirstClickPolicy, GameMode, GameModeResult } from '@/types';
+import { EventEmitter } from '@/utils/EventEmitter';
+import { GameLogic } from './GameLogic';
+
+export type GameModeConfig =
+  | { mode: GameMode.TIME_ATTACK; difficulty: DifficultySettings; timeLimit: number } // seconds for the whole run
+  | { mode: GameMode.SURVIVAL; difficulty: DifficultySettings; densityStep?: number; maxDensity?: number }
+  | { mode: GameMode.COUNTDOWN; difficulty: DifficultySettings; boardTimeLimit: number }; // seconds per board
+
+export interface GameModeEventMap {
+  boardStarted: { board: IGameBoard; boardNumber: number };
+  boardFinished: { board: IGameBoard; won: boolean }; // Call nextBoard() to continue unless the run finished
+  runFinished: { result: GameModeResult };
+}
+
+const DEFAULT_DENSITY_STEP = 0.02;
+const DEFAULT_MAX_DENSITY = 0.3;
+
+export class GameModeRun {
+  private gameLogic: GameLogic;
+  private config: GameModeConfig;
+  private now: () => number;
+  private events: EventEmitter<GameModeEventMap> = new EventEmitter();
+  private subscriptions: Array<() => void> = [];
+  private board: IGameBoard | null = null;
+  private boardInPlay: boolean = false;
+  private runStartedAt: number = 0;
+  private runEndedAt: number | null = null;
+  private boardStartedAt: number = 0;
+  private boardNumber: number = 0;
+  private boardsCleared: number = 0;
+  private boardsLost: number = 0;
+  private fastestBoard: number | null = null;
+  private density: number;
+  private result: GameModeResult | null = null;
+
+  constructor(gameLogic: GameLogic, config: GameModeConfig, now: () => number = () => Date.now()) {
+    const { width, height, mineCount } = config.difficulty;
+    if (config.mode === GameMode.TIME_ATTACK && !(config.timeLimit > 0)) {
+      throw new Error(`Invalid time limit: ${config.timeLimit}`);
+    }
+    if (config.mode === GameMode.COUNTDOWN && !(config.boardTimeLimit > 0)) {
+      throw new Error(`Invalid board time limit: ${config.boardTimeLimit}`);
+    }
+
+    this.gameLogic = gameLogic;
+    this.config = config;
+    this.now = now;
+    this.density = mineCount / (width * height);
+  }
+
+  on<K extends keyof GameModeEventMap>(event: K, listener: (event: GameModeEventMap[K]) => void): () => void {
+    return this.events.on(event, listener);
+  }
+
+  getMode(): GameMode {
+    return this.config.mode;
+  }
+
+  /**
+   * Start the clock and create the first board
+   */
+  start(): IGameBoard {
+    if (this.board) {
+      throw new Error('Game mode run has already started');
+    }
+
+    this.runStartedAt = this.now();
+    this.subscriptions = [
+      this.gameLogic.on('gameWon', ({ board }) => this.finishBoard(board, true)),
+      this.gameLogic.on('gameLost', ({ board }) => this.finishBoard(board, false))
+    ];
+    return this.createBoard();
+  }
+
+  /**
+   * Create the next board after one has finished. Returns null once the run is over.
+   */
+  nextBoard(): IGameBoard | null {
+    if (this.result || this.boardInPlay || !this.board) {
+      return null;
+    }
+    return this.createBoard();
+  }
+
+  /**
+   * Check the clocks. Call regularly while the run is in progress.
+   */
+  update(): void {
+    if (this.result || !this.board) {
+      return;
+    }
+
+    if (this.config.mode === GameMode.TIME_ATTACK && this.getElapsedTime() >= this.config.timeLimit) {
+      this.finishRun();
+    } else if (this.config.mode === GameMode.COUNTDOWN && this.boardInPlay &&
+               this.secondsSince(this.boardStartedAt) >= this.config.boardTimeLimit) {
+      // Running out of time counts as losing the board
+      this.boardsLost++;
+      this.finishRun({ board: this.board, won: false });
+    }
+  }
+
+  /**
+   * Seconds left on the run clock (time attack) or board clock (countdown); null for survival
+   */
+  getTimeRemaining(): number | null {
+    if (this.config.mode === GameMode.TIME_ATTACK) {
+      return Math.max(0, this.config.timeLimit - this.getElapsedTime());
+    }
+    if (this.config.mode === GameMode.COUNTDOWN) {
+      const elapsed = this.boardInPlay ? this.secondsSince(this.boardStartedAt) : 0;
+      return Math.max(0, this.config.boardTimeLimit - elapsed);
+    }
+    return null;
+  }
+
+  getElapsedTime(): number {
+    if (!this.board) {
+      return 0;
+    }
+    return Math.floor(((this.runEndedAt ?? this.now()) - this.runStartedAt) / 1000);
+  }
+
+  getBoardsCleared(): number {
+    return this.boardsCleared;
+  }
+
+  /**
+   * Mine density the next survival board is built with
+   */
+  getDensity(): number {
+    return this.density;
+  }
+
+  isFinished(): boolean {
+    return this.result !== null;
+  }
+
+  getResult(): GameModeResult | null {
+    return this.result;
+  }
+
+  /**
+   * Abandon the run without a result
+   */
+  stop(): void {
+    this.unsubscribe();
+    this.boardInPlay = false;
+  }
+
+  private createBoard(): IGameBoard {
+    const { width, height } = this.config.difficulty;
+    // Leave room for a safe opening however dense survival gets; boards under 9 cells get none
+    const mineCount = Math.max(0, Math.min(Math.round(width * height * this.density), width * height - 9));
+
+    // A fresh seed every board, even when the base difficulty carries one
+    this.board = this.gameLogic.createBoard({
+      firstClickPolicy: FirstClickPolicy.SAFE,
+      ...this.config.difficulty,
+      mineCount,
+      seed: undefined
+    });
+    this.boardInPlay = true;
+    this.boardStartedAt = this.now();
+    this.boardNumber++;
+    this.events.emit('boardStarted', { board: this.board, boardNumber: this.boardNumber });
+    return this.board;
+  }
+
+  private finishBoard(board: IGameBoard, won: boolean): void {
+    if (board !== this.board || !this.boardInPlay || this.result) {
+      return;
+    }
+
+    this.boardInPlay = false;
+    if (won) {
+      this.boardsCleared++;
+      const boardTime = this.secondsSince(this.boardStartedAt);
+      this.fastestBoard = this.fastestBoard === null ? boardTime : Math.min(this.fastestBoard, boardTime);
+    } else {
+      this.boardsLost++;
+    }
+
+    if (!won && this.config.mode !== GameMode.TIME_ATTACK) {
+      this.finishRun({ board, won });
+      return;
+    }
+    if (this.config.mode === GameMode.SURVIVAL) {
+      const step = this.config.densityStep ?? DEFAULT_DENSITY_STEP;
+      this.density = Math.min(this.config.maxDensity ?? DEFAULT_MAX_DENSITY, this.density + step);
+    }
+    this.events.emit('boardFinished', { board, won });
+  }
+
+  /**
+   * Settle the result before telling listeners, so boardFinished already sees the run as over
+   */
+  private finishRun(finishedBoard?: GameModeEventMap['boardFinished']): void {
+    this.unsubscribe();
+    this.boardInPlay = false;
+    this.runEndedAt = this.now();
+    const timestamp = new Date(this.runEndedAt);
+
+    switch (this.config.mode) {
+      case GameMode.TIME_ATTACK:
+        this.result = {
+          mode: GameMode.TIME_ATTACK,
+          boardsCleared: this.boardsCleared,
+          boardsLost: this.boardsLost,
+          timeLimit: this.config.timeLimit,
+          timestamp
+        };
+        break;
+      case GameMode.SURVIVAL:
+        this.result = {
+          mode: GameMode.SURVIVAL,
+          boardsCleared: this.boardsCleared,
+          finalDensity: this.density,
+          duration: this.getElapsedTime(),
+          timestamp
+        };
+        break;
+      case GameMode.COUNTDOWN:
+        this.result = {
+          mode: GameMode.COUNTDOWN,
+          boardsCleared: this.boardsCleared,
+          boardTimeLimit: this.config.boardTimeLimit,
+          fastestBoard: this.fastestBoard,
+          timestamp
+        };
+        break;
+    }
+
+    if (finishedBoard) {
+      this.events.emit('boardFinished', finishedBoard);
+    }
+    this.events.emit('runFinished', { result: this.result });
+  }
+
+  private unsubscribe(): void {
+    this.subscriptions.forEach(unsubscribe => unsubscribe());
+    this.subscriptions = [];
+  }
+
+  private secondsSince(time: number): number {
+    return Math.floor((this.now() - time) / 1000);
+  }
+}
@@ -0,0 +1,132 @@
+import { IGameBoard } from '@/interfaces/GameEngine';
+import { GameBoard } from './GameBoard';
+import { GameLogic, GameSession } from './GameLogic';
+import { GameState, Move } from '@/types';
+import { ErrorType, safeSync } from '@/utils/ErrorHandler';
+
+/**
+ * A game restored from storage, ready to continue
+ */
+export interface SavedGame {
+  gameId: string;
+  board: GameBoard;
+  session: GameSession;
+  elapsedTime: number; // Milliseconds played before the save; time away is not counted
+  assisted: boolean; // Whether undo or a checkpoint was used before the save
+}
+
+/**
+ * Autosaves the game in progress to localStorage so a reload can resume it
+ */
+export class GameStorage {
+  private static readonly STORAGE_KEY = 'ai_minesweeper_saved_game';
+  private static readonly VERSION = 2; // Version 1 kept a board snapshot in every move
+
+  /**
+   * Save the board, move history, hint history and timer of the current game, and whether it
+   * was assisted
+   */
+  static saveGame(board: IGameBoard, gameLogic: GameLogic, gameId: string, elapsedTime: number, assisted: boolean = false): void {
+    safeSync(
+      () => {
+        const data = {
+          version: this.VERSION,
+          gameId,
+          board: board.serialize(),
+          session: gameLogic.getSession(),
+          elapsedTime,
+          assisted,
+          savedAt: new Date()
+        };
+
+        localStorage.setItem(this.STORAGE_KEY, JSON.stringify(data));
+      },
+      ErrorType.DATA_PERSISTENCE,
+      undefined,
+      'GameStorage.saveGame'
+    );
+  }
+
+  /**
+   * Load the saved game, or null if there is none to resume.
+   * Corrupted or finished saves are discarded.
+   */
+  static loadGame(): SavedGame | null {
+    return safeSync(
+      () => {
+        const jsonData = localStorage.getItem(this.STORAGE_KEY);
+        if (!jsonData) {
+          return null;
+        }
+
+        try {
+          const data = JSON.parse(jsonData);
+          if (data.version !== this.VERSION || typeof data.gameId !== 'string') {
+            throw new Error(`Unsupported saved game version: ${data.version}`);
+          }
+
+          const board = GameBoard.fromSerialized(data.board);
+          const state = board.getGameState();
+          if (state === GameState.WON || state === GameState.LOST) {
+            this.clearSavedGame();
+            return null;
+          }
+
+          return {
+            gameId: data.gameId,
+            board,
+            session: this.reviveSession(data.session, Date.now() - new Date(data.savedAt).getTime()),
+            elapsedTime: data.elapsedTime,
+            assisted: data.assisted === true
+          };
+        } catch (parseError) {
+          console.error('Corrupted saved game detected, removing');
+          this.clearSavedGame();
+          throw parseError;
+        }
+      },
+      ErrorType.DATA_PERSISTENCE,
+      null,
+      'GameStorage.loadGame'
+    ) ?? null;
+  }
+
+  static hasSavedGame(): boolean {
+    try {
+      return localStorage.getItem(this.STORAGE_KEY) !== null;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  static clearSavedGame(): void {
+    try {
+      localStorage.removeItem(this.STORAGE_KEY);
+    } catch (error) {
+      console.error('Failed to clear saved game:', error);
+    }
+  }
+
+  /**
+   * Restore dates from JSON and shift the start time so time away is not counted
+   */
+  private static reviveSession(session: any, timeAway: number): GameSession {
+    if (!session || !Array.isArray(session.moves) || !Array.isArray(session.hintHistory) ||
+        typeof session.origin !== 'string') {
+      throw new Error('Saved game session is incomplete');
+    }
+
+    return {
+      moves: session.moves.map((move: Move) => ({ ...move, timestamp: new Date(move.timestamp) })),
+      origin: session.origin,
+      questionMarks: Array.isArray(session.questionMarks) ? session.questionMarks : [],
+      hintHistory: session.hintHistory.map((record: any) => ({ ...record, timestamp: new Date(record.timestamp) })),
+      startTime: session.startTime ? new Date(new Date(session.startTime).getTime() + timeAway) : undefined,
+      endTime: session.endTime ? new Date(session.endTime) : undefined,
+      score: session.score ?? 0,
+      seed: session.seed,
+      clicks: session.clicks,
+      scoringRuleset: session.scoringRuleset
+    };
+  }
+}
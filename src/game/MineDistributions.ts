@@ -0,0 +1,149 @@
+/**
+ * Mine distribution strategies. GameBoard asks the board's strategy where its mines go, so new
+ * layouts can be registered without touching the board itself.
+ */
+
+import { RandomNumberGenerator, randomInt } from '@/utils/SeededRandom';
+
+/**
+ * Everything a strategy may base a layout on
+ */
+export interface MineDistributionContext {
+  width: number;
+  height: number;
+  mineCount: number;
+  seed: number;
+  random: RandomNumberGenerator; // Seeded from the board's seed; draw only from it so layouts are reproducible
+  canHoldMine(index: number): boolean; // False for holes and the protected first click
+}
+
+export interface MineDistribution {
+  id: string;
+  name: string;
+  description: string;
+  /**
+   * Indices (y * width + x) of exactly mineCount distinct cells that can hold a mine
+   */
+  place(context: MineDistributionContext): number[];
+}
+
+/**
+ * Draw cells uniformly and keep each with the probability the weight gives (0 to 1].
+ * Weights may look at the mines placed so far.
+ */
+function placeWeighted(
+  context: MineDistributionContext,
+  weight: (x: number, y: number, placed: Set<number>) => number
+): number[] {
+  const { width, height, mineCount, random } = context;
+  const placed = new Set<number>();
+  while (placed.size < mineCount) {
+    const x = randomInt(random, width);
+    const y = randomInt(random, height);
+    const index = y * width + x;
+    if (!placed.has(index) && context.canHoldMine(index) && random.next() < weight(x, y, placed)) {
+      placed.add(index);
+    }
+  }
+  return [...placed];
+}
+
+/**
+ * The original placement, kept draw for draw so existing seeds give the same boards
+ */
+export const UNIFORM_DISTRIBUTION: MineDistribution = {
+  id: 'uniform',
+  name: 'Uniform',
+  description: 'Every cell is equally likely to hold a mine',
+  place(context) {
+    const { width, height, mineCount, random } = context;
+    const placed = new Set<number>();
+    while (placed.size < mineCount) {
+      const x = randomInt(random, width);
+      const y = randomInt(random, height);
+      const index = y * width + x;
+      if (!placed.has(index) && context.canHoldMine(index)) {
+        placed.add(index);
+      }
+    }
+    return [...placed];
+  }
+};
+
+export const CLUSTERED_DISTRIBUTION: MineDistribution = {
+  id: 'clustered',
+  name: 'Clustered',
+  description: 'Mines gather in clumps, leaving wide open areas between them',
+  place(context) {
+    const { width, height } = context;
+    // A few lone mines seed the clusters; cells touching a mine are eight times as likely
+    return placeWeighted(context, (x, y, placed) => {
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx;
+          const ny = y + dy;
+          if (nx >= 0 && nx < width && ny >= 0 && ny < height && placed.has(ny * width + nx)) {
+            return 1;
+          }
+        }
+      }
+      return 0.125;
+    });
+  }
+};
+
+export const SPARSE_EDGE_DISTRIBUTION: MineDistribution = {
+  id: 'sparse-edge',
+  name: 'Sparse Edges',
+  description: 'Few mines along the border, so corners rarely force a guess',
+  place(context) {
+    const { width, height } = context;
+    return placeWeighted(context, (x, y) => {
+      const edgeDistance = Math.min(x, y, width - 1 - x, height - 1 - y);
+      return edgeDistance === 0 ? 0.2 : edgeDistance === 1 ? 0.5 : 1;
+    });
+  }
+};
+
+export const DENSITY_GRADIENT_DISTRIBUTION: MineDistribution = {
+  id: 'density-gradient',
+  name: 'Density Gradient',
+  description: 'Mines thin out towards the left edge and crowd towards the right',
+  place(context) {
+    const { width } = context;
+    return placeWeighted(context, x => 0.1 + 0.9 * x / Math.max(1, width - 1));
+  }
+};
+
+export const DEFAULT_MINE_DISTRIBUTION = UNIFORM_DISTRIBUTION.id;
+
+/**
+ * Built-in distributions from the easiest boards to the hardest. Bunched-up mines leave bigger
+ * openings and fewer guesses, so uniform placement is the hardest.
+ */
+export const MINE_DISTRIBUTION_LADDER: string[] = [
+  CLUSTERED_DISTRIBUTION.id,
+  DENSITY_GRADIENT_DISTRIBUTION.id,
+  SPARSE_EDGE_DISTRIBUTION.id,
+  UNIFORM_DISTRIBUTION.id
+];
+
+const distributions = new Map<string, MineDistribution>(
+  [UNIFORM_DISTRIBUTION, CLUSTERED_DISTRIBUTION, SPARSE_EDGE_DISTRIBUTION, DENSITY_GRADIENT_DISTRIBUTION]
+    .map(distribution => [distribution.id, distribution])
+);
+
+/**
+ * Make a distribution available by id. Registering an existing id replaces it.
+ */
+export function registerMineDistribution(distribution: MineDistribution): void {
+  distributions.set(distribution.id, distribution);
+}
+
+export function getMineDistribution(id: string): MineDistribution | undefined {
+  return distributions.get(id);
+}
+
+export function getMineDistributions(): MineDistribution[] {
+  return [...distributions.values()];
+}
@@ -0,0 +1,91 @@
+/**
+ * Neighbourhood rules. A rule decides which cells a number counts (and so which cells an
+ * opening spreads to); the topology decides where those cells are on the grid.
+ */
+
+import { GridTopology, NeighbourhoodRule } from '@/types';
+import { NeighbourFunction } from './BoardCore';
+import { Topology, getTopology } from './Topology';
+
+export interface Neighbourhood {
+  readonly rule: NeighbourhoodRule;
+  readonly label: string;
+  /**
+   * Neighbour function for this rule on a grid. Throws if the rule makes no sense there.
+   */
+  neighboursOn(topology: Topology): NeighbourFunction;
+}
+
+/**
+ * A rule given as (dx, dy) offsets, walked with the topology's step so tori still wrap.
+ * Offset lists are symmetric, so a cell always counts the cells that count it.
+ */
+function offsetNeighbourhood(rule: NeighbourhoodRule, label: string, offsets: Array<[number, number]>): Neighbourhood {
+  return {
+    rule,
+    label,
+    neighboursOn(topology) {
+      if (topology.type === GridTopology.HEX) {
+        throw new Error(`Neighbourhood rule ${rule} needs a square grid`);
+      }
+      return (width, height, index, callback) => {
+        const x = index % width;
+        const y = (index - x) / width;
+        // On small tori two offsets can land on the same cell, or back on this one
+        const seen = new Set<number>([index]);
+
+        for (const [dx, dy] of offsets) {
+          const cell = topology.step(width, height, x, y, dx, dy);
+          if (cell && !seen.has(cell.y * width + cell.x)) {
+            seen.add(cell.y * width + cell.x);
+            callback(cell.y * width + cell.x);
+          }
+        }
+      };
+    }
+  };
+}
+
+const ringOffsets = (radius: number) => {
+  const offsets: Array<[number, number]> = [];
+  for (let dy = -radius; dy <= radius; dy++) {
+    for (let dx = -radius; dx <= radius; dx++) {
+      if (dx !== 0 || dy !== 0) offsets.push([dx, dy]);
+    }
+  }
+  return offsets;
+};
+
+export const STANDARD_NEIGHBOURHOOD: Neighbourhood = {
+  rule: NeighbourhoodRule.STANDARD,
+  label: 'Standard',
+  neighboursOn: topology => topology.forEachNeighbour
+};
+
+export const ORTHOGONAL_NEIGHBOURHOOD = offsetNeighbourhood(NeighbourhoodRule.ORTHOGONAL, 'Orthogonal', [
+  [0, -1], [-1, 0], [1, 0], [0, 1]
+]);
+
+export const KNIGHT_NEIGHBOURHOOD = offsetNeighbourhood(NeighbourhoodRule.KNIGHT, 'Knight move', [
+  [-1, -2], [1, -2], [-2, -1], [2, -1], [-2, 1], [2, 1], [-1, 2], [1, 2]
+]);
+
+export const RADIUS_2_NEIGHBOURHOOD = offsetNeighbourhood(NeighbourhoodRule.RADIUS_2, 'Radius 2', ringOffsets(2));
+
+const NEIGHBOURHOODS: Record<NeighbourhoodRule, Neighbourhood> = {
+  [NeighbourhoodRule.STANDARD]: STANDARD_NEIGHBOURHOOD,
+  [NeighbourhoodRule.ORTHOGONAL]: ORTHOGONAL_NEIGHBOURHOOD,
+  [NeighbourhoodRule.KNIGHT]: KNIGHT_NEIGHBOURHOOD,
+  [NeighbourhoodRule.RADIUS_2]: RADIUS_2_NEIGHBOURHOOD
+};
+
+export function getNeighbourhood(rule: NeighbourhoodRule = NeighbourhoodRule.STANDARD): Neighbourhood {
+  return NEIGHBOURHOODS[rule];
+}
+
+/**
+ * Neighbour function for a grid and rule given by name, as stored in boards and snapshots
+ */
+export function getNeighbourFunction(topology?: GridTopology, rule?: NeighbourhoodRule): NeighbourFunction {
+  return getNeighbourhood(rule).neighboursOn(getTopology(topology));
+}
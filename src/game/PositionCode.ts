@@ -0,0 +1,211 @@
+/**
+ * Position codes: a board position packed into a short URL-safe string, so a link can show
+ * someone the exact board. The code holds the dimensions and grid rules, the mines as a seed when
+ * the seed rebuilds them or as part of the cells otherwise, and which cells are revealed, flagged
+ * or cut out of the board.
+ */
+
+import { DifficultyLevel, DifficultySettings, FirstClickPolicy, GridTopology, NeighbourhoodRule } from '@/types';
+import { GameBoard } from './GameBoard';
+import { MASK_CELL, MASK_HOLE } from './BoardShapes';
+import { DEFAULT_MINE_DISTRIBUTION } from './MineDistributions';
+
+export const POSITION_CODE_VERSION = 1;
+export const MAX_POSITION_SIZE = 200; // Largest width or height a code may open
+
+const ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_';
+const TOPOLOGIES = Object.values(GridTopology);
+const NEIGHBOURHOODS = Object.values(NeighbourhoodRule);
+const FIRST_CLICK_POLICIES = Object.values(FirstClickPolicy);
+
+// Where the mines come from
+const LAYOUT = 0;   // Listed with the cells
+const SEEDED = 1;   // Placed from the seed up front
+const DEFERRED = 2; // Still waiting for the first click, then placed from the seed
+
+// Cell states, written as runs of equal cells. The mine bit is only used in LAYOUT codes.
+const HIDDEN = 0;
+const REVEALED = 1;
+const FLAGGED = 2;
+const HOLE = 3;
+const COVER = 3; // Bits holding one of the four above
+const MINE = 4;
+
+/**
+ * Pack the board's position into a code for decodePosition()
+ */
+export function encodePosition(board: GameBoard): string {
+  const mode = !board.hasPlacedMines() ? DEFERRED : isSeededLayout(board) ? SEEDED : LAYOUT;
+  const bytes: number[] = [POSITION_CODE_VERSION, mode];
+  writeVarint(bytes, board.getWidth());
+  writeVarint(bytes, board.getHeight());
+  bytes.push(TOPOLOGIES.indexOf(board.getTopology()), NEIGHBOURHOODS.indexOf(board.getNeighbourhood()));
+  if (mode !== LAYOUT) {
+    writeVarint(bytes, board.getMineCount());
+    writeVarint(bytes, board.getSeed());
+    // The usual strategy is left out to keep codes short
+    const distribution = board.getMineDistribution() === DEFAULT_MINE_DISTRIBUTION ? '' : board.getMineDistribution();
+    writeVarint(bytes, distribution.length);
+    bytes.push(...distribution.split('').map(char => char.charCodeAt(0) & 0x7f));
+  }
+  if (mode === DEFERRED) {
+    bytes.push(FIRST_CLICK_POLICIES.indexOf(board.getFirstClickPolicy()));
+  }
+
+  const states = board.getCells().flat().map(cell => {
+    if (cell.isMasked) return HOLE;
+    const state = cell.isRevealed ? REVEALED : cell.isFlagged ? FLAGGED : HIDDEN;
+    return mode === LAYOUT && cell.isMine ? state | MINE : state;
+  });
+  for (let start = 0; start < states.length;) {
+    let end = start + 1;
+    while (end < states.length && states[end] === states[start]) end++;
+    writeVarint(bytes, (end - start - 1) * 8 + states[start]);
+    start = end;
+  }
+
+  return bytes.map(byte => byte.toString(2).padStart(8, '0')).join('')
+    .match(/.{1,6}/g)!
+    .map(bits => ALPHABET[parseInt(bits.padEnd(6, '0'), 2)])
+    .join('');
+}
+
+/**
+ * Open a code from encodePosition(). Lost and won positions come back finished; a position still
+ * in play comes back ready, so the clock starts with the next move. Throws if the code is
+ * malformed or from a newer version.
+ */
+export function decodePosition(code: string): GameBoard {
+  const invalid = () => new Error(`Invalid position code: ${code}`);
+  const bits = code.split('').map(symbol => {
+    const value = ALPHABET.indexOf(symbol);
+    if (value < 0) throw invalid();
+    return value.toString(2).padStart(6, '0');
+  }).join('');
+  const bytes = (bits.match(/.{8}/g) ?? []).map(byte => parseInt(byte, 2));
+
+  let offset = 0;
+  const next = () => {
+    if (offset >= bytes.length) throw invalid();
+    return bytes[offset++];
+  };
+  const readVarint = () => {
+    let value = 0;
+    for (let shift = 0; shift < 35; shift += 7) {
+      const byte = next();
+      value += (byte & 0x7f) * 2 ** shift;
+      if (byte < 0x80) return value;
+    }
+    throw invalid();
+  };
+
+  if (next() !== POSITION_CODE_VERSION) {
+    throw invalid();
+  }
+  const mode = next();
+  const width = readVarint();
+  const height = readVarint();
+  const topology = TOPOLOGIES[next()];
+  const neighbourhood = NEIGHBOURHOODS[next()];
+  if (mode > DEFERRED || width < 1 || height < 1 || width > MAX_POSITION_SIZE || height > MAX_POSITION_SIZE ||
+      !topology || !neighbourhood) {
+    throw invalid();
+  }
+  const mineCount = mode !== LAYOUT ? readVarint() : 0;
+  const seed = mode !== LAYOUT ? readVarint() : 0;
+  const distribution = mode !== LAYOUT
+    ? String.fromCharCode(...Array.from({ length: readVarint() }, next)) || DEFAULT_MINE_DISTRIBUTION
+    : DEFAULT_MINE_DISTRIBUTION;
+  const firstClickPolicy = mode === DEFERRED ? FIRST_CLICK_POLICIES[next()] : FirstClickPolicy.NONE;
+  if (!firstClickPolicy) {
+    throw invalid();
+  }
+
+  const states: number[] = [];
+  while (states.length < width * height) {
+    const run = readVarint();
+    const state = run % 8;
+    const length = Math.floor(run / 8) + 1;
+    // Only layouts list mines, and nothing is revealed before the mines are placed
+    const allowed = mode === LAYOUT ? state !== (HOLE | MINE) : state <= HOLE && (mode === SEEDED || state !== REVEALED);
+    if (!allowed || states.length + length > width * height) {
+      throw invalid();
+    }
+    states.push(...new Array(length).fill(state));
+  }
+  if (mineCount > states.filter(state => state !== HOLE).length) {
+    throw invalid();
+  }
+
+  const cellAt = (index: number) => ({ x: index % width, y: Math.floor(index / width) });
+  const indices = (test: (state: number) => boolean) =>
+    states.flatMap((state, index) => test(state) ? [index] : []);
+  const flagged = indices(state => (state & COVER) === FLAGGED).map(cellAt);
+  const settings: DifficultySettings = {
+    width,
+    height,
+    mineCount,
+    level: DifficultyLevel.CUSTOM,
+    seed,
+    firstClickPolicy,
+    topology,
+    neighbourhood,
+    mask: states.includes(HOLE)
+      ? Array.from({ length: height }, (_, y) => states.slice(y * width, (y + 1) * width).map(state => state === HOLE ? MASK_HOLE : MASK_CELL).join(''))
+      : undefined,
+    mineDistribution: distribution
+  };
+
+  if (mode === DEFERRED) {
+    const board = new GameBoard(settings);
+    flagged.forEach(({ x, y }) => board.flagCell(x, y));
+    return board;
+  }
+
+  const mines = new Set(mode === SEEDED
+    ? new GameBoard(settings).getCells().flat().filter(cell => cell.isMine).map(({ x, y }) => y * width + x)
+    : indices(state => (state & MINE) !== 0));
+  const revealed = indices(state => (state & COVER) === REVEALED);
+  const safeRevealed = revealed.filter(index => !mines.has(index));
+  const hiddenSafe = states.filter((state, index) => state !== HOLE && !mines.has(index)).length - safeRevealed.length;
+
+  // A finished position is rebuilt by playing its last reveal, so the board ends the same way
+  const lastReveals = revealed.filter(index => mines.has(index));
+  if (lastReveals.length === 0 && hiddenSafe === 0 && safeRevealed.length > 0) {
+    lastReveals.push(safeRevealed.pop()!);
+  }
+  const board = GameBoard.fromLayout(settings, [...mines].map(cellAt), safeRevealed.map(cellAt));
+  flagged.forEach(({ x, y }) => board.flagCell(x, y));
+  lastReveals.map(cellAt).forEach(({ x, y }) => board.revealCell(x, y));
+  return board;
+}
+
+/**
+ * Whether a board with the same seed and settings, placing its mines up front, has exactly
+ * these mines
+ */
+function isSeededLayout(board: GameBoard): boolean {
+  if (!Number.isInteger(board.getSeed()) || board.getSeed() < 0) {
+    return false;
+  }
+  const fresh = new GameBoard({
+    width: board.getWidth(),
+    height: board.getHeight(),
+    mineCount: board.getMineCount(),
+    level: DifficultyLevel.CUSTOM,
+    seed: board.getSeed(),
+    topology: board.getTopology(),
+    neighbourhood: board.getNeighbourhood(),
+    mask: board.getMask(),
+    mineDistribution: board.getMineDistribution()
+  });
+  return board.getCells().flat().every(cell => cell.isMine === fresh.getCell(cell.x, cell.y)!.isMine);
+}
+
+function writeVarint(bytes: number[], value: number): void {
+  while (value >= 0x80) {
+    bytes.push((value % 0x80) | 0x80);
+    value = Math.floor(value / 0x80);
+  }
+  bytes.push(value);
+}
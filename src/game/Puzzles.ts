@@ -0,0 +1,170 @@
+/**
+ * Hand-authored puzzle positions. A puzzle grid is one string per row: '*' for a hidden mine,
+ * '#' for a hidden safe cell, a digit for a revealed cell showing that number and '.' for a hole
+ * in a shaped board. The solution is the author's order for clearing the hidden cells, one move
+ * per cell.
+ */
+
+import { DifficultyLevel } from '@/types';
+import { IGameBoard } from '@/interfaces/GameEngine';
+import { GameBoard } from './GameBoard';
+import { MASK_CELL, MASK_HOLE } from './BoardShapes';
+
+export const PUZZLE_MINE = '*';
+export const PUZZLE_HIDDEN = '#';
+export const PUZZLE_HOLE = MASK_HOLE;
+
+export interface PuzzleMove {
+  x: number;
+  y: number;
+  action: 'reveal' | 'flag';
+}
+
+export interface Puzzle {
+  id: string;
+  title: string;
+  grid: string[];
+  solution: PuzzleMove[];
+}
+
+export const PUZZLES: Puzzle[] = [
+  {
+    id: 'first-steps',
+    title: 'First Steps',
+    grid: [
+      '#*#*#',
+      '11211',
+      '00000'
+    ],
+    solution: [
+      { x: 2, y: 0, action: 'reveal' },
+      { x: 1, y: 0, action: 'flag' },
+      { x: 3, y: 0, action: 'flag' },
+      { x: 0, y: 0, action: 'reveal' },
+      { x: 4, y: 0, action: 'reveal' }
+    ]
+  },
+  {
+    id: 'one-two-two-one',
+    title: 'One-Two-Two-One',
+    grid: [
+      '012210',
+      '0#**#0',
+      '012210'
+    ],
+    solution: [
+      { x: 1, y: 1, action: 'reveal' },
+      { x: 4, y: 1, action: 'reveal' },
+      { x: 2, y: 1, action: 'flag' },
+      { x: 3, y: 1, action: 'flag' }
+    ]
+  },
+  {
+    id: 'picture-frame',
+    title: 'Picture Frame',
+    grid: [
+      '0112110',
+      '1#*#*#0',
+      '1*222#1',
+      '2#312*1',
+      '1*#*##1',
+      '1121100'
+    ],
+    solution: [
+      { x: 1, y: 1, action: 'reveal' },
+      { x: 5, y: 1, action: 'reveal' },
+      { x: 5, y: 2, action: 'reveal' },
+      { x: 1, y: 4, action: 'flag' },
+      { x: 4, y: 4, action: 'reveal' },
+      { x: 5, y: 4, action: 'reveal' },
+      { x: 2, y: 1, action: 'flag' },
+      { x: 4, y: 1, action: 'flag' },
+      { x: 1, y: 2, action: 'flag' },
+      { x: 5, y: 3, action: 'flag' },
+      { x: 3, y: 4, action: 'flag' },
+      { x: 1, y: 3, action: 'reveal' },
+      { x: 2, y: 4, action: 'reveal' },
+      { x: 3, y: 1, action: 'reveal' }
+    ]
+  }
+];
+
+export function getPuzzle(id: string): Puzzle | undefined {
+  return PUZZLES.find(puzzle => puzzle.id === id);
+}
+
+/**
+ * Load a puzzle position into a board. Throws if the grid is malformed, a revealed number
+ * disagrees with the mines around it, or the solution does not clear every hidden cell.
+ */
+export function createPuzzleBoard(puzzle: Puzzle): GameBoard {
+  const { id, grid, solution } = puzzle;
+  const board = createGridBoard(grid, id);
+  const width = board.getWidth();
+  const height = board.getHeight();
+  const revealed = board.getCells().flat().filter(cell => cell.isRevealed).length;
+
+  const moved = new Set<string>();
+  solution.forEach(({ x, y, action }) => {
+    const symbol = grid[y]?.[x];
+    if ((symbol !== PUZZLE_MINE && symbol !== PUZZLE_HIDDEN) || moved.has(`${x},${y}`)) {
+      throw new Error(`Puzzle '${id}' solution moves on (${x}, ${y}) more than once or off the hidden cells`);
+    }
+    if ((action === 'flag') !== (symbol === PUZZLE_MINE)) {
+      throw new Error(`Puzzle '${id}' solution ${action === 'flag' ? 'flags a safe cell' : 'reveals a mine'} at (${x}, ${y})`);
+    }
+    moved.add(`${x},${y}`);
+  });
+  const holes = grid.join('').split(PUZZLE_HOLE).length - 1;
+  if (moved.size !== width * height - revealed - holes) {
+    throw new Error(`Puzzle '${id}' solution leaves hidden cells unsolved`);
+  }
+
+  return board;
+}
+
+/**
+ * Load a position written as a puzzle grid, without a solution. Throws if the grid is malformed
+ * or a revealed number disagrees with the mines around it.
+ */
+export function createGridBoard(grid: string[], id: string = 'position'): GameBoard {
+  const height = grid.length;
+  const width = grid[0]?.length ?? 0;
+  if (width === 0 || grid.some(row => row.length !== width || /[^*#.0-8]/.test(row))) {
+    throw new Error(`Puzzle '${id}' has a malformed grid`);
+  }
+
+  const mines: Array<{ x: number; y: number }> = [];
+  const revealed: Array<{ x: number; y: number }> = [];
+  grid.forEach((row, y) => row.split('').forEach((symbol, x) => {
+    if (symbol === PUZZLE_MINE) {
+      mines.push({ x, y });
+    } else if (symbol !== PUZZLE_HIDDEN && symbol !== PUZZLE_HOLE) {
+      revealed.push({ x, y });
+    }
+  }));
+
+  const shaped = grid.some(row => row.includes(PUZZLE_HOLE));
+  const mask = shaped ? grid.map(row => row.replace(/[^.]/g, MASK_CELL)) : undefined;
+  const board = GameBoard.fromLayout({ width, height, mineCount: mines.length, level: DifficultyLevel.CUSTOM, seed: 0, mask }, mines, revealed);
+  revealed.forEach(({ x, y }) => {
+    const shown = Number(grid[y][x]);
+    const actual = board.getCell(x, y)!.adjacentMines;
+    if (shown !== actual) {
+      throw new Error(`Puzzle '${id}' shows ${shown} at (${x}, ${y}) but the mines around it make ${actual}`);
+    }
+  });
+
+  return board;
+}
+
+/**
+ * Write a board's position as a puzzle grid. Flags are not part of a position and are left out.
+ */
+export function toPuzzleGrid(board: IGameBoard): string[] {
+  return board.getCells().map(row => row.map(cell => {
+    if (cell.isMasked) return PUZZLE_HOLE;
+    if (cell.isRevealed) return String(cell.adjacentMines);
+    return cell.isMine ? PUZZLE_MINE : PUZZLE_HIDDEN;
+  }).join(''));
+}
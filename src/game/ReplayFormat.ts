@@ -0,0 +1,371 @@
+/**
+ * Replay files, so a finished game can leave the app and be watched again. A replay keeps the
+ * board settings and the actions the player took with their timing. The mines come from the seed
+ * when the seed alone rebuilds the board, and are listed only for boards laid out by hand.
+ */
+
+import {
+  DifficultyLevel, DifficultySettings, FirstClickPolicy, GridTopology, Move, MoveAction, NeighbourhoodRule
+} from '@/types';
+import { GameBoard } from './GameBoard';
+import { getMineDistribution } from './MineDistributions';
+import { GameLogic } from './GameLogic';
+import { GameLog } from './GameLog';
+
+export const REPLAY_FORMAT = 'ai-minesweeper-replay';
+export const REPLAY_VERSION = 1;
+
+const ACTION_CODES: Record<MoveAction, string> = { reveal: 'r', flag: 'f', chord: 'c' };
+
+export interface ReplayAction {
+  time: number; // Milliseconds since the replay started
+  action: MoveAction;
+  x: number;
+  y: number;
+}
+
+/**
+ * Mines and cells already open before the first move, for boards the seed cannot rebuild
+ */
+export interface ReplayLayout {
+  mines: Array<{ x: number; y: number }>;
+  revealed: Array<{ x: number; y: number }>;
+}
+
+export interface Replay {
+  version: number;
+  settings: DifficultySettings;
+  layout?: ReplayLayout;
+  questionMarks: boolean; // Whether a second flag click left a question mark
+  startTime: Date;
+  actions: ReplayAction[];
+}
+
+/**
+ * Build a replay from GameLogic.getGameLog()
+ */
+export function createReplay(log: GameLog): Replay {
+  const moves = log.getMoves();
+  if (moves.length === 0) {
+    throw new Error('A replay needs at least one move');
+  }
+  // Endless boards have no fixed size or mine count for the settings to hold
+  if (JSON.parse(log.getOrigin()).kind === 'chunked') {
+    throw new Error('Endless games cannot be saved as replays');
+  }
+
+  // The board the log starts from holds the settings, and for hand-made boards the layout
+  const start = GameBoard.fromSerialized(log.getOrigin());
+  const board = log.replay();
+  const startTime = new Date(moves[0].timestamp);
+  const settings: DifficultySettings = {
+    width: start.getWidth(),
+    height: start.getHeight(),
+    mineCount: start.getMineCount(),
+    level: DifficultyLevel.CUSTOM,
+    seed: start.getSeed(),
+    firstClickPolicy: start.getFirstClickPolicy(),
+    topology: start.getTopology(),
+    neighbourhood: start.getNeighbourhood(),
+    mask: start.getMask(),
+    mineDistribution: start.getMineDistribution()
+  };
+
+  return {
+    version: REPLAY_VERSION,
+    settings,
+    layout: isSeededLayout(start, settings) ? undefined : {
+      mines: board.getCells().flat().filter(cell => cell.isMine).map(({ x, y }) => ({ x, y })),
+      revealed: start.getCells().flat().filter(cell => cell.isRevealed).map(({ x, y }) => ({ x, y }))
+    },
+    questionMarks: log.getQuestionMarks().some(enabled => enabled),
+    startTime,
+    actions: moves.map(move => ({
+      time: new Date(move.timestamp).getTime() - startTime.getTime(),
+      action: move.action,
+      x: move.cell.x,
+      y: move.cell.y
+    }))
+  };
+}
+
+/**
+ * Write a replay as a compact JSON file: cells are board indices and each action is a
+ * [time, code, x, y] tuple
+ */
+export function serializeReplay(replay: Replay): string {
+  const { width } = replay.settings;
+  const toIndex = ({ x, y }: { x: number; y: number }) => y * width + x;
+  return JSON.stringify({
+    format: REPLAY_FORMAT,
+    version: replay.version,
+    settings: { ...replay.settings, level: undefined },
+    mines: replay.layout?.mines.map(toIndex),
+    revealed: replay.layout?.revealed.map(toIndex),
+    questionMarks: replay.questionMarks || undefined,
+    startTime: replay.startTime.toISOString(),
+    actions: replay.actions.map(({ time, action, x, y }) => [time, ACTION_CODES[action], x, y])
+  });
+}
+
+/**
+ * Read a file written by serializeReplay(). Throws if it is not a replay, comes from a newer
+ * version of the format or is malformed.
+ */
+export function parseReplay(data: string): Replay {
+  let file: any;
+  try {
+    file = JSON.parse(data);
+  } catch {
+    throw new Error('Replay is not valid JSON');
+  }
+  if (!file || file.format !== REPLAY_FORMAT) {
+    throw new Error('Not a replay file');
+  }
+  if (!Number.isInteger(file.version) || file.version < 1 || file.version > REPLAY_VERSION) {
+    throw new Error(`Unsupported replay version: ${file.version}`);
+  }
+
+  const { width, height, mineCount } = file.settings ?? {};
+  if (!Number.isInteger(width) || !Number.isInteger(height) || width <= 0 || height <= 0) {
+    throw new Error(`Invalid board dimensions: ${width}x${height}`);
+  }
+  if (!Number.isInteger(mineCount) || mineCount < 0 || mineCount > width * height) {
+    throw new Error(`Invalid mine count: ${mineCount}`);
+  }
+
+  // Without a seed or a mine list there is no telling which board the actions were played on
+  const { seed, firstClickPolicy, topology, neighbourhood, mask, mineDistribution } = file.settings;
+  if (seed === undefined && !Array.isArray(file.mines)) {
+    throw new Error('Replay has neither a seed nor a mine layout');
+  }
+  if (seed !== undefined && (!Number.isInteger(seed) || seed < 0)) {
+    throw new Error(`Invalid replay seed: ${seed}`);
+  }
+  const isOneOf = (value: unknown, values: string[]) => value === undefined || values.includes(value as string);
+  if (!isOneOf(firstClickPolicy, Object.values(FirstClickPolicy))) {
+    throw new Error(`Invalid first click policy: ${firstClickPolicy}`);
+  }
+  if (!isOneOf(topology, Object.values(GridTopology))) {
+    throw new Error(`Invalid grid topology: ${topology}`);
+  }
+  if (!isOneOf(neighbourhood, Object.values(NeighbourhoodRule))) {
+    throw new Error(`Invalid neighbourhood rule: ${neighbourhood}`);
+  }
+  if (mineDistribution !== undefined && !getMineDistribution(mineDistribution)) {
+    throw new Error(`Unknown mine distribution: ${mineDistribution}`);
+  }
+  if (mask !== undefined && (!Array.isArray(mask) || !mask.every((row: unknown) => typeof row === 'string'))) {
+    throw new Error('Invalid board mask');
+  }
+
+  const toCell = (index: unknown) => {
+    if (!Number.isInteger(index) || (index as number) < 0 || (index as number) >= width * height) {
+      throw new Error(`Invalid replay cell: ${index}`);
+    }
+    return { x: (index as number) % width, y: Math.floor((index as number) / width) };
+  };
+  const actionFor = (code: unknown) =>
+    (Object.keys(ACTION_CODES) as MoveAction[]).find(action => ACTION_CODES[action] === code);
+
+  const startTime = new Date(file.startTime);
+  if (isNaN(startTime.getTime()) || !Array.isArray(file.actions)) {
+    throw new Error('Replay is missing its start time or actions');
+  }
+
+  return {
+    version: file.version,
+    settings: {
+      width, height, mineCount, level: DifficultyLevel.CUSTOM,
+      seed, firstClickPolicy, topology, neighbourhood, mask, mineDistribution
+    },
+    layout: Array.isArray(file.mines) ? {
+      mines: file.mines.map(toCell),
+      revealed: Array.isArray(file.revealed) ? file.revealed.map(toCell) : []
+    } : undefined,
+    questionMarks: file.questionMarks === true,
+    startTime,
+    actions: file.actions.map((entry: unknown, index: number) => {
+      const [time, code, x, y] = Array.isArray(entry) ? entry : [];
+      const action = actionFor(code);
+      if (typeof time !== 'number' || time < 0 || !action || !Number.isInteger(x) || !Number.isInteger(y)) {
+        throw new Error(`Invalid replay action at index ${index}`);
+      }
+      return { time, action, x, y };
+    })
+  };
+}
+
+/**
+ * Play a replay from the start on a fresh board. The moves and log match what GameLogic recorded
+ * during the game. Throws if an action does not apply to the rebuilt board.
+ */
+export function playReplay(replay: Replay): { board: GameBoard; moves: Move[]; log: GameLog } {
+  const board = replay.layout
+    ? GameBoard.fromLayout(replay.settings, replay.layout.mines, replay.layout.revealed)
+    : new GameBoard(replay.settings);
+  const gameLogic = new GameLogic();
+  gameLogic.setQuestionMarksEnabled(replay.questionMarks);
+  gameLogic.startGame(board);
+
+  replay.actions.forEach(({ action, x, y }, index) => {
+    if (!gameLogic.makeMove(board, x, y, action)) {
+      throw new Error(`Replay action ${index} (${action} at (${x}, ${y})) does not apply to the board`);
+    }
+  });
+
+  const startTime = replay.startTime.getTime();
+  const moves = gameLogic.getGameHistory().map((move, index) => ({
+    ...move,
+    timestamp: new Date(startTime + replay.actions[index].time)
+  }));
+  const log = gameLogic.getGameLog()!;
+  return { board, moves, log: GameLog.restore(log.getOrigin(), moves, log.getQuestionMarks()) };
+}
+
+/**
+ * Rebuild the moves of a replay file, ready for AnalysisViewer.showReplay()
+ */
+export function importReplay(data: string): Move[] {
+  return playReplay(parseReplay(data)).moves;
+}
+
+const RAWVF_EVENT = /^(-?\d+(?:\.\d+)?)\s+(lc|lr|rc|rr|mc|mr)\s+\d+\s+\d+\s+\((\d+)\s+(\d+)\)/;
+
+/**
+ * Convert a RAWVF replay, the text form Minesweeper Arbiter and its converters export community
+ * videos in. The file has 'Key: value' headers with Width, Height and Mines, a 'Board:' section
+ * with '*' for each mine, and an 'Events:' section of mouse events: time in seconds, event, pixel
+ * position, then the cell in brackets counted from 1.
+ *
+ * Left releases reveal, right presses flag, and middle releases or releasing one button while
+ * both are held chord. Clicks that change nothing, such as on open cells, are dropped.
+ */
+export function convertRawvf(data: string): Replay {
+  const lines = data.split(/\r?\n/).map(line => line.trim());
+  const header = (key: string) => {
+    const line = lines.find(line => line.toLowerCase().startsWith(`${key.toLowerCase()}:`));
+    return line?.slice(key.length + 1).trim();
+  };
+  const width = Number(header('Width'));
+  const height = Number(header('Height'));
+  if (!Number.isInteger(width) || !Number.isInteger(height) || width <= 0 || height <= 0) {
+    throw new Error('RAWVF replay is missing its Width or Height');
+  }
+
+  const boardStart = lines.indexOf('Board:') + 1;
+  const rows = lines.slice(boardStart, boardStart + height);
+  if (boardStart === 0 || rows.length !== height || rows.some(row => row.length !== width)) {
+    throw new Error('RAWVF board does not match its Width and Height');
+  }
+  const mines = rows.flatMap((row, y) => row.split('').flatMap((symbol, x) => symbol === '*' ? [{ x, y }] : []));
+  if (header('Mines') !== undefined && Number(header('Mines')) !== mines.length) {
+    throw new Error(`RAWVF board has ${mines.length} mines but its header says ${header('Mines')}`);
+  }
+
+  const settings: DifficultySettings = {
+    width,
+    height,
+    mineCount: mines.length,
+    level: DifficultyLevel.CUSTOM,
+    seed: 0,
+    firstClickPolicy: FirstClickPolicy.NONE
+  };
+  const board = GameBoard.fromLayout(settings, mines);
+  const gameLogic = new GameLogic();
+  gameLogic.startGame(board);
+
+  // Keep the clicks that change the board, so the replay plays back cleanly
+  const actions: ReplayAction[] = [];
+  readRawvfClicks(lines.slice(lines.indexOf('Events:') + 1)).forEach(click => {
+    if (gameLogic.isGameFinished(board)) return;
+    if (gameLogic.makeMove(board, click.x, click.y, click.action)) {
+      actions.push(click);
+    }
+  });
+  if (actions.length === 0) {
+    throw new Error('RAWVF replay has no moves');
+  }
+
+  const timestamp = Date.parse(header('Timestamp') ?? '');
+  return {
+    version: REPLAY_VERSION,
+    settings,
+    layout: { mines, revealed: [] },
+    questionMarks: false,
+    startTime: new Date(isNaN(timestamp) ? Date.now() : timestamp),
+    actions
+  };
+}
+
+/**
+ * Turn RAWVF mouse events into the clicks they make, whether or not they change anything
+ */
+function readRawvfClicks(lines: string[]): ReplayAction[] {
+  const clicks: ReplayAction[] = [];
+  let left = false;
+  let right = false;
+  let chording = false;
+  let swallowRelease = false; // The second button let go after a chord does nothing
+
+  lines.forEach(line => {
+    const event = RAWVF_EVENT.exec(line);
+    if (!event) return;
+    const time = Math.max(0, Math.round(Number(event[1]) * 1000));
+    const click = (action: MoveAction) => clicks.push({ time, action, x: Number(event[3]) - 1, y: Number(event[4]) - 1 });
+    const release = () => {
+      if (chording) {
+        click('chord');
+        chording = false;
+        swallowRelease = true;
+        return false;
+      }
+      if (swallowRelease) {
+        swallowRelease = false;
+        return false;
+      }
+      return true;
+    };
+
+    switch (event[2]) {
+      case 'lc':
+        left = true;
+        chording = right;
+        break;
+      case 'rc':
+        right = true;
+        chording = left;
+        if (!left) click('flag');
+        break;
+      case 'lr':
+        if (release() && left) click('reveal');
+        left = false;
+        break;
+      case 'rr':
+        release();
+        right = false;
+        break;
+      case 'mr':
+        click('chord');
+        break;
+    }
+  });
+
+  return clicks;
+}
+
+/**
+ * Whether the seed rebuilds the board as it stood before the first move. Boards that wait for
+ * the first click place their mines from the seed then, so they always do.
+ */
+function isSeededLayout(start: GameBoard, settings: DifficultySettings): boolean {
+  const cells = start.getCells().flat();
+  if (cells.some(cell => cell.isRevealed)) {
+    return false;
+  }
+  if (start.getFirstClickPolicy() !== FirstClickPolicy.NONE) {
+    return cells.every(cell => !cell.isMine);
+  }
+  const fresh = new GameBoard(settings);
+  return cells.every(cell => cell.isMine === fresh.getCell(cell.x, cell.y)!.isMine);
+}
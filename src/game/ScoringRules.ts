@@ -0,0 +1,114 @@
+/**
+ * Scoring rulesets. GameLogic asks the active ruleset for a score after every move,
+ * so new ways of scoring a game can be registered without touching the game rules.
+ */
+
+import { EfficiencyStats, GameState } from '@/types';
+
+/**
+ * Everything a ruleset may base a score on
+ */
+export interface ScoringContext {
+  gameState: GameState;
+  duration: number; // in seconds
+  moveCount: number;
+  width: number;
+  height: number;
+  mineCount: number;
+  hintsUsed: number;
+  efficiency: EfficiencyStats;
+  previousScore: number;
+}
+
+export interface ScoringRuleset {
+  id: string;
+  name: string;
+  description: string;
+  score(context: ScoringContext): number;
+}
+
+/**
+ * The original formula: board size times mines over duration times moves, minus 100 for a loss
+ */
+export const CLASSIC_SCORING: ScoringRuleset = {
+  id: 'classic',
+  name: 'Classic',
+  description: 'Faster wins with fewer moves on bigger boards score higher',
+  score(context) {
+    if (context.gameState === GameState.WON) {
+      const boardSize = context.width * context.height;
+      return Math.floor((boardSize * context.mineCount * 1000) / Math.max(context.duration * context.moveCount, 1));
+    }
+    if (context.gameState === GameState.LOST) {
+      return Math.max(0, context.previousScore - 100);
+    }
+    return context.previousScore;
+  }
+};
+
+export const TIME_SCORING: ScoringRuleset = {
+  id: 'time',
+  name: 'Time',
+  description: 'Only the time to clear the board counts',
+  score(context) {
+    if (context.gameState !== GameState.WON) {
+      return 0;
+    }
+    return Math.floor((context.mineCount * 1000) / Math.max(context.duration, 1));
+  }
+};
+
+export const THREE_BV_SCORING: ScoringRuleset = {
+  id: '3bv',
+  name: '3BV/s',
+  description: 'Board value solved per second, scaled by click efficiency',
+  score(context) {
+    if (context.gameState !== GameState.WON) {
+      return 0;
+    }
+    const { threeBV, ioe } = context.efficiency;
+    return Math.floor((threeBV * Math.min(ioe, 1) * 1000) / Math.max(context.duration, 1));
+  }
+};
+
+export const HINT_PENALTY_SCORING: ScoringRuleset = {
+  id: 'hint-penalty',
+  name: 'Hint Penalty',
+  description: 'Classic scoring, with each hint taking a quarter off the score',
+  score(context) {
+    const score = CLASSIC_SCORING.score(context);
+    return context.gameState === GameState.WON ? Math.floor(score * Math.pow(0.75, context.hintsUsed)) : score;
+  }
+};
+
+export const NO_FLAG_SCORING: ScoringRuleset = {
+  id: 'no-flag',
+  name: 'No-Flag Bonus',
+  description: 'Classic scoring, doubled for wins without placing a single flag',
+  score(context) {
+    const score = CLASSIC_SCORING.score(context);
+    return context.gameState === GameState.WON && context.efficiency.clicks.right === 0 ? score * 2 : score;
+  }
+};
+
+export const DEFAULT_SCORING_RULESET = CLASSIC_SCORING.id;
+
+const rulesets = new Map<string, ScoringRuleset>(
+  [CLASSIC_SCORING, TIME_SCORING, THREE_BV_SCORING, HINT_PENALTY_SCORING, NO_FLAG_SCORING]
+    .map(ruleset => [ruleset.id, ruleset])
+);
+
+/**
+ * Make a ruleset available by id. Registering an existing id replaces it.
+ */
+export function registerScoringRuleset(ruleset: ScoringRuleset): void {
+  rulesets.set(ruleset.id, ruleset);
+}
+
+export function getScoringRuleset(id: string): ScoringRuleset | undefined {
+  return rulesets.get(id);
+}
+
+export function getScoringRulesets(): ScoringRuleset[] {
+  return [...rulesets.values()];
+}
@@ -0,0 +1,168 @@
+import { IStateManager, IGameBoard } from '@/interfaces/GameEngine';
+import { GameLogic } from './GameLogic';
+import { GameLog } from './GameLog';
+import { Move } from '@/types';
+
+interface GameSnapshot {
+  log: GameLog; // The game up to this point; the board is rebuilt by replaying it
+}
+
+/**
+ * Tracks points in the game log for multi-level undo/redo and named checkpoints.
+ * Undo is a practice-mode feature, and any game that rewinds is marked as assisted.
+ */
+export class StateManager implements IStateManager {
+  private gameLogic: GameLogic;
+  private currentBoard: IGameBoard | null = null;
+  private states: GameSnapshot[] = [];
+  private cursor: number = -1; // Index of the snapshot matching the current board
+  private checkpoints: Map<string, GameSnapshot> = new Map();
+  private practiceMode: boolean = false;
+  private assisted: boolean = false;
+  private maxStates: number;
+
+  constructor(gameLogic: GameLogic, maxStates: number = 100) {
+    this.gameLogic = gameLogic;
+    this.maxStates = maxStates;
+  }
+
+  getCurrentBoard(): IGameBoard | null {
+    return this.currentBoard;
+  }
+
+  /**
+   * Record the board after a change. Anything that could have been redone is discarded.
+   */
+  saveState(board: IGameBoard): void {
+    this.currentBoard = board;
+    this.states = this.states.slice(0, this.cursor + 1);
+    this.states.push(this.createSnapshot(board));
+
+    // Drop the oldest snapshots once the history is full
+    if (this.states.length > this.maxStates) {
+      this.states.shift();
+    }
+    this.cursor = this.states.length - 1;
+  }
+
+  /**
+   * Rebuild the board from the current snapshot
+   */
+  loadState(): IGameBoard | null {
+    const snapshot = this.states[this.cursor];
+    return snapshot ? this.restoreSnapshot(snapshot) : null;
+  }
+
+  getGameHistory(): Move[] {
+    return this.gameLogic.getGameHistory();
+  }
+
+  canUndo(): boolean {
+    return this.practiceMode && this.cursor > 0;
+  }
+
+  canRedo(): boolean {
+    return this.practiceMode && this.cursor < this.states.length - 1;
+  }
+
+  undo(): IGameBoard | null {
+    if (!this.canUndo()) {
+      return null;
+    }
+
+    this.cursor--;
+    this.assisted = true;
+    return this.restoreSnapshot(this.states[this.cursor]);
+  }
+
+  redo(): IGameBoard | null {
+    if (!this.canRedo()) {
+      return null;
+    }
+
+    this.cursor++;
+    return this.restoreSnapshot(this.states[this.cursor]);
+  }
+
+  /**
+   * Remember the current board under a name so it can be restored later
+   */
+  createCheckpoint(name: string): boolean {
+    const snapshot = this.states[this.cursor];
+    if (!snapshot) {
+      return false;
+    }
+
+    this.checkpoints.set(name, snapshot);
+    return true;
+  }
+
+  /**
+   * Jump back to a named checkpoint. The jump itself can be undone.
+   */
+  restoreCheckpoint(name: string): IGameBoard | null {
+    const snapshot = this.checkpoints.get(name);
+    if (!this.practiceMode || !snapshot) {
+      return null;
+    }
+
+    this.assisted = true;
+    const board = this.restoreSnapshot(snapshot);
+    this.saveState(board);
+    return board;
+  }
+
+  deleteCheckpoint(name: string): boolean {
+    return this.checkpoints.delete(name);
+  }
+
+  getCheckpointNames(): string[] {
+    return Array.from(this.checkpoints.keys());
+  }
+
+  setPracticeMode(enabled: boolean): void {
+    this.practiceMode = enabled;
+  }
+
+  isPracticeMode(): boolean {
+    return this.practiceMode;
+  }
+
+  /**
+   * Whether undo or a checkpoint was used during the current game
+   */
+  wasAssisted(): boolean {
+    return this.assisted;
+  }
+
+  /**
+   * Carry over assistance from before a resume, which starts a fresh history
+   */
+  markAssisted(): void {
+    this.assisted = true;
+  }
+
+  /**
+   * Forget the current game. Practice mode is a player preference and is kept.
+   */
+  reset(): void {
+    this.currentBoard = null;
+    this.states = [];
+    this.cursor = -1;
+    this.checkpoints.clear();
+    this.assisted = false;
+  }
+
+  private createSnapshot(board: IGameBoard): GameSnapshot {
+    // Boards that were never played through GameLogic start a log of their own
+    const log = this.gameLogic.getGameLog() ?? GameLog.start(board);
+    return { log: log.slice(log.getLength()) };
+  }
+
+  private restoreSnapshot(snapshot: GameSnapshot): IGameBoard {
+    const board = snapshot.log.replay();
+    this.gameLogic.restoreHistory(snapshot.log, board);
+    this.currentBoard = board;
+    return board;
+  }
+}
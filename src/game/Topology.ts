@@ -0,0 +1,177 @@
+/**
+ * Grid topologies. A topology decides which cells neighbour each other and where each cell sits
+ * on screen; boards, solvers and renderers ask it instead of assuming a square 8-neighbour grid.
+ */
+
+import { GridTopology } from '@/types';
+import { NeighbourFunction, forEachNeighbour } from './BoardCore';
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface Topology {
+  readonly type: GridTopology;
+  /**
+   * Call the callback once with the index of every neighbour of a cell
+   */
+  readonly forEachNeighbour: NeighbourFunction;
+  /**
+   * The cell at an offset from another, or null past the edge. Keyboard moves use single steps.
+   */
+  step(width: number, height: number, x: number, y: number, dx: number, dy: number): Point | null;
+  /**
+   * Centre of a cell in pixels, measured from the top-left corner of the board
+   */
+  cellCentre(x: number, y: number, cellSize: number): Point;
+  /**
+   * The cell under a point measured like cellCentre, or null when the point misses the board
+   */
+  cellAt(px: number, py: number, width: number, height: number, cellSize: number): Point | null;
+  /**
+   * Pixel size of a board of the given dimensions
+   */
+  boardSize(width: number, height: number, cellSize: number): { width: number; height: number };
+  /**
+   * Corners of a cell outline relative to its centre
+   */
+  cellOutline(cellSize: number): Point[];
+}
+
+const isOnBoard = (width: number, height: number, x: number, y: number) =>
+  x >= 0 && x < width && y >= 0 && y < height;
+
+const squareGeometry = {
+  cellCentre(x: number, y: number, cellSize: number): Point {
+    return { x: (x + 0.5) * cellSize, y: (y + 0.5) * cellSize };
+  },
+  cellAt(px: number, py: number, width: number, height: number, cellSize: number): Point | null {
+    const x = Math.floor(px / cellSize);
+    const y = Math.floor(py / cellSize);
+    return isOnBoard(width, height, x, y) ? { x, y } : null;
+  },
+  boardSize(width: number, height: number, cellSize: number) {
+    return { width: width * cellSize, height: height * cellSize };
+  },
+  cellOutline(cellSize: number): Point[] {
+    const half = cellSize / 2;
+    return [{ x: -half, y: -half }, { x: half, y: -half }, { x: half, y: half }, { x: -half, y: half }];
+  }
+};
+
+export const SQUARE_TOPOLOGY: Topology = {
+  type: GridTopology.SQUARE,
+  forEachNeighbour,
+  step(width, height, x, y, dx, dy) {
+    return isOnBoard(width, height, x + dx, y + dy) ? { x: x + dx, y: y + dy } : null;
+  },
+  ...squareGeometry
+};
+
+/**
+ * Square cells whose opposite edges join, so every cell has eight neighbours.
+ * On boards narrower than three cells a neighbour reached both ways round is reported once.
+ */
+export const TORUS_TOPOLOGY: Topology = {
+  type: GridTopology.TORUS,
+  forEachNeighbour(width, height, index, callback) {
+    const x = index % width;
+    const y = (index - x) / width;
+    const seen = new Set<number>([index]);
+
+    for (let dy = -1; dy <= 1; dy++) {
+      const ny = (y + dy + height) % height;
+      for (let dx = -1; dx <= 1; dx++) {
+        const neighbour = ny * width + (x + dx + width) % width;
+        if (!seen.has(neighbour)) {
+          seen.add(neighbour);
+          callback(neighbour);
+        }
+      }
+    }
+  },
+  step(width, height, x, y, dx, dy) {
+    return { x: ((x + dx) % width + width) % width, y: ((y + dy) % height + height) % height };
+  },
+  ...squareGeometry
+};
+
+// Neighbour offsets by row parity
+const HEX_NEIGHBOURS = {
+  even: [[-1, 0], [1, 0], [-1, -1], [0, -1], [-1, 1], [0, 1]],
+  odd: [[-1, 0], [1, 0], [0, -1], [1, -1], [0, 1], [1, 1]]
+};
+
+const hexRadius = (cellSize: number) => cellSize / Math.sqrt(3);
+
+/**
+ * Pointy-topped hexagons in rows, with odd rows shifted half a cell right. cellSize is the
+ * width of a hexagon; rows overlap by a quarter of the hexagon height.
+ */
+export const HEX_TOPOLOGY: Topology = {
+  type: GridTopology.HEX,
+  forEachNeighbour(width, height, index, callback) {
+    const x = index % width;
+    const y = (index - x) / width;
+    for (const [dx, dy] of y % 2 === 0 ? HEX_NEIGHBOURS.even : HEX_NEIGHBOURS.odd) {
+      if (isOnBoard(width, height, x + dx, y + dy)) {
+        callback((y + dy) * width + x + dx);
+      }
+    }
+  },
+  step(width, height, x, y, dx, dy) {
+    // Moving up or down a row keeps to the column, which zigzags between the two neighbours below
+    return isOnBoard(width, height, x + dx, y + dy) ? { x: x + dx, y: y + dy } : null;
+  },
+  cellCentre(x, y, cellSize) {
+    const radius = hexRadius(cellSize);
+    return { x: (x + 0.5 + Math.abs(y % 2) / 2) * cellSize, y: radius + y * radius * 1.5 };
+  },
+  cellAt(px, py, width, height, cellSize) {
+    // The nearest centre wins; checking the rows either side covers where rows overlap
+    const radius = hexRadius(cellSize);
+    const row = Math.floor((py - radius / 2) / (radius * 1.5));
+    let best: Point | null = null;
+    let bestDistance = Infinity;
+
+    for (let y = row - 1; y <= row + 1; y++) {
+      const column = Math.floor(px / cellSize - Math.abs(y % 2) / 2);
+      for (let x = column - 1; x <= column + 1; x++) {
+        const centre = HEX_TOPOLOGY.cellCentre(x, y, cellSize);
+        const distance = Math.hypot(px - centre.x, py - centre.y);
+        if (distance < bestDistance) {
+          best = { x, y };
+          bestDistance = distance;
+        }
+      }
+    }
+
+    // Past the outer hexagons the nearest centre can still be more than a radius away
+    return best && bestDistance <= radius && isOnBoard(width, height, best.x, best.y) ? best : null;
+  },
+  boardSize(width, height, cellSize) {
+    const radius = hexRadius(cellSize);
+    return {
+      width: (width + (height > 1 ? 0.5 : 0)) * cellSize,
+      height: 2 * radius + (height - 1) * radius * 1.5
+    };
+  },
+  cellOutline(cellSize) {
+    const radius = hexRadius(cellSize);
+    return Array.from({ length: 6 }, (_, corner) => {
+      const angle = corner * Math.PI / 3;
+      return { x: Math.sin(angle) * radius, y: -Math.cos(angle) * radius };
+    });
+  }
+};
+
+const TOPOLOGIES: Record<GridTopology, Topology> = {
+  [GridTopology.SQUARE]: SQUARE_TOPOLOGY,
+  [GridTopology.TORUS]: TORUS_TOPOLOGY,
+  [GridTopology.HEX]: HEX_TOPOLOGY
+};
+
+export function getTopology(type: GridTopology = GridTopology.SQUARE): Topology {
+  return TOPOLOGIES[type];
+}
@@ -37,7 +37,7 @@ export interface IAdaptiveDifficultyManager {
 
 export interface IGameAnalyzer {
   analyzeGame(moves: Move[], finalBoard: IGameBoard): GameAnalysis;
-  identifySuboptimalMoves(moves: Move[]): Move[];
+  identifySuboptimalMoves(moves: Move[], finalBoard?: IGameBoard): Move[];
   generateImprovementSuggestions(analysis: GameAnalysis): string[];
   trackPerformanceTrends(analyses: GameAnalysis[]): string[];
   generateGameReplay(moves: Move[]): string[];
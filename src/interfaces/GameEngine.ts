@@ -1,28 +1,59 @@
-import { Cell, GameBoard, GameState, Move, DifficultySettings } from '@/types';
+import { Cell, GameBoard, GameState, GridTopology, Move, MoveAction, DifficultySettings, NeighbourhoodRule } from '@/types';
 
-export interface IGameBoard {
+/**
+ * Events raised as a board changes. Every payload carries the board that raised it.
+ */
+export interface BoardEventMap {
+  cellRevealed: { board: IGameBoard; cells: Cell[] }; // Every cell uncovered by one action, in reveal order
+  cellFlagged: { board: IGameBoard; cell: Cell };     // A flag or question mark was placed or cleared
+  gameStarted: { board: IGameBoard; cell: Cell };
+  gameWon: { board: IGameBoard };
+  gameLost: { board: IGameBoard; cell: Cell };        // cell is the mine that was revealed
+  minesRemainingChanged: { board: IGameBoard; minesRemaining: number };
+  boardExpanded: { board: IGameBoard; width: number; height: number; shiftX: number; shiftY: number }; // Existing cells moved by the shift
+}
+
+export type BoardEventName = keyof BoardEventMap;
+
+export type BoardEventListener<K extends BoardEventName> = (event: BoardEventMap[K]) => void;
+
+export interface IBoardEventSource {
+  on<K extends BoardEventName>(event: K, listener: BoardEventListener<K>): () => void;
+  off<K extends BoardEventName>(event: K, listener: BoardEventListener<K>): void;
+}
+
+export interface IGameBoard extends IBoardEventSource {
   getCell(x: number, y: number): Cell | null;
   getCells(): Cell[][];
   getWidth(): number;
   getHeight(): number;
   getMineCount(): number;
   getGameState(): GameState;
+  getSeed(): number;
+  getTopology(): GridTopology;
+  getNeighbourhood(): NeighbourhoodRule;
+  getMineDistribution(): string; // Id of the strategy that placed the mines
   revealCell(x: number, y: number): boolean;
+  revealCellBatch(x: number, y: number): Cell[];
   flagCell(x: number, y: number): boolean;
+  questionCell(x: number, y: number): boolean;
+  chordCell(x: number, y: number): boolean;
   isValidPosition(x: number, y: number): boolean;
   getAdjacentCells(x: number, y: number): Cell[];
   getRemainingMines(): number;
+  get3BV(): number;
+  getSolved3BV(): number;
   serialize(): string;
 }
 
 export interface IGameLogic {
   createBoard(settings: DifficultySettings): IGameBoard;
-  makeMove(board: IGameBoard, x: number, y: number, action: 'reveal' | 'flag'): boolean;
+  makeMove(board: IGameBoard, x: number, y: number, action: MoveAction): boolean;
   checkWinCondition(board: IGameBoard): boolean;
   checkLossCondition(board: IGameBoard): boolean;
   calculateAdjacentMines(board: IGameBoard, x: number, y: number): number;
   revealAdjacentCells(board: IGameBoard, x: number, y: number): void;
-  validateMove(board: IGameBoard, x: number, y: number, action: 'reveal' | 'flag'): boolean;
+  validateMove(board: IGameBoard, x: number, y: number, action: MoveAction): boolean;
 }
 
 export interface IStateManager {
@@ -30,7 +61,6 @@ export interface IStateManager {
   saveState(board: IGameBoard): void;
   loadState(): IGameBoard | null;
   getGameHistory(): Move[];
-  addMove(move: Move): void;
   canUndo(): boolean;
   undo(): IGameBoard | null;
   reset(): void;
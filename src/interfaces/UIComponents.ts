@@ -1,4 +1,4 @@
-import { GameBoard, HintSuggestion, GameAnalysis, GameConfig, ProbabilityMap } from '@/types';
+import { GameBoard, HintSuggestion, GameAnalysis, GameConfig, ProbabilityMap, EfficiencyStats } from '@/types';
 import { IGameBoard } from './GameEngine';
 
 export interface IGameRenderer {
@@ -46,4 +46,7 @@ export interface GameStats {
   gameState: string;
   winRate?: number;
   averageTime?: number;
+  efficiency?: EfficiencyStats;
+  score?: number;
+  scoringRuleset?: string; // Display name of the ruleset behind the score
 }
\ No newline at end of file
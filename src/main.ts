@@ -1,12 +1,30 @@
 // Main entry point for AI Minesweeper
-import { DifficultyLevel, HintSuggestion, GameState } from '@/types';
+import { DifficultyLevel, DifficultySettings, HintSuggestion, FirstClickPolicy, GameMode, GameState, GridTopology, MoveAction, NeighbourhoodRule } from '@/types';
 import { IGameBoard } from '@/interfaces/GameEngine';
+import { GameBoard } from '@/game/GameBoard';
 import { GameLogic } from '@/game/GameLogic';
+import { StateManager } from '@/game/StateManager';
+import { GameStorage } from '@/game/GameStorage';
+import { GameModeConfig, GameModeRun } from '@/game/GameModes';
+import { ChunkedBoard } from '@/game/ChunkedBoard';
+import { getNeighbourhood } from '@/game/Neighbourhood';
+import { DEFAULT_MINE_DISTRIBUTION, getMineDistribution } from '@/game/MineDistributions';
+import { PUZZLES, Puzzle, getPuzzle } from '@/game/Puzzles';
+import { SHAPE_PRESETS, ShapePreset, getShapePreset } from '@/game/BoardShapes';
+import { decodePosition, encodePosition } from '@/game/PositionCode';
+import { convertRawvf, createReplay, parseReplay, playReplay, serializeReplay } from '@/game/ReplayFormat';
+import { DAILY_CHALLENGE_LEVEL, DailyChallenge, createDailyChallenge, getChallengeDate } from '@/game/DailyChallenge';
 import { ProbabilityCalculator } from '@/ai/ProbabilityCalculator';
 import { ProbabilityCalculatorWithWorker } from '@/ai/ProbabilityCalculatorWithWorker';
+import { FrontierProbabilityCalculator } from '@/ai/FrontierProbabilityCalculator';
 import { HintEngine } from '@/ai/HintEngine';
+import { NoGuessGenerator } from '@/ai/NoGuessGenerator';
+import { PuzzlePlayer } from '@/ai/PuzzlePlayer';
+import { GameAnalyzer } from '@/ai/GameAnalyzer';
 import { GameRenderer } from '@/ui/GameRenderer';
 import { ProbabilityControls } from '@/ui/ProbabilityControls';
+import { BoardEditor, EditorTool } from '@/ui/BoardEditor';
+import { AnalysisViewer } from '@/ui/AnalysisViewer';
 import { ProbabilityDetailLevel } from '@/ui/ProbabilityVisualizer';
 import { AdaptiveDifficultyManager } from '@/adaptive/AdaptiveDifficultyManager';
 import { ProfileManager } from '@/adaptive/ProfileManager';
@@ -94,6 +112,46 @@ let currentProbabilities: any = null;
 let currentHint: HintSuggestion | null = null;
 let gameStartTime: Date | null = null;
 let currentGameId: string | null = null;
+let recordedGameId: string | null = null; // Last game whose result went to the profile
+let currentChallengeDate: string | null = null; // Set while playing a daily challenge
+let modeRun: GameModeRun | null = null; // Set while playing time attack, survival or countdown
+let modeTimer: number | null = null;
+const TIME_ATTACK_LIMIT = 180; // seconds
+const COUNTDOWN_BOARD_LIMIT = 60; // seconds per board
+const MODE_NEXT_BOARD_DELAY = 800; // ms
+let endlessBoard: ChunkedBoard | null = null; // Set while playing an endless game
+const ENDLESS_MODE = 'endless'; // Mode select value; endless games are not a GameModeRun
+const ENDLESS_VIEW = { width: 30, height: 16 }; // cells shown by the camera
+const frontierCalculator = new FrontierProbabilityCalculator();
+let puzzlePlayer: PuzzlePlayer | null = null; // Set while solving a hand-authored puzzle
+const boardEditor = new BoardEditor();
+let editorRenderer: GameRenderer | null = null; // Created the first time the editor opens
+const POSITION_HASH = '#position='; // Links to a shared position: #position=<code>
+const POSITION_GAME_PREFIX = 'position_'; // Game id prefix for boards opened from a link
+const REPLAY_GAME_PREFIX = 'replay_'; // Game id prefix for imported replays
+let replayViewer: AnalysisViewer | null = null; // Created the first time a replay is imported
+let noGuessMode = false;
+const NO_GUESS_CLICK_BUDGET = 250; // ms; generation runs inside the first click, so keep it short
+let currentTopology = GridTopology.SQUARE; // Grid shape for new classic games
+let currentNeighbourhood = NeighbourhoodRule.STANDARD; // Which cells numbers count in new classic games
+let currentShape: ShapePreset | null = null; // Outline for new classic games; a rectangle when null
+const noGuessGenerator = new NoGuessGenerator();
+const stateManager = new StateManager(gameLogic);
+const gameAnalyzer = new GameAnalyzer();
+
+// Board events drive cell redraws, the mine counter, autosave and game completion
+renderer.subscribeTo(gameLogic);
+gameLogic.on('minesRemainingChanged', () => updateGameInfo());
+gameLogic.on('cellRevealed', () => autosaveGame());
+gameLogic.on('cellFlagged', () => autosaveGame());
+gameLogic.on('cellRevealed', () => {
+  if (endlessBoard) updateGameModeStatus();
+});
+gameLogic.on('gameWon', () => processGameCompletion(true));
+gameLogic.on('gameLost', () => processGameCompletion(false));
+gameAnalyzer.subscribeTo(gameLogic, () => gameLogic.getGameHistory(), analysis => {
+  console.log(`Game analysis: ${analysis.optimalMoves}/${analysis.totalMoves} optimal moves`, analysis.strategicInsights);
+});
 
 // Initialize probability controls
 const probabilityControls = new ProbabilityControls({
@@ -120,29 +178,30 @@ const probabilityControls = new ProbabilityControls({
   }
 });
 
-// Create a new game
-async function createNewGame(): Promise<void> {
+// Create a new game, or the given daily challenge
+async function createNewGame(challenge?: DailyChallenge): Promise<void> {
   const measureId = performanceMonitor.startMeasure('create_new_game');
   
   try {
-    // Get current difficulty from adaptive difficulty manager
-    const difficulty = adaptiveDifficultyManager.getCurrentDifficulty();
+    // Leave any run and show the classic mode as selected again
+    stopGameMode();
+    leaveEndlessGame();
+    leavePuzzle();
+    const modeSelect = document.getElementById('gameModeSelect') as HTMLSelectElement | null;
+    if (modeSelect) modeSelect.value = '';
     
-    currentBoard = gameLogic.createBoard(difficulty);
-    if (currentBoard) {
-      // Use async calculation if available
-      if (probabilityCalculator instanceof ProbabilityCalculatorWithWorker) {
-        currentProbabilities = await probabilityCalculator.calculateProbabilities(currentBoard);
-      } else {
-        currentProbabilities = probabilityCalculator.calculateProbabilities(currentBoard);
-      }
-    }
-    currentHint = null;
-    gameStartTime = new Date();
-    currentGameId = `game_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
+    // Challenges use their own fixed board
+    const difficulty = challenge ? challenge.settings : getClassicSettings();
+    
+    // Never let the opening click lose the game unless the settings ask otherwise
+    const board = gameLogic.createBoard({ firstClickPolicy: FirstClickPolicy.SAFE, ...difficulty });
+    currentChallengeDate = challenge?.date ?? null;
+    await showNewBoard(board, challenge
+      ? `daily_${challenge.date}_${Date.now()}`
+      : `game_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`);
     
-    updateUI();
     updateDifficultyDisplay();
+    updateDailyChallengeStatus();
     
     console.log('New game created with difficulty:', difficulty);
   } catch (error) {
@@ -159,41 +218,333 @@ async function createNewGame(): Promise<void> {
   }
 }
 
-// Handle cell clicks
-async function handleCellClick(x: number, y: number, isRightClick: boolean = false): Promise<void> {
+// The adaptive difficulty on the chosen grid, rules and shape. A shape fixes the board to its
+// mask, with the mine count suggested for it.
+function getClassicSettings(): DifficultySettings {
+  const settings = { ...adaptiveDifficultyManager.getCurrentDifficulty(), topology: currentTopology, neighbourhood: currentNeighbourhood };
+  return currentShape ? {
+    ...settings,
+    width: currentShape.mask[0].length,
+    height: currentShape.mask.length,
+    mineCount: currentShape.mineCount,
+    mask: currentShape.mask
+  } : settings;
+}
+
+// Reset the per-game state around a freshly created board and draw it
+async function showNewBoard(board: IGameBoard, gameId: string): Promise<void> {
+  currentBoard = board;
+  stateManager.reset();
+  stateManager.saveState(currentBoard);
+  
+  // Use async calculation if available
+  await refreshProbabilities();
+  
+  currentHint = null;
+  gameStartTime = new Date();
+  currentGameId = gameId;
+  GameStorage.clearSavedGame();
+  
+  updateUI();
+}
+
+// Recalculate the probabilities for the current board (async if using worker)
+async function refreshProbabilities(): Promise<void> {
   if (!currentBoard) return;
   
-  const measureId = performanceMonitor.startMeasure('handle_cell_click', { x, y, isRightClick });
+  // Endless boards have no meaningful mine total, so only the frontier in view is calculated
+  if (endlessBoard) {
+    frontierCalculator.setRegion(renderer.getCamera());
+    currentProbabilities = frontierCalculator.calculateProbabilities(currentBoard);
+  } else if (probabilityCalculator instanceof ProbabilityCalculatorWithWorker) {
+    currentProbabilities = await probabilityCalculator.calculateProbabilities(currentBoard);
+  } else {
+    currentProbabilities = probabilityCalculator.calculateProbabilities(currentBoard);
+  }
+}
+
+// Start an endless game, drawn through a camera that follows the frontier
+async function startEndlessGame(): Promise<void> {
+  stopGameMode();
+  leaveEndlessGame();
+  leavePuzzle();
+  currentChallengeDate = null;
+  
+  const board = gameLogic.startGame(new ChunkedBoard());
+  endlessBoard = board;
+  const start = board.getStartCell();
+  renderer.setCamera(
+    start.x - Math.floor(ENDLESS_VIEW.width / 2),
+    start.y - Math.floor(ENDLESS_VIEW.height / 2),
+    ENDLESS_VIEW.width,
+    ENDLESS_VIEW.height
+  );
+  await showNewBoard(board, `endless_${Date.now()}`);
+  
+  // The start cell is always an opening, so play begins there
+  await handleCellClick(start.x, start.y, 'reveal');
+  updateGameModeStatus();
+}
+
+// Go back to drawing whole boards after an endless game
+function leaveEndlessGame(): void {
+  if (!endlessBoard) return;
+  endlessBoard = null;
+  renderer.clearCamera();
+  updateGameModeStatus();
+}
+
+// Load a puzzle; the player turns away moves that contradict its solution
+async function startPuzzle(puzzle: Puzzle): Promise<void> {
+  stopGameMode();
+  leaveEndlessGame();
+  currentChallengeDate = null;
+  const modeSelect = document.getElementById('gameModeSelect') as HTMLSelectElement | null;
+  if (modeSelect) modeSelect.value = '';
   
   try {
-    const action = isRightClick ? 'flag' : 'reveal';
-    const moveSuccessful = gameLogic.makeMove(currentBoard, x, y, action);
+    const player = new PuzzlePlayer(gameLogic, puzzle);
+    const board = player.start();
+    puzzlePlayer = player;
+    await showNewBoard(board, `puzzle_${puzzle.id}_${Date.now()}`);
+    updateGameModeStatus();
+  } catch (error) {
+    showErrorNotification(error instanceof Error ? error.message : String(error));
+  }
+}
+
+// Open the position in the URL hash, if there is one, as a new classic game
+async function openPositionFromHash(): Promise<boolean> {
+  if (!location.hash.startsWith(POSITION_HASH)) return false;
+  
+  try {
+    const board = decodePosition(location.hash.slice(POSITION_HASH.length));
+    stopGameMode();
+    leaveEndlessGame();
+    leavePuzzle();
+    currentChallengeDate = null;
+    gameLogic.startGame(board);
+    await showNewBoard(board, `${POSITION_GAME_PREFIX}${Date.now()}`);
+    return true;
+  } catch (error) {
+    showErrorNotification(error instanceof Error ? error.message : String(error));
+    return false;
+  }
+}
+
+// Put a link to the board as it stands in the address bar and on the clipboard
+function shareCurrentPosition(): void {
+  if (!(currentBoard instanceof GameBoard)) return;
+  
+  // Replacing the URL does not fire hashchange, so the game carries on
+  history.replaceState(null, '', `${location.pathname}${location.search}${POSITION_HASH}${encodePosition(currentBoard)}`);
+  navigator.clipboard?.writeText(location.href).then(
+    () => updateGameModeStatus('link copied'),
+    () => updateGameModeStatus('link in the address bar')
+  );
+}
+
+// Download the current game as a replay file
+function exportReplay(): void {
+  const log = gameLogic.getGameLog();
+  if (!log || !currentGameId) return;
+  
+  try {
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(new Blob([serializeReplay(createReplay(log))], { type: 'application/json' }));
+    link.download = `${currentGameId}.replay.json`;
+    link.click();
+    URL.revokeObjectURL(link.href);
+  } catch (error) {
+    showErrorNotification(error instanceof Error ? error.message : String(error));
+  }
+}
+
+// Open a replay file, ours or a RAWVF video, at its last move and list its moves in the viewer
+async function importReplayFile(file: File): Promise<void> {
+  try {
+    const text = await file.text();
+    const replay = text.trimStart().startsWith('{') ? parseReplay(text) : convertRawvf(text);
+    const { board, moves, log } = playReplay(replay);
+    stopGameMode();
+    leaveEndlessGame();
+    leavePuzzle();
+    currentChallengeDate = null;
+    gameLogic.restoreHistory(log, board);
+    await showNewBoard(board, `${REPLAY_GAME_PREFIX}${Date.now()}`);
+    getReplayViewer().showReplay(moves, log);
+  } catch (error) {
+    showErrorNotification(error instanceof Error ? error.message : String(error));
+  }
+}
+
+function getReplayViewer(): AnalysisViewer {
+  if (!replayViewer) {
+    replayViewer = new AnalysisViewer({
+      containerId: 'replayViewer',
+      // Stepping through draws the board at that move; play carries on from the last one
+      onReplayBoard: board => {
+        if (currentGameId?.startsWith(REPLAY_GAME_PREFIX)) renderer.render(board);
+      }
+    });
+  }
+  document.getElementById('replayViewer')!.hidden = false;
+  return replayViewer;
+}
+
+// Stop treating the board as a puzzle
+function leavePuzzle(): void {
+  if (!puzzlePlayer) return;
+  puzzlePlayer = null;
+  const puzzleSelect = document.getElementById('puzzleSelect') as HTMLSelectElement | null;
+  if (puzzleSelect) puzzleSelect.value = '';
+  updateGameModeStatus();
+}
+
+// Start a time attack, survival or countdown run at the current difficulty
+function startGameMode(mode: GameMode): void {
+  stopGameMode();
+  leaveEndlessGame();
+  leavePuzzle();
+  currentChallengeDate = null;
+  
+  const difficulty = adaptiveDifficultyManager.getCurrentDifficulty();
+  const config: GameModeConfig = mode === GameMode.TIME_ATTACK
+    ? { mode, difficulty, timeLimit: TIME_ATTACK_LIMIT }
+    : mode === GameMode.COUNTDOWN
+      ? { mode, difficulty, boardTimeLimit: COUNTDOWN_BOARD_LIMIT }
+      : { mode, difficulty };
+  
+  const run = new GameModeRun(gameLogic, config);
+  modeRun = run;
+  run.on('boardStarted', ({ board, boardNumber }) => {
+    showNewBoard(board, `${mode}_${Date.now()}_${boardNumber}`);
+  });
+  // Leave the finished board on screen for a moment before the next one
+  run.on('boardFinished', () => {
+    setTimeout(() => run.nextBoard(), MODE_NEXT_BOARD_DELAY);
+  });
+  run.on('runFinished', ({ result }) => {
+    const isPersonalBest = profileManager.recordGameModeResult(result);
+    console.log(`${mode} run finished with ${result.boardsCleared} boards cleared`, result);
+    updateGameModeStatus(isPersonalBest ? 'new personal best!' : undefined);
+  });
+  
+  run.start();
+  modeTimer = window.setInterval(() => {
+    run.update();
+    updateGameModeStatus();
+  }, 250);
+}
+
+// Abandon the current game mode run, if any
+function stopGameMode(): void {
+  if (modeTimer !== null) {
+    clearInterval(modeTimer);
+    modeTimer = null;
+  }
+  modeRun?.stop();
+  modeRun = null;
+  updateGameModeStatus();
+}
+
+// Show the clock, progress and personal best of the current run
+function updateGameModeStatus(note?: string): void {
+  const statusElement = document.getElementById('gameModeStatus');
+  if (!statusElement) return;
+  
+  if (endlessBoard) {
+    const over = endlessBoard.getGameState() === GameState.LOST ? ' | Game over' : '';
+    statusElement.textContent = `Endless | ${endlessBoard.getClearedCells()} cells cleared${over}`;
+    return;
+  }
+  if (puzzlePlayer) {
+    const parts = [`Puzzle: ${puzzlePlayer.getPuzzle().title}`, `${puzzlePlayer.getMistakes()} mistakes`];
+    if (puzzlePlayer.isSolved()) {
+      parts.push('solved');
+    }
+    if (note) {
+      parts.push(note);
+    }
+    statusElement.textContent = parts.join(' | ');
+    return;
+  }
+  if (!modeRun) {
+    statusElement.textContent = note ? `Classic | ${note}` : 'Classic';
+    return;
+  }
+  
+  const parts = [`${modeRun.getBoardsCleared()} cleared`];
+  const remaining = modeRun.getTimeRemaining();
+  if (remaining !== null) {
+    parts.push(`${remaining}s left`);
+  } else {
+    parts.push(`${(modeRun.getDensity() * 100).toFixed(0)}% mines`);
+  }
+  
+  const timeLimit = modeRun.getMode() === GameMode.TIME_ATTACK ? TIME_ATTACK_LIMIT
+    : modeRun.getMode() === GameMode.COUNTDOWN ? COUNTDOWN_BOARD_LIMIT : undefined;
+  const best = profileManager.getPersonalBest(modeRun.getMode(), timeLimit);
+  if (best) {
+    parts.push(`best ${best.boardsCleared}`);
+  }
+  if (modeRun.isFinished()) {
+    parts.unshift('Run over');
+  }
+  if (note) {
+    parts.push(note);
+  }
+  statusElement.textContent = parts.join(' | ');
+}
+
+// Handle cell clicks
+async function handleCellClick(x: number, y: number, action: MoveAction = 'reveal'): Promise<void> {
+  // A finished run leaves its last board on screen but closed for play
+  if (!currentBoard || modeRun?.isFinished()) return;
+  
+  const measureId = performanceMonitor.startMeasure('handle_cell_click', { x, y, action });
+  
+  try {
+    // In no-guess mode the layout is generated around the opening click (never for a challenge or endless board)
+    if (noGuessMode && !currentChallengeDate && !endlessBoard && !puzzlePlayer && action === 'reveal' && gameLogic.getMoveCount() === 0) {
+      prepareNoGuessBoard(x, y);
+    }
+
+    let moveSuccessful: boolean;
+    if (puzzlePlayer) {
+      const result = puzzlePlayer.play(x, y, action);
+      moveSuccessful = result === 'correct';
+      updateGameModeStatus(result === 'wrong' ? 'that move contradicts the numbers' : undefined);
+    } else {
+      moveSuccessful = gameLogic.makeMove(currentBoard, x, y, action);
+    }
     
     if (moveSuccessful) {
+      stateManager.saveState(currentBoard);
+
       // Clear current hint when a move is made
+      const hadHint = currentHint !== null;
       currentHint = null;
       
-      // Recalculate probabilities after move (async if using worker)
-      if (probabilityCalculator instanceof ProbabilityCalculatorWithWorker) {
-        currentProbabilities = await probabilityCalculator.calculateProbabilities(currentBoard);
-      } else {
-        currentProbabilities = probabilityCalculator.calculateProbabilities(currentBoard);
-      }
+      // Recalculate probabilities after move
+      await refreshProbabilities();
       
-      // Check if game is finished and process result
-      const gameState = currentBoard.getGameState();
-      if (gameState === GameState.WON || gameState === GameState.LOST) {
-        processGameCompletion(gameState === GameState.WON);
+      // The renderer already redrew the changed cells; a full pass is only needed
+      // to refresh the probability overlay or erase a hint highlight
+      const showingProbabilities = renderer.getProbabilityVisualizer().getDetailLevel() !== ProbabilityDetailLevel.OFF;
+      if (showingProbabilities || hadHint) {
+        updateUI();
+      } else {
+        updateGameInfo();
+        updatePracticeControls();
       }
-      
-      updateUI();
     }
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
     errorHandler.handleError(
       ErrorType.GAME_LOGIC,
       'Failed to handle cell click',
-      { x, y, isRightClick, error: errorMessage },
+      { x, y, action, error: errorMessage },
       'handleCellClick',
       error instanceof Error ? error : new Error(String(error))
     );
@@ -202,10 +553,75 @@ async function handleCellClick(x: number, y: number, isRightClick: boolean = fal
   }
 }
 
+// Persist the game in progress so a reload can resume it
+function autosaveGame(): void {
+  // Runs, endless games and puzzles are not resumable, so their boards are not saved either
+  if (!currentBoard || !currentGameId || !gameStartTime || modeRun || endlessBoard || puzzlePlayer) return;
+  
+  // Finished games are not resumable
+  if (gameLogic.isGameFinished(currentBoard)) {
+    GameStorage.clearSavedGame();
+    return;
+  }
+  
+  GameStorage.saveGame(currentBoard, gameLogic, currentGameId, Date.now() - gameStartTime.getTime(), stateManager.wasAssisted());
+}
+
+// Continue the autosaved game, if there is one
+async function resumeSavedGame(): Promise<boolean> {
+  const savedGame = GameStorage.loadGame();
+  if (!savedGame) return false;
+  
+  currentBoard = savedGame.board;
+  gameLogic.restoreSession(savedGame.session);
+  gameLogic.attachBoard(currentBoard);
+  stateManager.reset();
+  stateManager.saveState(currentBoard);
+  if (savedGame.assisted) {
+    stateManager.markAssisted();
+  }
+  currentGameId = savedGame.gameId;
+  currentChallengeDate = /^daily_(\d{4}-\d{2}-\d{2})_/.exec(savedGame.gameId)?.[1] ?? null;
+  gameStartTime = new Date(Date.now() - savedGame.elapsedTime);
+  currentHint = null;
+  
+  await refreshProbabilities();
+  
+  updateUI();
+  updateDifficultyDisplay();
+  
+  console.log(`Resumed saved game ${savedGame.gameId} after ${gameLogic.getMoveCount()} moves`);
+  return true;
+}
+
+// Replace the pending board with one that can be cleared by logic from (x, y)
+function prepareNoGuessBoard(x: number, y: number): void {
+  // Same grid, rules and shape as createNewGame(), so the solver checks the game that will be played
+  const generation = noGuessGenerator.generate(getClassicSettings(), { firstClick: { x, y }, timeBudget: NO_GUESS_CLICK_BUDGET });
+  
+  currentBoard = gameLogic.createBoard(generation.settings);
+  stateManager.reset();
+  stateManager.saveState(currentBoard);
+  
+  console.log(`No-guess board generated in ${generation.attempts} attempts (${generation.elapsedTime}ms)`);
+  if (!generation.noGuess) {
+    showErrorNotification('Could not find a no-guess layout in time. This board may require guessing.');
+  }
+}
+
 // Process game completion and update difficulty
 function processGameCompletion(won: boolean): void {
   if (!currentBoard || !gameStartTime || !currentGameId) return;
   
+  // Boards in a run count towards the run result instead of the profile and adaptive difficulty,
+  // and endless games, puzzles, shared positions and imported replays have no result to record
+  if (modeRun || endlessBoard || puzzlePlayer || currentGameId.startsWith(POSITION_GAME_PREFIX) ||
+      currentGameId.startsWith(REPLAY_GAME_PREFIX)) return;
+  
+  // Undoing the finishing move and finishing again is still the same game
+  if (currentGameId === recordedGameId) return;
+  recordedGameId = currentGameId;
+  
   const endTime = new Date();
   const playTime = Math.floor((endTime.getTime() - gameStartTime.getTime()) / 1000);
   const hintsUsed = gameLogic.getHintsUsedCount();
@@ -217,10 +633,16 @@ function processGameCompletion(won: boolean): void {
     won,
     playTime,
     hintsUsed,
-    difficulty: difficulty.level,
+    difficulty: currentChallengeDate ? DAILY_CHALLENGE_LEVEL : difficulty.level,
     timestamp: endTime,
     boardSize: { width: currentBoard.getWidth(), height: currentBoard.getHeight() },
-    mineCount: currentBoard.getMineCount()
+    mineCount: currentBoard.getMineCount(),
+    assisted: stateManager.wasAssisted(),
+    efficiency: gameLogic.getEfficiencyStats(),
+    score: gameLogic.getScore(),
+    scoringRuleset: gameLogic.getScoringRuleset().id,
+    mineDistribution: currentBoard.getMineDistribution(),
+    dailyChallenge: currentChallengeDate ?? undefined
   };
   
   // Record result in profile manager
@@ -236,10 +658,43 @@ function processGameCompletion(won: boolean): void {
   
   // Display notifications
   displayDifficultyNotifications();
+  updateDailyChallengeStatus();
   
   console.log(`Game ${won ? 'won' : 'lost'} in ${playTime}s with ${hintsUsed} hints`);
 }
 
+// Swap in a board restored by undo, redo or a checkpoint
+async function applyRestoredBoard(board: IGameBoard | null): Promise<void> {
+  if (!board) return;
+  
+  currentBoard = board;
+  currentHint = null;
+  autosaveGame();
+  
+  await refreshProbabilities();
+  
+  updateUI();
+}
+
+// Update undo/redo buttons and the checkpoint list
+function updatePracticeControls(): void {
+  const undoBtn = document.getElementById('undoBtn') as HTMLButtonElement | null;
+  const redoBtn = document.getElementById('redoBtn') as HTMLButtonElement | null;
+  const checkpointSelect = document.getElementById('checkpointSelect') as HTMLSelectElement | null;
+  
+  // Undo would let a run replay a lost board, the snapshots cannot restore an endless board,
+  // and a puzzle keeps playing the board it loaded
+  const undoAvailable = modeRun === null && endlessBoard === null && puzzlePlayer === null;
+  if (undoBtn) undoBtn.disabled = !undoAvailable || !stateManager.canUndo();
+  if (redoBtn) redoBtn.disabled = !undoAvailable || !stateManager.canRedo();
+  
+  if (checkpointSelect) {
+    checkpointSelect.disabled = !undoAvailable || !stateManager.isPracticeMode();
+    checkpointSelect.innerHTML = '<option value="">Restore checkpoint...</option>' +
+      stateManager.getCheckpointNames().map(name => `<option value="${name}">${name}</option>`).join('');
+  }
+}
+
 // Handle hint request
 function handleHintRequest(): void {
   if (!currentBoard || !currentProbabilities) return;
@@ -252,6 +707,7 @@ function handleHintRequest(): void {
     
     // Store hint in game logic for analysis
     gameLogic.recordHintUsage(hint);
+    autosaveGame();
     
     console.log(`Hint generated: ${hint.action} cell (${hint.cell.x}, ${hint.cell.y}) - ${hint.reasoning}`);
     
@@ -275,6 +731,7 @@ function updateUI(): void {
   
   // Update game info
   updateGameInfo();
+  updatePracticeControls();
 }
 
 // Update game information display
@@ -284,6 +741,8 @@ function updateGameInfo(): void {
   const mineCountElement = document.getElementById('mineCount');
   const gameStatusElement = document.getElementById('gameStatus');
   const hintsUsedElement = document.getElementById('hintsUsed');
+  const efficiencyElement = document.getElementById('efficiencyStats');
+  const scoreElement = document.getElementById('score');
   
   if (mineCountElement) {
     mineCountElement.textContent = currentBoard.getRemainingMines().toString();
@@ -291,12 +750,25 @@ function updateGameInfo(): void {
   
   if (gameStatusElement) {
     const gameState = currentBoard.getGameState();
-    gameStatusElement.textContent = gameState.charAt(0).toUpperCase() + gameState.slice(1);
+    const rule = currentBoard.getNeighbourhood();
+    // Variant rules change what every number means, so keep them in sight
+    gameStatusElement.textContent = gameState.charAt(0).toUpperCase() + gameState.slice(1) +
+      (rule === NeighbourhoodRule.STANDARD ? '' : ` | ${getNeighbourhood(rule).label} numbers`);
   }
   
   if (hintsUsedElement) {
     hintsUsedElement.textContent = gameLogic.getHintsUsedCount().toString();
   }
+  
+  if (scoreElement) {
+    scoreElement.textContent = `${gameLogic.getScore()} (${gameLogic.getScoringRuleset().name})`;
+  }
+  
+  if (efficiencyElement) {
+    const efficiency = gameLogic.getEfficiencyStats();
+    efficiencyElement.textContent = `3BV: ${efficiency.solved3BV}/${efficiency.threeBV} | ` +
+      `3BV/s: ${efficiency.threeBVPerSecond.toFixed(2)} | IOE: ${efficiency.ioe.toFixed(2)}`;
+  }
 }
 
 // Update difficulty display
@@ -305,8 +777,28 @@ function updateDifficultyDisplay(): void {
   if (difficultyElement) {
     const difficulty = adaptiveDifficultyManager.getCurrentDifficulty();
     const density = ((difficulty.mineCount / (difficulty.width * difficulty.height)) * 100).toFixed(1);
-    difficultyElement.textContent = `${difficulty.level} (${difficulty.width}×${difficulty.height}, ${difficulty.mineCount} mines, ${density}% density)`;
+    const distribution = getMineDistribution(difficulty.mineDistribution ?? DEFAULT_MINE_DISTRIBUTION);
+    difficultyElement.textContent = `${difficulty.level} (${difficulty.width}×${difficulty.height}, ${difficulty.mineCount} mines, ${density}% density` +
+      `${distribution && distribution.id !== DEFAULT_MINE_DISTRIBUTION ? `, ${distribution.name.toLowerCase()}` : ''})`;
+  }
+}
+
+// Show today's challenge progress from the player profile
+function updateDailyChallengeStatus(): void {
+  const statusElement = document.getElementById('dailyChallengeStatus');
+  if (!statusElement) return;
+  
+  const date = getChallengeDate();
+  const record = profileManager.getCurrentProfile()?.getDailyChallengeRecord(date);
+  if (!record) {
+    statusElement.textContent = `${date}: not attempted`;
+    return;
   }
+  
+  const attempts = `${record.attempts} attempt${record.attempts === 1 ? '' : 's'}`;
+  statusElement.textContent = record.completed
+    ? `${date}: completed in ${record.bestTime}s (${attempts})`
+    : `${date}: ${attempts}, not completed`;
 }
 
 // Display difficulty notifications
@@ -367,10 +859,118 @@ function createDifficultyControls(): void {
       ).join('')}
     </div>
     <p>Current: <span id="currentDifficulty">Loading...</span></p>
+    <button id="dailyChallengeBtn">Daily Challenge</button>
+    <label>
+      Mode:
+      <select id="gameModeSelect">
+        <option value="">Classic</option>
+        <option value="${GameMode.TIME_ATTACK}">Time attack (${TIME_ATTACK_LIMIT / 60} min)</option>
+        <option value="${GameMode.SURVIVAL}">Survival</option>
+        <option value="${GameMode.COUNTDOWN}">Countdown (${COUNTDOWN_BOARD_LIMIT}s per board)</option>
+        <option value="${ENDLESS_MODE}">Endless</option>
+      </select>
+    </label>
+    <label>
+      Puzzle:
+      <select id="puzzleSelect">
+        <option value="">None</option>
+        ${PUZZLES.map(puzzle => `<option value="${puzzle.id}">${puzzle.title}</option>`).join('')}
+      </select>
+    </label>
+    <p>Run: <span id="gameModeStatus">Classic</span></p>
+    <label>
+      Grid:
+      <select id="topologySelect">
+        <option value="${GridTopology.SQUARE}">Square</option>
+        <option value="${GridTopology.TORUS}">Torus (edges wrap)</option>
+        <option value="${GridTopology.HEX}">Hexagonal</option>
+      </select>
+    </label>
+    <label>
+      Numbers count:
+      <select id="neighbourhoodSelect">
+        ${Object.values(NeighbourhoodRule).map(rule =>
+          `<option value="${rule}">${getNeighbourhood(rule).label}</option>`
+        ).join('')}
+      </select>
+    </label>
+    <label>
+      Shape:
+      <select id="shapeSelect">
+        <option value="">Rectangle</option>
+        ${SHAPE_PRESETS.map(preset => `<option value="${preset.id}">${preset.name}</option>`).join('')}
+      </select>
+    </label>
+    <p>Daily challenge: <span id="dailyChallengeStatus">Loading...</span></p>
+    <label>
+      <input type="checkbox" id="noGuessToggle">
+      No-guess boards
+    </label>
+    <label>
+      <input type="checkbox" id="questionMarksToggle">
+      Question marks (flag, ?, clear)
+    </label>
     <div class="adaptive-info">
       <p><small>Difficulty automatically adjusts based on your performance</small></p>
     </div>
   `;
+  
+  document.getElementById('noGuessToggle')?.addEventListener('change', async (e) => {
+    noGuessMode = (e.target as HTMLInputElement).checked;
+    await createNewGame();
+  });
+  
+  document.getElementById('topologySelect')?.addEventListener('change', async (e) => {
+    currentTopology = (e.target as HTMLSelectElement).value as GridTopology;
+    // The variant rules are laid out on square cells, so hex grids keep the standard rule
+    const neighbourhoodSelect = document.getElementById('neighbourhoodSelect') as HTMLSelectElement | null;
+    if (currentTopology === GridTopology.HEX) {
+      currentNeighbourhood = NeighbourhoodRule.STANDARD;
+    }
+    if (neighbourhoodSelect) {
+      neighbourhoodSelect.value = currentNeighbourhood;
+      neighbourhoodSelect.disabled = currentTopology === GridTopology.HEX;
+    }
+    await createNewGame();
+  });
+  
+  document.getElementById('neighbourhoodSelect')?.addEventListener('change', async (e) => {
+    currentNeighbourhood = (e.target as HTMLSelectElement).value as NeighbourhoodRule;
+    await createNewGame();
+  });
+  
+  document.getElementById('shapeSelect')?.addEventListener('change', async (e) => {
+    currentShape = getShapePreset((e.target as HTMLSelectElement).value) ?? null;
+    await createNewGame();
+  });
+  
+  document.getElementById('gameModeSelect')?.addEventListener('change', async (e) => {
+    const mode = (e.target as HTMLSelectElement).value as GameMode | typeof ENDLESS_MODE | '';
+    if (mode === ENDLESS_MODE) {
+      await startEndlessGame();
+    } else if (mode) {
+      startGameMode(mode);
+    } else {
+      await createNewGame();
+    }
+  });
+  
+  document.getElementById('puzzleSelect')?.addEventListener('change', async (e) => {
+    const puzzle = getPuzzle((e.target as HTMLSelectElement).value);
+    if (puzzle) {
+      await startPuzzle(puzzle);
+    } else {
+      await createNewGame();
+    }
+  });
+  
+  document.getElementById('dailyChallengeBtn')?.addEventListener('click', async () => {
+    await createNewGame(createDailyChallenge());
+  });
+  
+  document.getElementById('questionMarksToggle')?.addEventListener('change', (e) => {
+    gameLogic.setQuestionMarksEnabled((e.target as HTMLInputElement).checked);
+  });
 }
 
 // Canvas event listeners for mouse
@@ -380,21 +980,63 @@ canvas.addEventListener('click', async (e) => {
   const mouseY = e.clientY - rect.top;
   
   const cellCoords = renderer.screenToCell(mouseX, mouseY);
-  if (cellCoords) {
-    await handleCellClick(cellCoords.x, cellCoords.y, false);
+  if (cellCoords && !chordGesture) {
+    await handleCellClick(cellCoords.x, cellCoords.y, 'reveal');
   }
 });
 
-canvas.addEventListener('contextmenu', async (e) => {
+// Right-click flags on release (see mouseup), so the menu only needs suppressing
+canvas.addEventListener('contextmenu', (e) => {
   e.preventDefault();
-  
+});
+
+// Chording: middle-click, or press left and right together on a satisfied number
+let chordGesture = false;
+let flagPending = false; // Right button is down on its own; a left press joining in makes it a chord
+
+function getCellFromMouseEvent(e: MouseEvent): { x: number; y: number } | null {
   const rect = canvas.getBoundingClientRect();
-  const mouseX = e.clientX - rect.left;
-  const mouseY = e.clientY - rect.top;
-  
-  const cellCoords = renderer.screenToCell(mouseX, mouseY);
+  return renderer.screenToCell(e.clientX - rect.left, e.clientY - rect.top);
+}
+
+canvas.addEventListener('mousedown', (e) => {
+  if (e.button === 1) {
+    e.preventDefault(); // Suppress middle-click autoscroll
+  }
+  if ((e.buttons & 3) === 3) {
+    chordGesture = true;
+    flagPending = false;
+  } else if (e.button === 2) {
+    flagPending = true;
+  }
+});
+
+canvas.addEventListener('mouseup', async (e) => {
+  if (e.button === 2 && flagPending) {
+    flagPending = false;
+    const cellCoords = getCellFromMouseEvent(e);
+    if (cellCoords) {
+      await handleCellClick(cellCoords.x, cellCoords.y, 'flag');
+    }
+    return;
+  }
+  if (!chordGesture || (e.buttons & 3) !== 0) return;
+
+  // Keep the gesture alive until the trailing click event has been ignored
+  setTimeout(() => { chordGesture = false; }, 0);
+
+  const cellCoords = getCellFromMouseEvent(e);
   if (cellCoords) {
-    await handleCellClick(cellCoords.x, cellCoords.y, true);
+    await handleCellClick(cellCoords.x, cellCoords.y, 'chord');
+  }
+});
+
+canvas.addEventListener('auxclick', async (e) => {
+  if (e.button !== 1) return;
+
+  const cellCoords = getCellFromMouseEvent(e);
+  if (cellCoords) {
+    await handleCellClick(cellCoords.x, cellCoords.y, 'chord');
   }
 });
 
@@ -412,13 +1054,19 @@ canvas.addEventListener('mousemove', (e) => {
 canvas.addEventListener('cellTap', async (e: Event) => {
   const customEvent = e as CustomEvent;
   const { x, y } = customEvent.detail;
-  await handleCellClick(x, y, false);
+  await handleCellClick(x, y, 'reveal');
 });
 
 canvas.addEventListener('cellLongPress', async (e: Event) => {
   const customEvent = e as CustomEvent;
   const { x, y } = customEvent.detail;
-  await handleCellClick(x, y, true);
+  await handleCellClick(x, y, 'flag');
+});
+
+canvas.addEventListener('cellChord', async (e: Event) => {
+  const customEvent = e as CustomEvent;
+  const { x, y } = customEvent.detail;
+  await handleCellClick(x, y, 'chord');
 });
 
 // Canvas event listeners for accessibility
@@ -437,7 +1085,42 @@ renderer.adaptLayoutForScreen();
 
 // Control button event listeners
 document.getElementById('newGameBtn')?.addEventListener('click', async () => {
-  await createNewGame();
+  // During a run or an endless game, a new game restarts it
+  if (modeRun) {
+    startGameMode(modeRun.getMode());
+  } else if (endlessBoard) {
+    await startEndlessGame();
+  } else {
+    await createNewGame();
+  }
+});
+
+document.getElementById('editorBtn')?.addEventListener('click', () => {
+  openBoardEditor();
+});
+
+document.getElementById('sharePositionBtn')?.addEventListener('click', () => {
+  shareCurrentPosition();
+});
+
+document.getElementById('exportReplayBtn')?.addEventListener('click', () => {
+  exportReplay();
+});
+
+document.getElementById('importReplayBtn')?.addEventListener('click', () => {
+  document.getElementById('replayFileInput')?.click();
+});
+
+document.getElementById('replayFileInput')?.addEventListener('change', async (event) => {
+  const input = event.target as HTMLInputElement;
+  const file = input.files?.[0];
+  input.value = ''; // Choosing the same file again still fires change
+  if (file) await importReplayFile(file);
+});
+
+// Links pasted into an open tab only change the hash
+window.addEventListener('hashchange', () => {
+  openPositionFromHash();
 });
 
 document.getElementById('hintBtn')?.addEventListener('click', () => {
@@ -452,6 +1135,33 @@ document.getElementById('toggleProbabilityBtn')?.addEventListener('click', () =>
   updateUI();
 });
 
+// Practice mode event listeners
+document.getElementById('undoBtn')?.addEventListener('click', async () => {
+  await applyRestoredBoard(stateManager.undo());
+});
+
+document.getElementById('redoBtn')?.addEventListener('click', async () => {
+  await applyRestoredBoard(stateManager.redo());
+});
+
+document.getElementById('practiceModeToggle')?.addEventListener('change', (e) => {
+  stateManager.setPracticeMode((e.target as HTMLInputElement).checked);
+  updatePracticeControls();
+});
+
+document.getElementById('saveCheckpointBtn')?.addEventListener('click', () => {
+  if (stateManager.createCheckpoint(`Move ${gameLogic.getMoveCount()}`)) {
+    updatePracticeControls();
+  }
+});
+
+document.getElementById('checkpointSelect')?.addEventListener('change', async (e) => {
+  const name = (e.target as HTMLSelectElement).value;
+  if (name) {
+    await applyRestoredBoard(stateManager.restoreCheckpoint(name));
+  }
+});
+
 // Accessibility control event listeners
 document.getElementById('highContrastToggle')?.addEventListener('change', (e) => {
   const enabled = (e.target as HTMLInputElement).checked;
@@ -469,6 +1179,145 @@ document.getElementById('focusGameBtn')?.addEventListener('click', () => {
   renderer.focus();
 });
 
+// Board editor: author a position, watch what the solver can deduce, then play or share it
+function openBoardEditor(): void {
+  const panel = document.getElementById('boardEditor');
+  const editorCanvas = document.getElementById('editorCanvas') as HTMLCanvasElement | null;
+  if (!panel || !editorCanvas) return;
+  
+  if (!editorRenderer) {
+    editorRenderer = new GameRenderer(editorCanvas);
+    editorRenderer.getProbabilityVisualizer().setDetailLevel(ProbabilityDetailLevel.LOW);
+    createEditorControls();
+    editorCanvas.addEventListener('click', (e) => {
+      const rect = editorCanvas.getBoundingClientRect();
+      const cellCoords = editorRenderer?.screenToCell(e.clientX - rect.left, e.clientY - rect.top);
+      if (cellCoords && boardEditor.applyTool(cellCoords.x, cellCoords.y)) {
+        renderEditor();
+      }
+    });
+  }
+  
+  // Start from the board in play; endless boards have no fixed size to copy
+  if (currentBoard && !endlessBoard) {
+    boardEditor.loadBoard(currentBoard);
+  }
+  panel.hidden = false;
+  renderEditor();
+}
+
+// Redraw the edited position and say how much of it logic can settle
+function renderEditor(): void {
+  if (!editorRenderer) return;
+  boardEditor.render(editorRenderer);
+  
+  const statusElement = document.getElementById('editorStatus');
+  if (statusElement) {
+    const hidden = boardEditor.getBoard().getCells().flat().filter(cell => !cell.isRevealed && !cell.isMasked).length;
+    statusElement.textContent = `${boardEditor.getDeducibleCells().size} of ${hidden} hidden cells deducible`;
+  }
+}
+
+// Show an export or share code in the editor's output box
+function showEditorOutput(text: string): void {
+  const output = document.getElementById('editorOutput') as HTMLTextAreaElement | null;
+  if (output) output.value = text;
+}
+
+function createEditorControls(): void {
+  const controlsContainer = document.getElementById('editorControls');
+  if (!controlsContainer) return;
+  
+  controlsContainer.innerHTML = `
+    <h3>Board Editor</h3>
+    <label>
+      Tool:
+      <select id="editorToolSelect">
+        <option value="mine">Place mines</option>
+        <option value="reveal">Reveal cells</option>
+        <option value="hole">Cut holes</option>
+      </select>
+    </label>
+    <p>
+      <input type="number" id="editorWidth" min="1" max="30" value="9"> x
+      <input type="number" id="editorHeight" min="1" max="30" value="9">
+      <button id="editorResizeBtn">Clear</button>
+    </p>
+    <label>
+      Shape:
+      <select id="editorShapeSelect">
+        <option value="">Rectangle</option>
+        ${SHAPE_PRESETS.map(preset => `<option value="${preset.id}">${preset.name}</option>`).join('')}
+      </select>
+    </label>
+    <p>
+      <input type="number" id="editorMines" min="0" value="10"> mines from seed
+      <input type="number" id="editorSeed" min="0" value="1">
+      <button id="editorSeedBtn">Load</button>
+    </p>
+    <p>Solver: <span id="editorStatus"></span></p>
+    <button id="editorPlayBtn">Play</button>
+    <button id="editorExportBoardBtn">Export Board</button>
+    <button id="editorExportPuzzleBtn">Export Puzzle</button>
+    <button id="editorShareBtn">Share</button>
+    <textarea id="editorOutput" rows="6" cols="40" placeholder="Paste a share code here to open it"></textarea>
+    <button id="editorLoadCodeBtn">Open Code</button>
+    <button id="editorCloseBtn">Close</button>
+  `;
+  
+  const numberInput = (id: string) => Number((document.getElementById(id) as HTMLInputElement | null)?.value);
+  const run = (action: () => void) => {
+    try {
+      action();
+      renderEditor();
+    } catch (error) {
+      showErrorNotification(error instanceof Error ? error.message : String(error));
+    }
+  };
+  
+  document.getElementById('editorToolSelect')?.addEventListener('change', (e) => {
+    boardEditor.setTool((e.target as HTMLSelectElement).value as EditorTool);
+  });
+  document.getElementById('editorResizeBtn')?.addEventListener('click', () => {
+    run(() => boardEditor.resize(numberInput('editorWidth'), numberInput('editorHeight')));
+  });
+  document.getElementById('editorShapeSelect')?.addEventListener('change', (e) => {
+    const preset = getShapePreset((e.target as HTMLSelectElement).value);
+    run(() => preset
+      ? boardEditor.setShape(preset.mask)
+      : boardEditor.resize(numberInput('editorWidth'), numberInput('editorHeight')));
+  });
+  document.getElementById('editorSeedBtn')?.addEventListener('click', () => {
+    run(() => boardEditor.loadSeed({
+      width: numberInput('editorWidth'),
+      height: numberInput('editorHeight'),
+      mineCount: numberInput('editorMines'),
+      level: DifficultyLevel.CUSTOM,
+      seed: numberInput('editorSeed')
+    }));
+  });
+  document.getElementById('editorPlayBtn')?.addEventListener('click', () => {
+    run(() => startPuzzle(boardEditor.exportPuzzle(`editor_${Date.now()}`, 'Editor position')));
+  });
+  document.getElementById('editorExportBoardBtn')?.addEventListener('click', () => {
+    run(() => showEditorOutput(boardEditor.exportBoard()));
+  });
+  document.getElementById('editorExportPuzzleBtn')?.addEventListener('click', () => {
+    run(() => showEditorOutput(JSON.stringify(boardEditor.exportPuzzle('my-puzzle', 'My Puzzle'), null, 2)));
+  });
+  document.getElementById('editorShareBtn')?.addEventListener('click', () => {
+    run(() => showEditorOutput(boardEditor.getShareCode()));
+  });
+  document.getElementById('editorLoadCodeBtn')?.addEventListener('click', () => {
+    const output = document.getElementById('editorOutput') as HTMLTextAreaElement | null;
+    run(() => boardEditor.loadShareCode(output?.value ?? ''));
+  });
+  document.getElementById('editorCloseBtn')?.addEventListener('click', () => {
+    const panel = document.getElementById('boardEditor');
+    if (panel) panel.hidden = true;
+  });
+}
+
 // Helper function to show error notifications
 function showErrorNotification(message: string): void {
   const notificationContainer = document.getElementById('errorNotifications');
@@ -529,9 +1378,16 @@ setInterval(() => {
 (window as any).handleDifficultyChange = handleDifficultyChange;
 (window as any).showPerformanceStats = showPerformanceStats;
 
-// Initialize difficulty controls and game
+// Initialize difficulty controls, then open a linked position, resume the autosaved game or start a new one
 createDifficultyControls();
-createNewGame();
+updateDailyChallengeStatus();
+openPositionFromHash()
+  .then(opened => opened || resumeSavedGame())
+  .then(started => {
+    if (!started) {
+      createNewGame();
+    }
+  });
 
 // Log successful initialization
 console.log('AI Minesweeper setup complete!');
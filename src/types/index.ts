@@ -10,7 +10,8 @@ export enum GameState {
 export enum CellState {
   HIDDEN = 'hidden',
   REVEALED = 'revealed',
-  FLAGGED = 'flagged'
+  FLAGGED = 'flagged',
+  QUESTIONED = 'questioned'
 }
 
 export enum DifficultyLevel {
@@ -20,6 +21,25 @@ export enum DifficultyLevel {
   CUSTOM = 'custom'
 }
 
+export enum FirstClickPolicy {
+  SAFE = 'safe', // First revealed cell is never a mine
+  ZERO = 'zero', // First revealed cell and its neighbours are mine-free, guaranteeing an opening
+  NONE = 'none'  // Mines are placed up front with no guarantee
+}
+
+export enum GridTopology {
+  SQUARE = 'square', // Eight neighbours, the edges are walls
+  TORUS = 'torus',   // Eight neighbours, opposite edges join up
+  HEX = 'hex'        // Six neighbours, odd rows shifted half a cell right
+}
+
+export enum NeighbourhoodRule {
+  STANDARD = 'standard',     // Whatever the grid treats as touching
+  ORTHOGONAL = 'orthogonal', // Only the four cells sharing an edge
+  KNIGHT = 'knight',         // The eight cells a chess knight could jump to
+  RADIUS_2 = 'radius2'       // Every cell within two steps, 24 in all
+}
+
 export enum SkillArea {
   PATTERN_RECOGNITION = 'pattern_recognition',
   PROBABILITY_ANALYSIS = 'probability_analysis',
@@ -33,6 +53,8 @@ export interface Cell {
   isMine: boolean;
   isRevealed: boolean;
   isFlagged: boolean;
+  isQuestioned?: boolean; // "?" marker - a player note, the cell is still unknown
+  isMasked?: boolean; // A hole in a shaped board - not part of the game
   adjacentMines: number;
   probability?: number;
 }
@@ -81,20 +103,84 @@ export interface GameAnalysis {
   skillDemonstrated: SkillArea[];
 }
 
+export type MoveAction = 'reveal' | 'flag' | 'chord';
+
 export interface Move {
   cell: { x: number; y: number };
-  action: 'reveal' | 'flag';
+  action: MoveAction;
   timestamp: Date;
-  boardState: string; // Serialized board state
   wasOptimal: boolean;
   alternativeOptions: HintSuggestion[];
 }
 
+/**
+ * Clicks made during a game, including ones that changed nothing
+ */
+export interface ClickCounts {
+  left: number;  // Reveals
+  right: number; // Flags and question marks
+  chord: number;
+}
+
+/**
+ * Standard efficiency metrics based on the board's 3BV
+ */
+export interface EfficiencyStats {
+  threeBV: number;          // Minimum number of clicks needed to clear the board
+  solved3BV: number;        // Part of the 3BV cleared so far
+  threeBVPerSecond: number;
+  ioe: number;              // Solved 3BV per click
+  throughput: number;       // Solved 3BV per click that changed the board
+  completion: number;       // Percentage of the 3BV solved
+  clicks: ClickCounts;
+}
+
+/**
+ * Timed and chained modes played over a series of boards
+ */
+export enum GameMode {
+  TIME_ATTACK = 'time_attack', // Clear as many boards as possible before the clock runs out
+  SURVIVAL = 'survival',       // Every cleared board is followed by a denser one until the first loss
+  COUNTDOWN = 'countdown'      // Every board has its own time limit
+}
+
+export interface TimeAttackResult {
+  mode: GameMode.TIME_ATTACK;
+  boardsCleared: number;
+  boardsLost: number;
+  timeLimit: number; // in seconds
+  timestamp: Date;
+}
+
+export interface SurvivalResult {
+  mode: GameMode.SURVIVAL;
+  boardsCleared: number;
+  finalDensity: number; // mine density of the board that ended the run
+  duration: number;     // in seconds
+  timestamp: Date;
+}
+
+export interface CountdownResult {
+  mode: GameMode.COUNTDOWN;
+  boardsCleared: number;
+  boardTimeLimit: number;      // in seconds
+  fastestBoard: number | null; // fastest clear in seconds
+  timestamp: Date;
+}
+
+export type GameModeResult = TimeAttackResult | SurvivalResult | CountdownResult;
+
 export interface DifficultySettings {
   width: number;
   height: number;
   mineCount: number;
   level: DifficultyLevel;
+  seed?: number; // Same seed + same settings always produces the same mine layout
+  firstClickPolicy?: FirstClickPolicy; // Defaults to NONE
+  topology?: GridTopology; // Defaults to SQUARE
+  neighbourhood?: NeighbourhoodRule; // Which cells a number counts; defaults to STANDARD
+  mask?: string[]; // Board shape, one row per string: '#' is a cell, '.' a hole. Rectangular when missing
+  mineDistribution?: string; // Id of the mine distribution strategy; defaults to uniform
 }
 
 export interface GameConfig {
@@ -1,10 +1,12 @@
 import { IAnalysisViewer } from '@/interfaces/UIComponents';
 import { GameAnalysis, Move, HintSuggestion, ProbabilityMap, SkillArea } from '@/types';
 import { IGameBoard } from '@/interfaces/GameEngine';
+import { GameLog } from '@/game/GameLog';
 
 export interface AnalysisViewerConfig {
   containerId: string;
   onReplayMove?: (moveIndex: number) => void;
+  onReplayBoard?: (board: IGameBoard, moveIndex: number) => void; // The board as it stood after the move
   onShowProbabilities?: (probabilities: ProbabilityMap) => void;
   onHighlightCell?: (x: number, y: number) => void;
 }
@@ -14,6 +16,7 @@ export class AnalysisViewer implements IAnalysisViewer {
   private config: AnalysisViewerConfig;
   private currentAnalysis: GameAnalysis | null = null;
   private currentMoves: Move[] = [];
+  private currentLog: GameLog | null = null;
   private currentReplayIndex: number = 0;
   private isReplayActive: boolean = false;
   private replayTimer: number | null = null;
@@ -40,10 +43,11 @@ export class AnalysisViewer implements IAnalysisViewer {
   }
 
   /**
-   * Show game replay with moves
+   * Show game replay with moves. Given the game's log, the board at any move can be shown too.
    */
-  showReplay(moves: Move[]): void {
+  showReplay(moves: Move[], log?: GameLog): void {
     this.currentMoves = moves;
+    this.currentLog = log ?? null;
     this.currentReplayIndex = 0;
     this.updateReplayDisplay();
     this.showSection('replay');
@@ -1146,7 +1150,8 @@ export class AnalysisViewer implements IAnalysisViewer {
     }
 
     const moveNumber = this.currentReplayIndex + 1;
-    const action = currentMove.action === 'reveal' ? 'revealed' : 'flagged';
+    const action = currentMove.action === 'chord' ? 'chorded' :
+                   currentMove.action === 'reveal' ? 'revealed' : 'flagged';
     const position = `(${currentMove.cell.x}, ${currentMove.cell.y})`;
     
     let commentary = `<strong>Move ${moveNumber}:</strong> ${action} cell ${position}<br><br>`;
@@ -1239,6 +1244,9 @@ export class AnalysisViewer implements IAnalysisViewer {
     
     // Notify parent component about replay position change
     this.config.onReplayMove?.(index);
+    if (this.currentLog && this.config.onReplayBoard) {
+      this.config.onReplayBoard(this.currentLog.replay(index + 1), index);
+    }
   }
 
   /**
@@ -0,0 +1,235 @@
+/**
+ * Board editor for authoring positions: place mines, pre-reveal cells and cut holes, while the
+ * solver marks every hidden cell that can already be deduced from the numbers showing
+ */
+
+import { DifficultyLevel, DifficultySettings, FirstClickPolicy, GridTopology, NeighbourhoodRule } from '@/types';
+import { IGameBoard } from '@/interfaces/GameEngine';
+import { GameBoard } from '@/game/GameBoard';
+import { MASK_CELL, MASK_HOLE } from '@/game/BoardShapes';
+import { decodePosition, encodePosition } from '@/game/PositionCode';
+import { Puzzle, createGridBoard, toPuzzleGrid } from '@/game/Puzzles';
+import { ProbabilityCalculator } from '@/ai/ProbabilityCalculator';
+import { PuzzlePlayer } from '@/ai/PuzzlePlayer';
+import { GameRenderer } from './GameRenderer';
+
+export type EditorTool = 'mine' | 'reveal' | 'hole';
+
+export const MAX_EDITOR_SIZE = 30;
+
+const SEED_CODE = /^seed:(\d+)x(\d+):(\d+):(\d+)$/;
+const GRID_CODE = /^grid:(.+)$/;
+const POSITION_CODE = /^position:(.+)$/; // Boards on other grids or rules, which the two above cannot describe
+
+export class BoardEditor {
+  private width: number = 9;
+  private height: number = 9;
+  private mines: Set<number> = new Set();
+  private revealed: Set<number> = new Set();
+  private holes: Set<number> = new Set();
+  private topology: GridTopology = GridTopology.SQUARE;
+  private neighbourhood: NeighbourhoodRule = NeighbourhoodRule.STANDARD;
+  private tool: EditorTool = 'mine';
+  private seed: number | null = null; // Set while the mines are exactly a seeded layout
+  private probabilityCalculator: ProbabilityCalculator;
+
+  constructor(probabilityCalculator?: ProbabilityCalculator) {
+    this.probabilityCalculator = probabilityCalculator || new ProbabilityCalculator();
+  }
+
+  /**
+   * Start over on an empty square board of the given size
+   */
+  resize(width: number, height: number): void {
+    if (!Number.isInteger(width) || !Number.isInteger(height) ||
+        width < 1 || height < 1 || width > MAX_EDITOR_SIZE || height > MAX_EDITOR_SIZE) {
+      throw new Error(`Invalid board dimensions: ${width}x${height}`);
+    }
+    this.width = width;
+    this.height = height;
+    this.mines.clear();
+    this.revealed.clear();
+    this.holes.clear();
+    this.topology = GridTopology.SQUARE;
+    this.neighbourhood = NeighbourhoodRule.STANDARD;
+    this.seed = null;
+  }
+
+  /**
+   * Start over on an empty board cut to the mask's shape
+   */
+  setShape(mask: string[]): void {
+    this.resize(mask[0]?.length ?? 0, mask.length);
+    mask.forEach((row, y) => row.split('').forEach((cell, x) => {
+      if (cell === MASK_HOLE) this.holes.add(y * this.width + x);
+    }));
+  }
+
+  /**
+   * Take the mines from a seeded board, so an unchanged layout can be shared as its seed
+   */
+  loadSeed(settings: DifficultySettings): void {
+    const board = new GameBoard({ ...settings, firstClickPolicy: FirstClickPolicy.NONE });
+    this.loadBoard(board);
+    this.seed = board.getMask() ? null : board.getSeed();
+  }
+
+  /**
+   * Copy the mines, revealed cells, holes and grid rules of any board, such as the game in play
+   */
+  loadBoard(board: IGameBoard): void {
+    this.resize(board.getWidth(), board.getHeight());
+    this.topology = board.getTopology();
+    this.neighbourhood = board.getNeighbourhood();
+    board.getCells().flat().forEach(cell => {
+      const index = cell.y * this.width + cell.x;
+      if (cell.isMasked) this.holes.add(index);
+      else if (cell.isMine) this.mines.add(index);
+      else if (cell.isRevealed) this.revealed.add(index);
+    });
+  }
+
+  setTool(tool: EditorTool): void {
+    this.tool = tool;
+  }
+
+  getTool(): EditorTool {
+    return this.tool;
+  }
+
+  /**
+   * Apply the current tool to a cell. Mines and revealed cells toggle, and a hole takes
+   * whatever was on the cell with it. Returns false when the tool cannot be used there.
+   */
+  applyTool(x: number, y: number): boolean {
+    if (x < 0 || y < 0 || x >= this.width || y >= this.height) {
+      return false;
+    }
+
+    const index = y * this.width + x;
+    if (this.tool === 'hole') {
+      this.toggle(this.holes, index);
+      this.mines.delete(index);
+      this.revealed.delete(index);
+    } else if (this.holes.has(index)) {
+      return false;
+    } else if (this.tool === 'mine') {
+      this.toggle(this.mines, index);
+      this.revealed.delete(index);
+    } else if (this.mines.has(index)) {
+      return false;
+    } else {
+      this.toggle(this.revealed, index);
+      return true; // Revealing leaves the mines, and so the seed, as they were
+    }
+
+    this.seed = null;
+    return true;
+  }
+
+  /**
+   * The position as a playable board
+   */
+  getBoard(): GameBoard {
+    const cellAt = (index: number) => ({ x: index % this.width, y: Math.floor(index / this.width) });
+    const settings: DifficultySettings = {
+      width: this.width,
+      height: this.height,
+      mineCount: this.mines.size,
+      level: DifficultyLevel.CUSTOM,
+      seed: this.seed ?? 0,
+      topology: this.topology,
+      neighbourhood: this.neighbourhood,
+      mask: this.holes.size > 0 ? this.getMask() : undefined
+    };
+    return GameBoard.fromLayout(settings, [...this.mines].map(cellAt), [...this.revealed].map(cellAt));
+  }
+
+  /**
+   * Hidden cells the solver can decide from what is showing: 0 for safe, 1 for a mine
+   */
+  getDeducibleCells(): Map<string, number> {
+    return this.probabilityCalculator.calculateCertainties(this.getBoard()).cellProbabilities;
+  }
+
+  /**
+   * Draw the position with its mines flagged and the deducible cells coloured
+   */
+  render(renderer: GameRenderer): void {
+    const certainties = this.probabilityCalculator.calculateCertainties(this.getBoard());
+    const board = this.getBoard();
+    this.mines.forEach(index => board.flagCell(index % this.width, Math.floor(index / this.width)));
+    renderer.render(board, certainties);
+  }
+
+  exportBoard(): string {
+    return this.getBoard().serialize();
+  }
+
+  /**
+   * The position as a puzzle, solved in the order the solver finds. Throws if the position
+   * cannot be cleared by logic alone.
+   */
+  exportPuzzle(id: string, title: string): Puzzle {
+    if (!this.isClassicGrid()) {
+      throw new Error('Puzzles can only be made on square, non-wrapping grids with standard numbers');
+    }
+    const solution = PuzzlePlayer.findLogicalSolution(this.getBoard(), this.probabilityCalculator);
+    if (!solution) {
+      throw new Error('Position is not uniquely solvable');
+    }
+    return { id, title, grid: toPuzzleGrid(this.getBoard()), solution };
+  }
+
+  /**
+   * A short code for the position: the seed while the mines are an unchanged seeded layout
+   * with nothing revealed, otherwise the puzzle grid. Other grids and rules use a position code.
+   */
+  getShareCode(): string {
+    if (!this.isClassicGrid()) {
+      return `position:${encodePosition(this.getBoard())}`;
+    }
+    if (this.seed !== null && this.revealed.size === 0) {
+      return `seed:${this.width}x${this.height}:${this.mines.size}:${this.seed}`;
+    }
+    return `grid:${toPuzzleGrid(this.getBoard()).join('/')}`;
+  }
+
+  /**
+   * Open a code from getShareCode(). Throws if the code cannot be read.
+   */
+  loadShareCode(code: string): void {
+    const seeded = SEED_CODE.exec(code.trim());
+    const grid = GRID_CODE.exec(code.trim());
+    const position = POSITION_CODE.exec(code.trim());
+    if (seeded) {
+      const [width, height, mineCount, seed] = seeded.slice(1).map(Number);
+      if (width > MAX_EDITOR_SIZE || height > MAX_EDITOR_SIZE || mineCount > width * height) {
+        throw new Error(`Invalid share code: ${code}`);
+      }
+      this.loadSeed({ width, height, mineCount, level: DifficultyLevel.CUSTOM, seed });
+    } else if (grid) {
+      this.loadBoard(createGridBoard(grid[1].split('/')));
+    } else if (position) {
+      this.loadBoard(decodePosition(position[1]));
+    } else {
+      throw new Error(`Invalid share code: ${code}`);
+    }
+  }
+
+  private isClassicGrid(): boolean {
+    return this.topology === GridTopology.SQUARE && this.neighbourhood === NeighbourhoodRule.STANDARD;
+  }
+
+  private getMask(): string[] {
+    return Array.from({ length: this.height }, (_, y) =>
+      Array.from({ length: this.width }, (_, x) => this.holes.has(y * this.width + x) ? MASK_HOLE : MASK_CELL).join('')
+    );
+  }
+
+  private toggle(cells: Set<number>, index: number): void {
+    if (!cells.delete(index)) {
+      cells.add(index);
+    }
+  }
+}
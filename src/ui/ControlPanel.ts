@@ -1,6 +1,7 @@
 import { IControlPanel, GameStats } from '@/interfaces/UIComponents';
 import { GameConfig, DifficultyLevel, DifficultySettings } from '@/types';
 import { AdaptiveDifficultyManager } from '@/adaptive/AdaptiveDifficultyManager';
+import { SHAPE_PRESETS, countPlayableCells, getShapePreset } from '@/game/BoardShapes';
 
 export interface ControlPanelConfig {
   containerId: string;
@@ -195,6 +196,38 @@ export class ControlPanel implements IControlPanel {
               <div class="stat-value" id="averageTime">--</div>
             </div>
           </div>
+          <div class="performance-stats efficiency-stats">
+            <div class="stat-item">
+              <div class="stat-label">3BV</div>
+              <div class="stat-value" id="threeBV">--</div>
+            </div>
+            <div class="stat-item">
+              <div class="stat-label">3BV/s</div>
+              <div class="stat-value" id="threeBVPerSecond">--</div>
+            </div>
+            <div class="stat-item">
+              <div class="stat-label">IOE</div>
+              <div class="stat-value" id="ioe">--</div>
+            </div>
+            <div class="stat-item">
+              <div class="stat-label">Throughput</div>
+              <div class="stat-value" id="throughput">--</div>
+            </div>
+            <div class="stat-item">
+              <div class="stat-label">Completion</div>
+              <div class="stat-value" id="completion">--</div>
+            </div>
+          </div>
+          <div class="performance-stats score-stats">
+            <div class="stat-item">
+              <div class="stat-label">Score</div>
+              <div class="stat-value" id="scoreValue">--</div>
+            </div>
+            <div class="stat-item">
+              <div class="stat-label">Scoring</div>
+              <div class="stat-value" id="scoringRuleset">--</div>
+            </div>
+          </div>
         </div>
 
         <!-- Difficulty Settings Section -->
@@ -215,17 +248,24 @@ export class ControlPanel implements IControlPanel {
             <div class="custom-difficulty">
               <h4>Custom Settings</h4>
               <div class="custom-inputs">
+                <div class="input-group">
+                  <label for="customShape">Shape:</label>
+                  <select id="customShape">
+                    <option value="">Rectangle</option>
+                    ${SHAPE_PRESETS.map(preset => `<option value="${preset.id}">${preset.name}</option>`).join('')}
+                  </select>
+                </div>
                 <div class="input-group">
                   <label for="customWidth">Width:</label>
-                  <input type="number" id="customWidth" min="5" max="30" value="9">
+                  <input type="number" id="customWidth" min="5" max="200" value="9">
                 </div>
                 <div class="input-group">
                   <label for="customHeight">Height:</label>
-                  <input type="number" id="customHeight" min="5" max="24" value="9">
+                  <input type="number" id="customHeight" min="5" max="200" value="9">
                 </div>
                 <div class="input-group">
                   <label for="customMines">Mines:</label>
-                  <input type="number" id="customMines" min="1" max="200" value="10">
+                  <input type="number" id="customMines" min="1" max="32000" value="10">
                 </div>
                 <button id="applyCustomBtn" class="control-btn secondary">Apply Custom</button>
               </div>
@@ -414,6 +454,11 @@ export class ControlPanel implements IControlPanel {
         border-top: 1px solid #e9ecef;
       }
       
+      .efficiency-stats,
+      .score-stats {
+        margin-top: 12px;
+      }
+      
       .stat-item {
         text-align: center;
         padding: 8px;
@@ -512,7 +557,8 @@ export class ControlPanel implements IControlPanel {
         color: #495057;
       }
       
-      .input-group input {
+      .input-group input,
+      .input-group select {
         flex: 2;
         padding: 6px 8px;
         border: 1px solid #ced4da;
@@ -742,6 +788,11 @@ export class ControlPanel implements IControlPanel {
       this.applyCustomDifficulty();
     });
 
+    const customShapeSelect = this.container.querySelector('#customShape') as HTMLSelectElement;
+    customShapeSelect?.addEventListener('change', () => {
+      this.selectShape(customShapeSelect.value);
+    });
+
     // AI feature toggles
     const enableHintsToggle = this.container.querySelector('#enableHints') as HTMLInputElement;
     const showProbabilitiesToggle = this.container.querySelector('#showProbabilities') as HTMLInputElement;
@@ -814,18 +865,22 @@ export class ControlPanel implements IControlPanel {
     const widthInput = this.container.querySelector('#customWidth') as HTMLInputElement;
     const heightInput = this.container.querySelector('#customHeight') as HTMLInputElement;
     const minesInput = this.container.querySelector('#customMines') as HTMLInputElement;
+    const shapeSelect = this.container.querySelector('#customShape') as HTMLSelectElement | null;
     
-    const width = parseInt(widthInput.value);
-    const height = parseInt(heightInput.value);
+    // A shape preset fixes the board size to its mask
+    const shape = getShapePreset(shapeSelect?.value ?? '');
+    const width = shape ? shape.mask[0].length : parseInt(widthInput.value);
+    const height = shape ? shape.mask.length : parseInt(heightInput.value);
     const mineCount = parseInt(minesInput.value);
     
     // Validate inputs
-    if (width < 5 || width > 30 || height < 5 || height > 24) {
-      this.showNotification('Invalid board dimensions. Width: 5-30, Height: 5-24', 'error');
+    if (width < 5 || width > 200 || height < 5 || height > 200) {
+      this.showNotification('Invalid board dimensions. Width and height: 5-200', 'error');
       return;
     }
     
-    const maxMines = Math.floor((width * height) * 0.8); // Max 80% mines
+    const playableCells = shape ? countPlayableCells(shape.mask) : width * height;
+    const maxMines = Math.floor(playableCells * 0.8); // Max 80% mines
     if (mineCount < 1 || mineCount > maxMines) {
       this.showNotification(`Invalid mine count. Must be between 1 and ${maxMines}`, 'error');
       return;
@@ -840,11 +895,31 @@ export class ControlPanel implements IControlPanel {
       width,
       height,
       mineCount,
-      level: DifficultyLevel.CUSTOM
+      level: DifficultyLevel.CUSTOM,
+      ...(shape ? { mask: shape.mask } : {})
     };
     
     this.config.onDifficultyChange?.(DifficultyLevel.CUSTOM);
-    this.showNotification(`Custom difficulty applied: ${width}×${height}, ${mineCount} mines`, 'success');
+    const description = shape ? `${shape.name} (${playableCells} cells)` : `${width}×${height}`;
+    this.showNotification(`Custom difficulty applied: ${description}, ${mineCount} mines`, 'success');
+  }
+
+  /**
+   * Fill the custom inputs from a shape preset, or unlock them again for a plain rectangle
+   */
+  private selectShape(id: string): void {
+    const widthInput = this.container.querySelector('#customWidth') as HTMLInputElement;
+    const heightInput = this.container.querySelector('#customHeight') as HTMLInputElement;
+    const minesInput = this.container.querySelector('#customMines') as HTMLInputElement;
+    const shape = getShapePreset(id);
+
+    if (shape) {
+      widthInput.value = shape.mask[0].length.toString();
+      heightInput.value = shape.mask.length.toString();
+      minesInput.value = shape.mineCount.toString();
+    }
+    widthInput.disabled = shape !== undefined;
+    heightInput.disabled = shape !== undefined;
   }
 
   /**
@@ -891,6 +966,13 @@ export class ControlPanel implements IControlPanel {
     if (widthInput) widthInput.value = this.gameConfig.difficulty.width.toString();
     if (heightInput) heightInput.value = this.gameConfig.difficulty.height.toString();
     if (minesInput) minesInput.value = this.gameConfig.difficulty.mineCount.toString();
+
+    const shapeSelect = this.container.querySelector('#customShape') as HTMLSelectElement;
+    const mask = JSON.stringify(this.gameConfig.difficulty.mask);
+    const shape = SHAPE_PRESETS.find(preset => JSON.stringify(preset.mask) === mask);
+    if (shapeSelect) shapeSelect.value = shape?.id ?? '';
+    if (widthInput) widthInput.disabled = shape !== undefined;
+    if (heightInput) heightInput.disabled = shape !== undefined;
     
     // Update feature toggles
     const enableHintsToggle = this.container.querySelector('#enableHints') as HTMLInputElement;
@@ -932,6 +1014,30 @@ export class ControlPanel implements IControlPanel {
     if (averageTimeEl && this.gameStats.averageTime !== undefined) {
       averageTimeEl.textContent = this.formatTime(this.gameStats.averageTime);
     }
+    
+    const efficiency = this.gameStats.efficiency;
+    if (efficiency) {
+      const setText = (id: string, text: string) => {
+        const element = this.container.querySelector(`#${id}`) as HTMLElement;
+        if (element) element.textContent = text;
+      };
+      setText('threeBV', `${efficiency.solved3BV}/${efficiency.threeBV}`);
+      setText('threeBVPerSecond', efficiency.threeBVPerSecond.toFixed(2));
+      setText('ioe', efficiency.ioe.toFixed(2));
+      setText('throughput', efficiency.throughput.toFixed(2));
+      setText('completion', `${efficiency.completion.toFixed(0)}%`);
+    }
+
+    const scoreEl = this.container.querySelector('#scoreValue') as HTMLElement;
+    const scoringRulesetEl = this.container.querySelector('#scoringRuleset') as HTMLElement;
+    
+    if (scoreEl && this.gameStats.score !== undefined) {
+      scoreEl.textContent = this.gameStats.score.toString();
+    }
+    
+    if (scoringRulesetEl && this.gameStats.scoringRuleset !== undefined) {
+      scoringRulesetEl.textContent = this.gameStats.scoringRuleset;
+    }
   }
 
   /**
@@ -1,8 +1,22 @@
 import { IGameRenderer } from '@/interfaces/UIComponents';
-import { IGameBoard } from '@/interfaces/GameEngine';
-import { ProbabilityMap, Cell, GameState, HintSuggestion } from '@/types';
+import { IBoardEventSource, IGameBoard } from '@/interfaces/GameEngine';
+import { ProbabilityMap, Cell, CellState, GameState, HintSuggestion, MoveAction } from '@/types';
 import { ProbabilityVisualizer } from './ProbabilityVisualizer';
 import { ErrorHandler, ErrorType, safeSync, safeAsync } from '@/utils/ErrorHandler';
+import { Topology, getTopology } from '@/game/Topology';
+
+/**
+ * The part of the board drawn on the canvas, in cells
+ */
+export interface CameraView {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// The camera recentres once revealed cells come this close to its edge
+const CAMERA_FOLLOW_MARGIN = 3;
 
 export class GameRenderer implements IGameRenderer {
   private canvas: HTMLCanvasElement;
@@ -11,6 +25,10 @@ export class GameRenderer implements IGameRenderer {
   private cellSize: number = 40;
   private offsetX: number = 10;
   private offsetY: number = 10;
+  private baseOffsetX: number = 10; // Offset before the camera position is applied
+  private baseOffsetY: number = 10;
+  private camera: CameraView | null = null;
+  private topology: Topology = getTopology(); // Taken from the board on every render
   private animationEnabled: boolean = true;
   
   // Touch control properties
@@ -26,6 +44,7 @@ export class GameRenderer implements IGameRenderer {
   private highContrastMode: boolean = false;
   private colorBlindFriendlyMode: boolean = false;
   private screenReaderEnabled: boolean = false;
+  private lastBoard: IGameBoard | null = null; // Last rendered board, used for announcements
 
   constructor(canvas: HTMLCanvasElement) {
     const errorHandler = ErrorHandler.getInstance();
@@ -76,6 +95,8 @@ export class GameRenderer implements IGameRenderer {
         if (!board) {
           throw new Error('Board is null or undefined');
         }
+        this.lastBoard = board;
+        this.setTopology(getTopology(board.getTopology()));
 
         // Check if canvas context is still valid
         if (!this.ctx || this.ctx.canvas !== this.canvas) {
@@ -84,18 +105,20 @@ export class GameRenderer implements IGameRenderer {
 
         this.clearCanvas();
         
-        // Calculate canvas size based on board dimensions
-        const boardWidth = board.getWidth() * this.cellSize + this.offsetX * 2;
-        const boardHeight = board.getHeight() * this.cellSize + this.offsetY * 2;
+        // Calculate canvas size based on the board dimensions, or the camera when there is one
+        const view = this.camera ?? { x: 0, y: 0, width: board.getWidth(), height: board.getHeight() };
+        const size = this.topology.boardSize(view.width, view.height, this.cellSize);
+        const boardWidth = Math.ceil(size.width) + this.baseOffsetX * 2;
+        const boardHeight = Math.ceil(size.height) + this.baseOffsetY * 2;
         
         if (this.canvas.width !== boardWidth || this.canvas.height !== boardHeight) {
           this.resize(boardWidth, boardHeight);
         }
 
-        // Render all cells
+        // Render the cells in view
         const cells = board.getCells();
-        for (let y = 0; y < board.getHeight(); y++) {
-          for (let x = 0; x < board.getWidth(); x++) {
+        for (let y = Math.max(0, view.y); y < Math.min(board.getHeight(), view.y + view.height); y++) {
+          for (let x = Math.max(0, view.x); x < Math.min(board.getWidth(), view.x + view.width); x++) {
             this.renderCell(x, y, cells[y][x]);
           }
         }
@@ -129,8 +152,12 @@ export class GameRenderer implements IGameRenderer {
           throw new Error(`Cell at (${x}, ${y}) is null or undefined`);
         }
 
-        const screenX = this.offsetX + x * this.cellSize;
-        const screenY = this.offsetY + y * this.cellSize;
+        // Cells outside the camera are expected on large boards and simply skipped; holes are never drawn
+        if ((this.camera && !this.isInCamera(x, y)) || cell.isMasked) {
+          return;
+        }
+
+        const { x: screenX, y: screenY } = this.cellOrigin(x, y);
 
         // Validate screen coordinates
         if (screenX < 0 || screenY < 0 || screenX > this.canvas.width || screenY > this.canvas.height) {
@@ -149,12 +176,23 @@ export class GameRenderer implements IGameRenderer {
           this.ctx.fillStyle = this.highContrastMode ? '#cccccc' : '#c0c0c0';
         }
         
-        this.ctx.fillRect(screenX, screenY, this.cellSize, this.cellSize);
+        // Square grids keep the plain rectangle; other shapes are traced from the topology outline
+        const square = this.isSquareGrid();
+        if (square) {
+          this.ctx.fillRect(screenX, screenY, this.cellSize, this.cellSize);
+        } else {
+          this.traceCellOutline(screenX, screenY);
+          this.ctx.fill();
+        }
 
         // Draw cell border
         this.ctx.strokeStyle = this.highContrastMode ? '#000000' : '#808080';
         this.ctx.lineWidth = 1;
-        this.ctx.strokeRect(screenX, screenY, this.cellSize, this.cellSize);
+        if (square) {
+          this.ctx.strokeRect(screenX, screenY, this.cellSize, this.cellSize);
+        } else {
+          this.ctx.stroke();
+        }
 
         // Draw cell content
         if (cell.isRevealed) {
@@ -165,10 +203,12 @@ export class GameRenderer implements IGameRenderer {
           }
         } else if (cell.isFlagged) {
           this.drawFlag(screenX, screenY);
+        } else if (cell.isQuestioned) {
+          this.drawQuestionMark(screenX, screenY);
         }
 
         // Draw raised effect for unrevealed cells
-        if (!cell.isRevealed) {
+        if (!cell.isRevealed && square) {
           this.drawRaisedEffect(screenX, screenY);
         }
       },
@@ -178,6 +218,36 @@ export class GameRenderer implements IGameRenderer {
     );
   }
 
+  /**
+   * Redraw only the cells a move changed, as the board reports them.
+   * Returns a function that stops listening.
+   */
+  subscribeTo(source: IBoardEventSource): () => void {
+    const subscriptions = [
+      source.on('cellRevealed', ({ board, cells }) => {
+        this.lastBoard = board;
+        if (this.followFrontier(board, cells)) {
+          this.render(board);
+        } else {
+          cells.forEach(cell => this.renderCell(cell.x, cell.y, cell));
+        }
+      }),
+      source.on('boardExpanded', ({ board, shiftX, shiftY }) => {
+        // Keep the camera on the same cells when the board grows left or up
+        if (this.camera) {
+          this.camera.x += shiftX;
+          this.camera.y += shiftY;
+          this.applyCamera();
+        }
+        this.render(board);
+      }),
+      source.on('cellFlagged', ({ cell }) => this.renderCell(cell.x, cell.y, cell)),
+      source.on('gameWon', ({ board }) => this.renderGameStateOverlay(board.getGameState())),
+      source.on('gameLost', ({ board }) => this.renderGameStateOverlay(board.getGameState()))
+    ];
+    return () => subscriptions.forEach(unsubscribe => unsubscribe());
+  }
+
   /**
    * Draw a mine symbol
    */
@@ -230,6 +300,17 @@ export class GameRenderer implements IGameRenderer {
     );
   }
 
+  /**
+   * Draw a question mark
+   */
+  private drawQuestionMark(screenX: number, screenY: number): void {
+    this.ctx.fillStyle = this.highContrastMode ? '#000000' : '#333366';
+    this.ctx.font = 'bold 20px Arial';
+    this.ctx.textAlign = 'center';
+    this.ctx.textBaseline = 'middle';
+    this.ctx.fillText('?', screenX + this.cellSize / 2, screenY + this.cellSize / 2);
+  }
+
   /**
    * Draw a flag
    */
@@ -291,8 +372,7 @@ export class GameRenderer implements IGameRenderer {
    * Render a hint highlight
    */
   renderHint(hint: HintSuggestion): void {
-    const screenX = this.offsetX + hint.cell.x * this.cellSize;
-    const screenY = this.offsetY + hint.cell.y * this.cellSize;
+    const { x: screenX, y: screenY } = this.cellOrigin(hint.cell.x, hint.cell.y);
     
     // Draw bright highlight border
     this.ctx.strokeStyle = '#ffff00';
@@ -384,8 +464,7 @@ export class GameRenderer implements IGameRenderer {
       return;
     }
 
-    const screenX = this.offsetX + x * this.cellSize;
-    const screenY = this.offsetY + y * this.cellSize;
+    const { x: screenX, y: screenY } = this.cellOrigin(x, y);
     
     // Simple scale animation
     const duration = 200;
@@ -428,7 +507,7 @@ export class GameRenderer implements IGameRenderer {
    * Handle mouse hover for probability tooltips
    */
   handleMouseMove(mouseX: number, mouseY: number, board: IGameBoard, probabilities?: ProbabilityMap): void {
-    const cellCoords = this.probabilityVisualizer.screenToCell(mouseX, mouseY);
+    const cellCoords = this.screenToCell(mouseX, mouseY);
     
     if (cellCoords && board.isValidPosition(cellCoords.x, cellCoords.y)) {
       const cell = board.getCell(cellCoords.x, cellCoords.y);
@@ -461,7 +540,7 @@ export class GameRenderer implements IGameRenderer {
    * Convert screen coordinates to cell coordinates
    */
   screenToCell(screenX: number, screenY: number): { x: number; y: number } | null {
-    return this.probabilityVisualizer.screenToCell(screenX, screenY);
+    return this.probabilityVisualizer.screenToCell(screenX, screenY, this.lastBoard ?? undefined);
   }
 
   /**
@@ -470,15 +549,125 @@ export class GameRenderer implements IGameRenderer {
   setCellSize(size: number): void {
     this.cellSize = size;
     this.probabilityVisualizer.setCellSize(size);
+    this.applyCamera();
   }
 
   /**
    * Set rendering offset and update visualizer
    */
   setOffset(x: number, y: number): void {
-    this.offsetX = x;
-    this.offsetY = y;
-    this.probabilityVisualizer.setOffset(x, y);
+    this.baseOffsetX = x;
+    this.baseOffsetY = y;
+    this.applyCamera();
+  }
+
+  /**
+   * Draw only part of the board, for boards too large to show whole. Takes effect on the next render.
+   */
+  setCamera(x: number, y: number, width: number, height: number): void {
+    this.camera = { x, y, width, height };
+    this.applyCamera();
+  }
+
+  clearCamera(): void {
+    this.camera = null;
+    this.applyCamera();
+  }
+
+  getCamera(): CameraView | null {
+    return this.camera ? { ...this.camera } : null;
+  }
+
+  /**
+   * Recentre the camera on newly revealed cells that came close to its edge, keeping it on the board.
+   * Returns true when the camera moved and the board needs a full render.
+   */
+  followFrontier(board: IGameBoard, cells: Cell[]): boolean {
+    if (!this.camera || cells.length === 0) {
+      return false;
+    }
+
+    const { x, y, width, height } = this.camera;
+    const marginX = Math.min(CAMERA_FOLLOW_MARGIN, Math.floor(width / 4));
+    const marginY = Math.min(CAMERA_FOLLOW_MARGIN, Math.floor(height / 4));
+    const nearEdge = cells.some(cell =>
+      cell.x < x + marginX || cell.x >= x + width - marginX ||
+      cell.y < y + marginY || cell.y >= y + height - marginY);
+    if (!nearEdge) {
+      return false;
+    }
+
+    const xs = cells.map(cell => cell.x);
+    const ys = cells.map(cell => cell.y);
+    const centreX = (Math.min(...xs) + Math.max(...xs)) / 2;
+    const centreY = (Math.min(...ys) + Math.max(...ys)) / 2;
+    const clamp = (value: number, size: number, total: number) => Math.max(0, Math.min(value, total - size));
+    const nextX = clamp(Math.round(centreX - width / 2), width, board.getWidth());
+    const nextY = clamp(Math.round(centreY - height / 2), height, board.getHeight());
+    if (nextX === x && nextY === y) {
+      return false;
+    }
+
+    this.camera = { x: nextX, y: nextY, width, height };
+    this.applyCamera();
+    return true;
+  }
+
+  /**
+   * Fold the camera position into the drawing offset, so every cell-to-screen conversion follows it
+   */
+  private applyCamera(): void {
+    const origin = this.topology.cellCentre(0, 0, this.cellSize);
+    const corner = this.topology.cellCentre(this.camera?.x ?? 0, this.camera?.y ?? 0, this.cellSize);
+    this.offsetX = this.baseOffsetX - (corner.x - origin.x);
+    this.offsetY = this.baseOffsetY - (corner.y - origin.y);
+    this.probabilityVisualizer.setOffset(this.offsetX, this.offsetY);
+  }
+
+  /**
+   * Switch grid shape. Cell positions, hit-testing and keyboard moves all follow it.
+   */
+  private setTopology(topology: Topology): void {
+    if (topology === this.topology) {
+      return;
+    }
+    this.topology = topology;
+    this.probabilityVisualizer.setTopology(topology);
+    this.applyCamera();
+  }
+
+  private isSquareGrid(): boolean {
+    return this.topology.cellOutline(this.cellSize).length === 4;
+  }
+
+  /**
+   * Top-left corner of the cellSize box centred on a cell, where symbols are drawn
+   */
+  private cellOrigin(x: number, y: number): { x: number; y: number } {
+    const centre = this.topology.cellCentre(x, y, this.cellSize);
+    return { x: this.offsetX + centre.x - this.cellSize / 2, y: this.offsetY + centre.y - this.cellSize / 2 };
+  }
+
+  /**
+   * Start a path around the cell whose symbol box starts at the given corner
+   */
+  private traceCellOutline(screenX: number, screenY: number): void {
+    const centreX = screenX + this.cellSize / 2;
+    const centreY = screenY + this.cellSize / 2;
+    this.ctx.beginPath();
+    this.topology.cellOutline(this.cellSize).forEach((corner, i) => {
+      if (i === 0) {
+        this.ctx.moveTo(centreX + corner.x, centreY + corner.y);
+      } else {
+        this.ctx.lineTo(centreX + corner.x, centreY + corner.y);
+      }
+    });
+    this.ctx.closePath();
+  }
+
+  private isInCamera(x: number, y: number): boolean {
+    const camera = this.camera!;
+    return x >= camera.x && x < camera.x + camera.width && y >= camera.y && y < camera.y + camera.height;
   }
 
   /**
@@ -643,8 +832,7 @@ export class GameRenderer implements IGameRenderer {
   private showTouchFeedback(x: number, y: number): void {
     const cellCoords = this.screenToCell(x, y);
     if (cellCoords) {
-      const screenX = this.offsetX + cellCoords.x * this.cellSize;
-      const screenY = this.offsetY + cellCoords.y * this.cellSize;
+      const { x: screenX, y: screenY } = this.cellOrigin(cellCoords.x, cellCoords.y);
       
       // Draw touch feedback overlay
       this.ctx.save();
@@ -753,23 +941,34 @@ export class GameRenderer implements IGameRenderer {
     let newX = this.focusedCell.x;
     let newY = this.focusedCell.y;
     let actionTaken = false;
+    const width = this.lastBoard?.getWidth() ?? 16;
+    const height = this.lastBoard?.getHeight() ?? 16;
+    // Edges stop the focus, except where the topology wraps around. Holes in a shaped board are
+    // jumped over to the next cell in line, if there is one.
+    const move = (dx: number, dy: number) => {
+      let next = this.topology.step(width, height, newX, newY, dx, dy);
+      for (let steps = 0; next && this.lastBoard?.getCell(next.x, next.y)?.isMasked && steps < width * height; steps++) {
+        next = this.topology.step(width, height, next.x, next.y, dx, dy);
+      }
+      if (next && !this.lastBoard?.getCell(next.x, next.y)?.isMasked) {
+        newX = next.x;
+        newY = next.y;
+      }
+      actionTaken = true;
+    };
 
     switch (event.key) {
       case 'ArrowUp':
-        newY = Math.max(0, newY - 1);
-        actionTaken = true;
+        move(0, -1);
         break;
       case 'ArrowDown':
-        newY = Math.min(15, newY + 1); // Assuming max 16x16 board
-        actionTaken = true;
+        move(0, 1);
         break;
       case 'ArrowLeft':
-        newX = Math.max(0, newX - 1);
-        actionTaken = true;
+        move(-1, 0);
         break;
       case 'ArrowRight':
-        newX = Math.min(15, newX + 1); // Assuming max 16x16 board
-        actionTaken = true;
+        move(1, 0);
         break;
       case 'Enter':
       case ' ':
@@ -783,6 +982,12 @@ export class GameRenderer implements IGameRenderer {
         this.dispatchCellAction(this.focusedCell.x, this.focusedCell.y, 'flag');
         actionTaken = true;
         break;
+      case 'c':
+      case 'C':
+        // Chord cell
+        this.dispatchCellAction(this.focusedCell.x, this.focusedCell.y, 'chord');
+        actionTaken = true;
+        break;
       case 'h':
       case 'H':
         // Request hint
@@ -805,8 +1010,9 @@ export class GameRenderer implements IGameRenderer {
   /**
    * Dispatch cell action event
    */
-  private dispatchCellAction(x: number, y: number, action: 'reveal' | 'flag'): void {
-    const eventName = action === 'reveal' ? 'cellTap' : 'cellLongPress';
+  private dispatchCellAction(x: number, y: number, action: MoveAction): void {
+    const eventNames: Record<MoveAction, string> = { reveal: 'cellTap', flag: 'cellLongPress', chord: 'cellChord' };
+    const eventName = eventNames[action];
     const event = new CustomEvent(eventName, {
       detail: { x, y }
     });
@@ -825,8 +1031,7 @@ export class GameRenderer implements IGameRenderer {
    * Render focus indicator for keyboard navigation
    */
   private renderFocusIndicator(x: number, y: number): void {
-    const screenX = this.offsetX + x * this.cellSize;
-    const screenY = this.offsetY + y * this.cellSize;
+    const { x: screenX, y: screenY } = this.cellOrigin(x, y);
     
     // Draw focus ring
     this.ctx.strokeStyle = this.highContrastMode ? '#ffffff' : '#0066cc';
@@ -836,6 +1041,33 @@ export class GameRenderer implements IGameRenderer {
     this.ctx.setLineDash([]); // Reset line dash
   }
 
+  /**
+   * Get the player-visible state of a cell
+   */
+  private getCellState(cell: Cell): CellState {
+    if (cell.isRevealed) return CellState.REVEALED;
+    if (cell.isFlagged) return CellState.FLAGGED;
+    if (cell.isQuestioned) return CellState.QUESTIONED;
+    return CellState.HIDDEN;
+  }
+
+  /**
+   * Describe a cell for screen readers without giving away hidden mines
+   */
+  private describeCell(cell: Cell): string {
+    switch (this.getCellState(cell)) {
+      case CellState.REVEALED:
+        if (cell.isMine) return 'mine';
+        return cell.adjacentMines > 0 ? `${cell.adjacentMines} adjacent mines` : 'empty';
+      case CellState.FLAGGED:
+        return 'flagged';
+      case CellState.QUESTIONED:
+        return 'question mark';
+      default:
+        return 'hidden';
+    }
+  }
+
   /**
    * Announce cell information for screen readers
    */
@@ -843,7 +1075,10 @@ export class GameRenderer implements IGameRenderer {
     if (!this.screenReaderEnabled) return;
     
     // Create announcement text
-    const announcement = `Cell ${x + 1}, ${y + 1}`;
+    const cell = this.lastBoard?.getCell(x, y);
+    const announcement = cell
+      ? `Cell ${x + 1}, ${y + 1}: ${this.describeCell(cell)}`
+      : `Cell ${x + 1}, ${y + 1}`;
     
     // Use aria-live region for announcements
     let liveRegion = document.getElementById('minesweeper-announcements');
@@ -1,5 +1,6 @@
 import { ProbabilityMap } from '@/types';
 import { IGameBoard } from '@/interfaces/GameEngine';
+import { Topology, getTopology } from '@/game/Topology';
 
 export enum ProbabilityDetailLevel {
   OFF = 'off',
@@ -22,6 +23,7 @@ export class ProbabilityVisualizer {
   private cellSize: number = 40;
   private offsetX: number = 0;
   private offsetY: number = 0;
+  private topology: Topology = getTopology();
 
   constructor(canvas: HTMLCanvasElement, config?: Partial<ProbabilityVisualizerConfig>) {
     this.canvas = canvas;
@@ -56,7 +58,7 @@ export class ProbabilityVisualizer {
         const cell = cells[y][x];
         
         // Only show probabilities for unrevealed, unflagged cells
-        if (!cell.isRevealed && !cell.isFlagged) {
+        if (!cell.isRevealed && !cell.isFlagged && !cell.isMasked) {
           const key = `${x},${y}`;
           const probability = probabilities.cellProbabilities.get(key) || 0;
           
@@ -74,8 +76,7 @@ export class ProbabilityVisualizer {
     y: number, 
     probability: number
   ): void {
-    const screenX = this.offsetX + x * this.cellSize;
-    const screenY = this.offsetY + y * this.cellSize;
+    const { x: screenX, y: screenY } = this.cellOrigin(x, y);
 
     // Draw color-coded background
     const color = this.getProbabilityColor(probability);
@@ -164,8 +165,7 @@ export class ProbabilityVisualizer {
       return;
     }
 
-    const screenX = this.offsetX + x * this.cellSize;
-    const screenY = this.offsetY + y * this.cellSize;
+    const { x: screenX, y: screenY } = this.cellOrigin(x, y);
     
     const percentage = (probability * 100).toFixed(1);
     const tooltipText = `Mine probability: ${percentage}%`;
@@ -285,17 +285,31 @@ export class ProbabilityVisualizer {
   }
 
   /**
-   * Convert screen coordinates to cell coordinates
+   * Set the grid shape cells are laid out on
    */
-  screenToCell(screenX: number, screenY: number): { x: number; y: number } | null {
-    const cellX = Math.floor((screenX - this.offsetX) / this.cellSize);
-    const cellY = Math.floor((screenY - this.offsetY) / this.cellSize);
-    
-    if (cellX < 0 || cellY < 0) {
-      return null;
-    }
-    
-    return { x: cellX, y: cellY };
+  setTopology(topology: Topology): void {
+    this.topology = topology;
+  }
+
+  /**
+   * Top-left corner of the cellSize box centred on a cell
+   */
+  private cellOrigin(x: number, y: number): { x: number; y: number } {
+    const centre = this.topology.cellCentre(x, y, this.cellSize);
+    return { x: this.offsetX + centre.x - this.cellSize / 2, y: this.offsetY + centre.y - this.cellSize / 2 };
+  }
+
+  /**
+   * Convert screen coordinates to cell coordinates. Without a board only the top and left edges are checked.
+   */
+  screenToCell(screenX: number, screenY: number, board?: IGameBoard): { x: number; y: number } | null {
+    return this.topology.cellAt(
+      screenX - this.offsetX,
+      screenY - this.offsetY,
+      board?.getWidth() ?? Infinity,
+      board?.getHeight() ?? Infinity,
+      this.cellSize
+    );
   }
 
   /**
@@ -319,6 +319,11 @@ export class ErrorHandler {
   }
 
   private setupGlobalErrorHandlers(): void {
+    // Outside a browser, such as the terminal client, there is no window to listen on
+    if (typeof window === 'undefined') {
+      return;
+    }
+
     // Handle unhandled promise rejections
     window.addEventListener('unhandledrejection', (event) => {
       this.handleError(
@@ -0,0 +1,43 @@
+/**
+ * Minimal typed event emitter. The event map ties each event name to its payload type.
+ */
+export class EventEmitter<Events extends object> {
+  private listeners: { [K in keyof Events]?: Array<(event: Events[K]) => void> } = {};
+
+  /**
+   * Subscribe to an event. Returns a function that removes the listener again.
+   */
+  on<K extends keyof Events>(event: K, listener: (event: Events[K]) => void): () => void {
+    (this.listeners[event] ??= []).push(listener);
+    return () => this.off(event, listener);
+  }
+
+  off<K extends keyof Events>(event: K, listener: (event: Events[K]) => void): void {
+    const listeners = this.listeners[event];
+    const index = listeners ? listeners.indexOf(listener) : -1;
+    if (index > -1) {
+      listeners!.splice(index, 1);
+    }
+  }
+
+  /**
+   * Deliver an event to every listener. A failing listener does not stop the others.
+   */
+  emit<K extends keyof Events>(event: K, payload: Events[K]): void {
+    // Copy so listeners can unsubscribe while being notified
+    [...(this.listeners[event] ?? [])].forEach(listener => {
+      try {
+        listener(payload);
+      } catch (listenerError) {
+        console.error(`Event listener for '${String(event)}' failed:`, listenerError);
+      }
+    });
+  }
+
+  hasListeners(event?: keyof Events): boolean {
+    if (event !== undefined) {
+      return (this.listeners[event]?.length ?? 0) > 0;
+    }
+    return Object.values(this.listeners).some(listeners => (listeners as unknown[]).length > 0);
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * Deterministic pseudo-random number generation for reproducible boards
+ */
+
+export interface RandomNumberGenerator {
+  /**
+   * Return the next float in the range [0, 1)
+   */
+  next(): number;
+}
+
+export type RandomGeneratorFactory = (seed: number) => RandomNumberGenerator;
+
+/**
+ * Mulberry32 generator - small, fast and well distributed enough for mine placement
+ */
+export class Mulberry32 implements RandomNumberGenerator {
+  private state: number;
+
+  constructor(seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+}
+
+/**
+ * Default generator factory used by GameBoard
+ */
+export const createSeededRandom: RandomGeneratorFactory = (seed: number) => new Mulberry32(seed);
+
+/**
+ * Generate a fresh 32-bit seed for games that were not given one
+ */
+export function generateSeed(): number {
+  return Math.floor(Math.random() * 0x100000000) >>> 0;
+}
+
+/**
+ * Pick a random integer in [0, max) from the given generator
+ */
+export function randomInt(random: RandomNumberGenerator, max: number): number {
+  return Math.floor(random.next() * max);
+}
+
+/**
+ * Derive a 32-bit seed from text (FNV-1a), so the same text always gives the same board
+ */
+export function seedFromString(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
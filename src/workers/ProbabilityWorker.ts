@@ -2,7 +2,9 @@
  * Web Worker for probability calculations to avoid blocking the main UI thread
  */
 
-import { Cell, ProbabilityMap } from '@/types';
+import { Cell, GridTopology, NeighbourhoodRule, ProbabilityMap } from '@/types';
+import { CELL_FLAGGED, CELL_MASKED, CELL_MINE, CELL_REVEALED, CompactBoard, skipMasked } from '@/game/BoardCore';
+import { getNeighbourFunction } from '@/game/Neighbourhood';
 
 interface WorkerMessage {
   id: string;
@@ -22,15 +24,45 @@ interface BoardData {
   height: number;
   cells: Cell[][];
   remainingMines: number;
+  topology?: GridTopology;
+  neighbourhood?: NeighbourhoodRule;
+}
+
+interface IndexConstraint {
+  cells: number[]; // Cell indices (y * width + x)
+  mineCount: number;
+}
+
+/**
+ * Pack a Cell grid into the compact typed-array layout the engine works on
+ */
+function compactFromCells(boardData: BoardData): CompactBoard {
+  const { width, height, cells, remainingMines, topology, neighbourhood } = boardData;
+  const state = new Uint8Array(width * height);
+  const adjacent = new Uint8Array(width * height);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const cell = cells[y][x];
+      const index = y * width + x;
+      state[index] = (cell.isMine ? CELL_MINE : 0) |
+        (cell.isRevealed ? CELL_REVEALED : 0) |
+        (cell.isFlagged ? CELL_FLAGGED : 0) |
+        (cell.isMasked ? CELL_MASKED : 0);
+      adjacent[index] = cell.adjacentMines;
+    }
+  }
+
+  return { width, height, remainingMines, state, adjacent, topology, neighbourhood };
 }
 
 class ProbabilityWorkerEngine {
   private calculationTimeout: number = 5000;
 
-  calculateProbabilities(boardData: BoardData): ProbabilityMap {
+  calculateProbabilities(board: CompactBoard): ProbabilityMap {
     try {
       // Try exact CSP calculation first
-      const exactResult = this.calculateExactProbabilities(boardData);
+      const exactResult = this.calculateExactProbabilities(board);
       if (exactResult) {
         return {
           cellProbabilities: exactResult,
@@ -43,7 +75,7 @@ class ProbabilityWorkerEngine {
     }
 
     // Fallback to Monte Carlo simulation
-    const monteCarloResult = this.calculateMonteCarloProbabilities(boardData);
+    const monteCarloResult = this.calculateMonteCarloProbabilities(board);
     return {
       cellProbabilities: monteCarloResult,
       lastUpdated: new Date(),
@@ -51,12 +83,12 @@ class ProbabilityWorkerEngine {
     };
   }
 
-  private calculateExactProbabilities(boardData: BoardData): Map<string, number> | null {
+  private calculateExactProbabilities(board: CompactBoard): Map<string, number> | null {
     const startTime = Date.now();
     
     try {
-      const constraints = this.extractConstraints(boardData);
-      const unknownCells = this.getUnknownCells(boardData);
+      const constraints = this.extractConstraints(board);
+      const unknownCells = this.getUnknownCells(board);
       
       if (unknownCells.length === 0) {
         return new Map();
@@ -69,32 +101,28 @@ class ProbabilityWorkerEngine {
 
       // For small problem spaces, enumerate all solutions
       if (unknownCells.length <= 15) { // Reduced threshold for worker
-        return this.enumerateAllSolutions(constraints, unknownCells, boardData, startTime);
+        return this.enumerateAllSolutions(constraints, unknownCells, board, startTime);
       }
 
       // For larger spaces, use constraint propagation
-      return this.solveWithConstraintPropagation(constraints, unknownCells, boardData);
+      return this.solveWithConstraintPropagation(constraints, unknownCells, board);
     } catch (error) {
       console.error('Exact probability calculation failed in worker:', error);
       return null;
     }
   }
 
-  private calculateMonteCarloProbabilities(boardData: BoardData): Map<string, number> {
-    const probabilities = new Map<string, number>();
-    const unknownCells = this.getUnknownCells(boardData);
-    const totalRemainingMines = Math.max(0, boardData.remainingMines);
+  private calculateMonteCarloProbabilities(board: CompactBoard): Map<string, number> {
+    const unknownCells = this.getUnknownCells(board);
+    const totalRemainingMines = Math.max(0, board.remainingMines);
     const simulations = Math.min(5000, unknownCells.length * 500); // Reduced for worker
     
     if (unknownCells.length === 0) {
-      return probabilities;
+      return new Map();
     }
 
-    // Initialize counters
-    unknownCells.forEach(cell => {
-      probabilities.set(`${cell.x},${cell.y}`, 0);
-    });
-
+    const mineCounts = new Uint32Array(board.state.length);
+    const assignment = new Uint8Array(board.state.length);
     let validSimulations = 0;
     const startTime = Date.now();
 
@@ -106,111 +134,84 @@ class ProbabilityWorkerEngine {
         break;
       }
 
-      const assignment = this.generateRandomValidAssignment(unknownCells, totalRemainingMines, boardData);
-      
-      if (assignment) {
+      if (this.generateRandomValidAssignment(unknownCells, totalRemainingMines, board, assignment)) {
         validSimulations++;
-        assignment.forEach((hasMine, key) => {
-          if (hasMine) {
-            probabilities.set(key, (probabilities.get(key) || 0) + 1);
-          }
+        unknownCells.forEach(index => {
+          mineCounts[index] += assignment[index];
         });
       }
     }
 
-    // Convert counts to probabilities
-    if (validSimulations > 0) {
-      probabilities.forEach((count, key) => {
-        probabilities.set(key, Math.max(0, Math.min(1, count / validSimulations)));
-      });
-    } else {
-      // Fallback to uniform distribution
-      const uniformProbability = totalRemainingMines / unknownCells.length;
-      unknownCells.forEach(cell => {
-        probabilities.set(`${cell.x},${cell.y}`, Math.max(0, Math.min(1, uniformProbability)));
-      });
-    }
+    // Convert counts to probabilities, falling back to a uniform distribution
+    const probabilities = new Map<string, number>();
+    const uniformProbability = totalRemainingMines / unknownCells.length;
+    unknownCells.forEach(index => {
+      const probability = validSimulations > 0 ? mineCounts[index] / validSimulations : uniformProbability;
+      probabilities.set(this.keyOf(index, board), Math.max(0, Math.min(1, probability)));
+    });
 
     return probabilities;
   }
 
-  private extractConstraints(boardData: BoardData): Array<{ cells: Cell[]; mineCount: number }> {
-    const constraints: Array<{ cells: Cell[]; mineCount: number }> = [];
-    const { cells, width, height } = boardData;
-
-    for (let y = 0; y < height; y++) {
-      for (let x = 0; x < width; x++) {
-        const cell = cells[y][x];
-        
-        if (cell.isRevealed && !cell.isMine) {
-          const adjacentCells = this.getAdjacentCells(x, y, boardData);
-          const unknownAdjacent = adjacentCells.filter(c => !c.isRevealed && !c.isFlagged);
-          const flaggedAdjacent = adjacentCells.filter(c => c.isFlagged);
-          
-          if (unknownAdjacent.length > 0) {
-            const remainingMines = cell.adjacentMines - flaggedAdjacent.length;
-            const safeMineCount = Math.max(0, Math.min(remainingMines, unknownAdjacent.length));
-            constraints.push({
-              cells: unknownAdjacent,
-              mineCount: safeMineCount
-            });
-          }
+  private extractConstraints(board: CompactBoard): IndexConstraint[] {
+    const constraints: IndexConstraint[] = [];
+    const { state, adjacent, width, height } = board;
+    const forEachNeighbour = skipMasked(getNeighbourFunction(board.topology, board.neighbourhood), state);
+
+    for (let index = 0; index < state.length; index++) {
+      if ((state[index] & (CELL_REVEALED | CELL_MINE)) !== CELL_REVEALED) continue;
+
+      const unknownAdjacent: number[] = [];
+      let flaggedAdjacent = 0;
+      forEachNeighbour(width, height, index, neighbour => {
+        if (state[neighbour] & CELL_FLAGGED) {
+          flaggedAdjacent++;
+        } else if (!(state[neighbour] & CELL_REVEALED)) {
+          unknownAdjacent.push(neighbour);
         }
+      });
+
+      if (unknownAdjacent.length > 0) {
+        const remainingMines = adjacent[index] - flaggedAdjacent;
+        const safeMineCount = Math.max(0, Math.min(remainingMines, unknownAdjacent.length));
+        constraints.push({
+          cells: unknownAdjacent,
+          mineCount: safeMineCount
+        });
       }
     }
 
     return constraints;
   }
 
-  private getUnknownCells(boardData: BoardData): Cell[] {
-    const unknown: Cell[] = [];
-    const { cells, width, height } = boardData;
+  private getUnknownCells(board: CompactBoard): number[] {
+    const unknown: number[] = [];
+    const { state } = board;
 
-    for (let y = 0; y < height; y++) {
-      for (let x = 0; x < width; x++) {
-        const cell = cells[y][x];
-        if (!cell.isRevealed && !cell.isFlagged) {
-          unknown.push(cell);
-        }
+    for (let index = 0; index < state.length; index++) {
+      // Question marks are only a player note, so those cells stay unknown; holes are not cells at all
+      if (!(state[index] & (CELL_REVEALED | CELL_FLAGGED | CELL_MASKED))) {
+        unknown.push(index);
       }
     }
 
     return unknown;
   }
 
-  private getAdjacentCells(x: number, y: number, boardData: BoardData): Cell[] {
-    const adjacent: Cell[] = [];
-    const { cells, width, height } = boardData;
-
-    for (let dy = -1; dy <= 1; dy++) {
-      for (let dx = -1; dx <= 1; dx++) {
-        if (dx === 0 && dy === 0) continue;
-        
-        const nx = x + dx;
-        const ny = y + dy;
-        
-        if (nx >= 0 && nx < width && ny >= 0 && ny < height) {
-          adjacent.push(cells[ny][nx]);
-        }
-      }
-    }
-
-    return adjacent;
+  private keyOf(index: number, board: CompactBoard): string {
+    const x = index % board.width;
+    return `${x},${(index - x) / board.width}`;
   }
 
   private enumerateAllSolutions(
-    constraints: Array<{ cells: Cell[]; mineCount: number }>,
-    unknownCells: Cell[],
-    boardData: BoardData,
+    constraints: IndexConstraint[],
+    unknownCells: number[],
+    board: CompactBoard,
     startTime: number
   ): Map<string, number> {
-    const probabilities = new Map<string, number>();
-    const totalRemainingMines = boardData.remainingMines;
-    
-    // Initialize probabilities
-    unknownCells.forEach(cell => {
-      probabilities.set(`${cell.x},${cell.y}`, 0);
-    });
+    const totalRemainingMines = board.remainingMines;
+    const mineCounts = new Uint32Array(unknownCells.length);
+    const assignment = new Uint8Array(board.state.length);
 
     let validSolutions = 0;
     const maxCombinations = Math.min(Math.pow(2, unknownCells.length), 100000); // Limit for worker
@@ -223,59 +224,50 @@ class ProbabilityWorkerEngine {
         break;
       }
 
-      const assignment = new Map<string, boolean>();
       let mineCount = 0;
       
       // Convert binary representation to mine assignment
       for (let j = 0; j < unknownCells.length; j++) {
-        const hasMine = (i & (1 << j)) !== 0;
-        const cell = unknownCells[j];
-        assignment.set(`${cell.x},${cell.y}`, hasMine);
-        if (hasMine) mineCount++;
+        const hasMine = (i & (1 << j)) !== 0 ? 1 : 0;
+        assignment[unknownCells[j]] = hasMine;
+        mineCount += hasMine;
       }
       
       // Check if this assignment satisfies all constraints
       if (mineCount === totalRemainingMines && this.satisfiesConstraints(assignment, constraints)) {
         validSolutions++;
-        
-        // Add to probability counts
-        assignment.forEach((hasMine, key) => {
-          if (hasMine) {
-            probabilities.set(key, (probabilities.get(key) || 0) + 1);
-          }
-        });
+        for (let j = 0; j < unknownCells.length; j++) {
+          mineCounts[j] += assignment[unknownCells[j]];
+        }
       }
     }
 
     // Convert counts to probabilities
-    if (validSolutions > 0) {
-      probabilities.forEach((count, key) => {
-        probabilities.set(key, count / validSolutions);
-      });
-    }
+    const probabilities = new Map<string, number>();
+    unknownCells.forEach((index, j) => {
+      probabilities.set(this.keyOf(index, board), validSolutions > 0 ? mineCounts[j] / validSolutions : 0);
+    });
 
     return probabilities;
   }
 
   private solveWithConstraintPropagation(
-    constraints: Array<{ cells: Cell[]; mineCount: number }>,
-    unknownCells: Cell[],
-    boardData: BoardData
+    constraints: IndexConstraint[],
+    unknownCells: number[],
+    board: CompactBoard
   ): Map<string, number> {
-    const probabilities = new Map<string, number>();
-    const totalRemainingMines = Math.max(0, boardData.remainingMines);
+    const totalRemainingMines = Math.max(0, board.remainingMines);
     const totalUnknownCells = unknownCells.length;
     
     if (totalUnknownCells === 0) {
-      return probabilities;
+      return new Map();
     }
 
     // Base probability assuming uniform distribution
+    const cellProbabilities = new Float64Array(board.state.length);
     const baseProbability = totalRemainingMines / totalUnknownCells;
-    
-    // Initialize with base probability
-    unknownCells.forEach(cell => {
-      probabilities.set(`${cell.x},${cell.y}`, baseProbability);
+    unknownCells.forEach(index => {
+      cellProbabilities[index] = baseProbability;
     });
 
     // Adjust probabilities based on local constraints
@@ -283,29 +275,25 @@ class ProbabilityWorkerEngine {
       const safeMineCount = Math.max(0, constraint.mineCount);
       const localProbability = constraint.cells.length > 0 ? safeMineCount / constraint.cells.length : 0;
       
-      constraint.cells.forEach(cell => {
-        const key = `${cell.x},${cell.y}`;
-        const currentProb = probabilities.get(key) || 0;
-        const newProb = Math.max(0, Math.min(1, (currentProb + localProbability) / 2));
-        probabilities.set(key, newProb);
+      constraint.cells.forEach(index => {
+        cellProbabilities[index] = Math.max(0, Math.min(1, (cellProbabilities[index] + localProbability) / 2));
       });
     }
 
+    const probabilities = new Map<string, number>();
+    unknownCells.forEach(index => {
+      probabilities.set(this.keyOf(index, board), cellProbabilities[index]);
+    });
+
     return probabilities;
   }
 
-  private satisfiesConstraints(
-    assignment: Map<string, boolean>,
-    constraints: Array<{ cells: Cell[]; mineCount: number }>
-  ): boolean {
+  private satisfiesConstraints(assignment: Uint8Array, constraints: IndexConstraint[]): boolean {
     for (const constraint of constraints) {
       let mineCount = 0;
       
-      for (const cell of constraint.cells) {
-        const key = `${cell.x},${cell.y}`;
-        if (assignment.get(key)) {
-          mineCount++;
-        }
+      for (const index of constraint.cells) {
+        mineCount += assignment[index];
       }
       
       if (mineCount !== constraint.mineCount) {
@@ -316,61 +304,50 @@ class ProbabilityWorkerEngine {
     return true;
   }
 
+  /**
+   * Fill the assignment with a random placement of the remaining mines.
+   * Returns whether it agrees with every revealed number.
+   */
   private generateRandomValidAssignment(
-    unknownCells: Cell[],
+    unknownCells: number[],
     totalMines: number,
-    boardData: BoardData
-  ): Map<string, boolean> | null {
-    const assignment = new Map<string, boolean>();
-    
+    board: CompactBoard,
+    assignment: Uint8Array
+  ): boolean {
     // Initialize all as non-mines
-    unknownCells.forEach(cell => {
-      assignment.set(`${cell.x},${cell.y}`, false);
+    unknownCells.forEach(index => {
+      assignment[index] = 0;
     });
 
     // Randomly place mines
     const shuffled = [...unknownCells].sort(() => Math.random() - 0.5);
     for (let i = 0; i < Math.min(totalMines, shuffled.length); i++) {
-      const cell = shuffled[i];
-      assignment.set(`${cell.x},${cell.y}`, true);
-    }
-
-    // Check if assignment is valid
-    if (this.isValidAssignment(assignment, boardData)) {
-      return assignment;
+      assignment[shuffled[i]] = 1;
     }
 
-    return null;
+    return this.isValidAssignment(assignment, board);
   }
 
-  private isValidAssignment(assignment: Map<string, boolean>, boardData: BoardData): boolean {
-    const { cells, width, height } = boardData;
+  private isValidAssignment(assignment: Uint8Array, board: CompactBoard): boolean {
+    const { state, adjacent, width, height } = board;
+    const forEachNeighbour = skipMasked(getNeighbourFunction(board.topology, board.neighbourhood), state);
     
-    for (let y = 0; y < height; y++) {
-      for (let x = 0; x < width; x++) {
-        const cell = cells[y][x];
-        
-        if (cell.isRevealed && !cell.isMine) {
-          const adjacentCells = this.getAdjacentCells(x, y, boardData);
-          let mineCount = 0;
-          
-          for (const adjCell of adjacentCells) {
-            if (adjCell.isFlagged) {
-              mineCount++;
-            } else if (!adjCell.isRevealed) {
-              const key = `${adjCell.x},${adjCell.y}`;
-              if (assignment.get(key)) {
-                mineCount++;
-              }
-            } else if (adjCell.isMine) {
-              mineCount++;
-            }
-          }
-          
-          if (mineCount !== cell.adjacentMines) {
-            return false;
-          }
+    for (let index = 0; index < state.length; index++) {
+      if ((state[index] & (CELL_REVEALED | CELL_MINE)) !== CELL_REVEALED) continue;
+
+      let mineCount = 0;
+      forEachNeighbour(width, height, index, neighbour => {
+        if (state[neighbour] & CELL_FLAGGED) {
+          mineCount++;
+        } else if (!(state[neighbour] & CELL_REVEALED)) {
+          mineCount += assignment[neighbour];
+        } else if (state[neighbour] & CELL_MINE) {
+          mineCount++;
         }
+      });
+      
+      if (mineCount !== adjacent[index]) {
+        return false;
       }
     }
     
@@ -389,7 +366,8 @@ self.onmessage = function(event: MessageEvent<WorkerMessage>) {
     
     switch (type) {
       case 'calculateProbabilities':
-        result = workerEngine.calculateProbabilities(data.boardData);
+        // Boards posted as typed arrays arrive zero-copy; Cell grids are packed on arrival
+        result = workerEngine.calculateProbabilities(data.compactBoard ?? compactFromCells(data.boardData));
         // Convert Map to object for serialization
         result.cellProbabilities = Object.fromEntries(result.cellProbabilities);
         break;
@@ -80,6 +80,27 @@ describe('AdaptiveDifficultyManager', () => {
       expect(adjustment2).toBeNull();
     });
 
+    it('should never adjust difficulty after a daily challenge', () => {
+      const gameResult: GameResult = {
+        gameId: 'daily-1',
+        won: true,
+        playTime: 60,
+        hintsUsed: 0,
+        difficulty: DifficultyLevel.INTERMEDIATE,
+        timestamp: new Date(),
+        boardSize: { width: 16, height: 16 },
+        mineCount: 40
+      };
+
+      // Build a winning streak that would normally raise the difficulty
+      for (let i = 0; i < 5; i++) {
+        profile.recordGameResult({ ...gameResult, gameId: `test-${i}`, difficulty: DifficultyLevel.BEGINNER });
+      }
+
+      expect(difficultyManager.processGameResult({ ...gameResult, dailyChallenge: '2026-10-19' })).toBeNull();
+      expect(difficultyManager.getCurrentDifficulty().level).toBe(DifficultyLevel.BEGINNER);
+    });
+
     it('should track adjustment history', () => {
       const customDifficulty = {
         width: 12,
@@ -161,6 +182,42 @@ describe('AdaptiveDifficultyManager', () => {
       const adjustment = difficultyManager.processGameResult(gameResult);
       expect(adjustment).toBeNull();
     });
+
+    it('should use the mine distribution as a last difficulty step', () => {
+      const gameResult: GameResult = {
+        gameId: 'test-win',
+        won: true,
+        playTime: 120,
+        hintsUsed: 0,
+        difficulty: DifficultyLevel.CUSTOM,
+        timestamp: new Date(),
+        boardSize: { width: 30, height: 20 },
+        mineCount: 150,
+        mineDistribution: 'sparse-edge'
+      };
+
+      // At full size and density, winning spreads the mines out evenly
+      difficultyManager.setDifficulty({ width: 30, height: 20, mineCount: 150, level: DifficultyLevel.CUSTOM, mineDistribution: 'sparse-edge' });
+      difficultyManager.updateConfig({ adjustmentCooldown: 0 });
+      for (let i = 0; i < 10; i++) {
+        profile.recordGameResult({ ...gameResult, gameId: `win-${i}` });
+      }
+      const increase = difficultyManager.processGameResult(gameResult);
+      expect(increase?.newDifficulty).toMatchObject({ mineCount: 150, mineDistribution: 'uniform' });
+
+      // On the smallest board, losing bunches them up
+      const losingProfileManager = new ProfileManager(false);
+      const losingProfile = losingProfileManager.initialize('losing-player');
+      const losingManager = new AdaptiveDifficultyManager(losingProfileManager);
+      losingManager.setDifficulty({ width: 8, height: 8, mineCount: 5, level: DifficultyLevel.CUSTOM });
+      losingManager.updateConfig({ adjustmentCooldown: 0 });
+      const loss = { ...gameResult, won: false, boardSize: { width: 8, height: 8 }, mineCount: 5, mineDistribution: 'uniform' };
+      for (let i = 0; i < 10; i++) {
+        losingProfile.recordGameResult({ ...loss, gameId: `loss-${i}` });
+      }
+      const decrease = losingManager.processGameResult(loss);
+      expect(decrease?.newDifficulty).toMatchObject({ width: 8, height: 8, mineCount: 5, mineDistribution: 'sparse-edge' });
+    });
   });
 
   describe('configuration', () => {
@@ -1,6 +1,6 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { PlayerProfile, GameResult } from '../../src/adaptive/PlayerProfile.js';
-import { DifficultyLevel, SkillArea } from '../../src/types/index.js';
+import { DifficultyLevel, GameMode, SkillArea } from '../../src/types/index.js';
 
 describe('PlayerProfile', () => {
   let profile: PlayerProfile;
@@ -85,6 +85,53 @@ describe('PlayerProfile', () => {
       expect(profile.skillRating).toBeGreaterThan(initialRating);
     });
 
+    it('should not let assisted games inflate the profile', () => {
+      const assistedWin: GameResult = {
+        gameId: 'game-1',
+        won: true,
+        playTime: 30,
+        hintsUsed: 0,
+        difficulty: DifficultyLevel.EXPERT,
+        timestamp: new Date(),
+        boardSize: { width: 30, height: 16 },
+        mineCount: 99,
+        assisted: true
+      };
+
+      profile.recordGameResult(assistedWin);
+
+      expect(profile.metrics.assistedGames).toBe(1);
+      expect(profile.metrics.gamesPlayed).toBe(0);
+      expect(profile.metrics.bestTime).toBe(Infinity);
+      expect(profile.metrics.recentGames).toHaveLength(0);
+      expect(profile.skillRating).toBe(1000);
+    });
+
+    it('should track daily challenges per day without touching the rating or streaks', () => {
+      const challenge: GameResult = {
+        gameId: 'daily-1',
+        won: false,
+        playTime: 40,
+        hintsUsed: 0,
+        difficulty: DifficultyLevel.INTERMEDIATE,
+        timestamp: new Date(),
+        boardSize: { width: 16, height: 16 },
+        mineCount: 40,
+        dailyChallenge: '2026-10-19'
+      };
+
+      profile.recordGameResult(challenge);
+      profile.recordGameResult({ ...challenge, gameId: 'daily-2', won: true, playTime: 90 });
+      profile.recordGameResult({ ...challenge, gameId: 'daily-3', won: true, playTime: 70 });
+      profile.recordGameResult({ ...challenge, gameId: 'daily-4', won: true, playTime: 20, assisted: true });
+
+      expect(profile.getDailyChallengeRecord('2026-10-19')).toEqual({ attempts: 4, completed: true, bestTime: 70 });
+      expect(profile.getDailyChallengeRecord('2026-10-20')).toBeNull();
+      expect(profile.metrics.gamesPlayed).toBe(0);
+      expect(profile.metrics.currentStreak).toBe(0);
+      expect(profile.skillRating).toBe(1000);
+    });
+
     it('should maintain recent games history (max 10)', () => {
       // Add 12 games
       for (let i = 0; i < 12; i++) {
@@ -106,6 +153,42 @@ describe('PlayerProfile', () => {
     });
   });
 
+  describe('game mode personal bests', () => {
+    it('should keep the best run per mode and time limit', () => {
+      const run = { mode: GameMode.TIME_ATTACK as const, boardsCleared: 3, boardsLost: 1, timeLimit: 180, timestamp: new Date() };
+
+      expect(profile.recordGameModeResult(run)).toBe(true);
+      expect(profile.recordGameModeResult({ ...run, boardsCleared: 2 })).toBe(false);
+      expect(profile.recordGameModeResult({ ...run, boardsLost: 0 })).toBe(true);
+      expect(profile.recordGameModeResult({ ...run, boardsCleared: 1, timeLimit: 60 })).toBe(true);
+
+      expect(profile.getPersonalBest(GameMode.TIME_ATTACK, 180)).toMatchObject({ boardsCleared: 3, boardsLost: 0 });
+      expect(profile.getPersonalBest(GameMode.TIME_ATTACK, 60)).toMatchObject({ boardsCleared: 1 });
+      expect(profile.getPersonalBest(GameMode.SURVIVAL)).toBeNull();
+      expect(profile.metrics.gamesPlayed).toBe(0);
+    });
+
+    it('should break survival and countdown ties on time', () => {
+      const survival = { mode: GameMode.SURVIVAL as const, boardsCleared: 4, finalDensity: 0.2, duration: 300, timestamp: new Date() };
+      profile.recordGameModeResult(survival);
+      expect(profile.recordGameModeResult({ ...survival, duration: 320 })).toBe(false);
+      expect(profile.recordGameModeResult({ ...survival, duration: 250 })).toBe(true);
+
+      const countdown = { mode: GameMode.COUNTDOWN as const, boardsCleared: 2, boardTimeLimit: 60, fastestBoard: 40, timestamp: new Date() };
+      profile.recordGameModeResult(countdown);
+      expect(profile.recordGameModeResult({ ...countdown, fastestBoard: 35 })).toBe(true);
+      expect(profile.getPersonalBest(GameMode.COUNTDOWN, 60)).toMatchObject({ fastestBoard: 35 });
+    });
+
+    it('should keep personal bests through serialization', () => {
+      const timestamp = new Date('2026-10-19T12:00:00Z');
+      profile.recordGameModeResult({ mode: GameMode.SURVIVAL, boardsCleared: 5, finalDensity: 0.25, duration: 400, timestamp });
+
+      const best = PlayerProfile.fromJSON(profile.toJSON()).getPersonalBest(GameMode.SURVIVAL);
+      expect(best).toEqual({ mode: GameMode.SURVIVAL, boardsCleared: 5, finalDensity: 0.25, duration: 400, timestamp });
+    });
+  });
+
   describe('difficulty recommendation', () => {
     it('should recommend beginner for new players', () => {
       expect(profile.getRecommendedDifficulty()).toBe(DifficultyLevel.BEGINNER);
@@ -158,6 +241,18 @@ describe('PlayerProfile', () => {
       expect(deserializedProfile.metrics.recentGames.length).toBe(1);
       expect(deserializedProfile.metrics.recentGames[0].gameId).toBe('game-1');
     });
+
+    it('should keep daily challenge records through serialization', () => {
+      profile.dailyChallenges['2026-10-19'] = { attempts: 2, completed: true, bestTime: 85 };
+
+      const deserializedProfile = PlayerProfile.fromJSON(profile.toJSON());
+      expect(deserializedProfile.getDailyChallengeRecord('2026-10-19')).toEqual({ attempts: 2, completed: true, bestTime: 85 });
+
+      // Profiles saved before daily challenges existed have no records
+      const legacy = JSON.parse(profile.toJSON());
+      delete legacy.dailyChallenges;
+      expect(PlayerProfile.fromJSON(JSON.stringify(legacy)).dailyChallenges).toEqual({});
+    });
   });
 
   describe('improvement areas', () => {
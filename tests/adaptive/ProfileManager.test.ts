@@ -2,7 +2,7 @@ import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import * as fc from 'fast-check';
 import { ProfileManager } from '../../src/adaptive/ProfileManager.js';
 import { PlayerProfile, GameResult } from '../../src/adaptive/PlayerProfile.js';
-import { DifficultyLevel } from '../../src/types/index.js';
+import { DifficultyLevel, GameMode } from '../../src/types/index.js';
 
 // Mock localStorage for testing
 const localStorageMock = (() => {
@@ -110,6 +110,26 @@ describe('ProfileManager', () => {
     });
   });
 
+  describe('game mode personal bests', () => {
+    it('should store personal bests and save them with the profile', () => {
+      manager.initialize('test-player');
+      const run = { mode: GameMode.COUNTDOWN as const, boardsCleared: 3, boardTimeLimit: 60, fastestBoard: 25, timestamp: new Date() };
+
+      expect(manager.recordGameModeResult(run)).toBe(true);
+      expect(manager.recordGameModeResult({ ...run, boardsCleared: 1 })).toBe(false);
+
+      const reloaded = new ProfileManager(false);
+      reloaded.initialize('test-player');
+      expect(reloaded.getPersonalBest(GameMode.COUNTDOWN, 60)).toMatchObject({ boardsCleared: 3, fastestBoard: 25 });
+      expect(reloaded.getPersonalBest(GameMode.COUNTDOWN, 30)).toBeNull();
+    });
+
+    it('should throw error when recording a run without active profile', () => {
+      const run = { mode: GameMode.SURVIVAL as const, boardsCleared: 0, finalDensity: 0.12, duration: 10, timestamp: new Date() };
+      expect(() => manager.recordGameModeResult(run)).toThrow('No active profile');
+    });
+  });
+
   describe('performance statistics', () => {
     it('should return performance stats for active profile', () => {
       manager.initialize('test-player');
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { FrontierProbabilityCalculator } from '@/ai/FrontierProbabilityCalculator';
+import { GameBoard } from '@/game/GameBoard';
+import { ChunkedBoard } from '@/game/ChunkedBoard';
+import { DifficultyLevel, FirstClickPolicy } from '@/types';
+
+/**
+ * Build a board from rows of '*' (mine), 'r' (revealed) and '.' (hidden)
+ */
+function boardFrom(rows: string[]): GameBoard {
+  const board = new GameBoard({
+    width: rows[0].length,
+    height: rows.length,
+    mineCount: 0,
+    level: DifficultyLevel.CUSTOM,
+    firstClickPolicy: FirstClickPolicy.NONE
+  });
+  const cells = board.getCells().flat();
+  cells.forEach(cell => cell.isMine = rows[cell.y][cell.x] === '*');
+  cells.forEach(cell => {
+    cell.adjacentMines = board.getAdjacentCells(cell.x, cell.y).filter(neighbour => neighbour.isMine).length;
+    cell.isRevealed = rows[cell.y][cell.x] === 'r';
+  });
+  return board;
+}
+
+describe('FrontierProbabilityCalculator', () => {
+  it('should find the safe cells around a number that is already satisfied', () => {
+    const board = boardFrom([
+      '*..',
+      'rr.'
+    ]);
+    const probabilities = new FrontierProbabilityCalculator(0.2).calculateProbabilities(board).cellProbabilities;
+
+    expect(probabilities.get('0,0')).toBeCloseTo(0.5);
+    expect(probabilities.get('1,0')).toBeCloseTo(0.5);
+    expect(probabilities.get('2,0')).toBe(0);
+    expect(probabilities.get('2,1')).toBe(0);
+  });
+
+  it('should weight layouts with fewer mines by the density', () => {
+    // Both numbers see one mine: the middle cell alone, or the two outer cells together
+    const board = boardFrom([
+      '.*.',
+      'r.r'
+    ]);
+    const calculator = new FrontierProbabilityCalculator(0.2);
+    const probabilities = calculator.calculateProbabilities(board).cellProbabilities;
+    const ratio = 0.2 / 0.8;
+
+    expect(probabilities.get('1,0')).toBeCloseTo(1 / (2 + ratio));
+    expect(probabilities.get('1,1')).toBeCloseTo(1 / (2 + ratio));
+    expect(probabilities.get('0,0')).toBeCloseTo(ratio / (2 + ratio));
+    expect(calculator.getCalculationMethod()).toBe('exact');
+  });
+
+  it('should only cover the region it is given', () => {
+    const board = boardFrom(Array(10).fill('..........'));
+    const calculator = new FrontierProbabilityCalculator(0.15);
+    calculator.setRegion({ x: 2, y: 2, width: 3, height: 3 });
+    const probabilities = calculator.calculateProbabilities(board).cellProbabilities;
+
+    expect(probabilities.size).toBe(9);
+    expect(probabilities.get('3,3')).toBe(0.15);
+    expect(probabilities.has('0,0')).toBe(false);
+  });
+
+  it('should keep to the revealed area of an endless board', () => {
+    const board = new ChunkedBoard({ seed: 21, chunkSize: 8 });
+    const start = board.getStartCell();
+    const revealed = board.revealCellBatch(start.x, start.y);
+    const probabilities = new FrontierProbabilityCalculator().calculateProbabilities(board).cellProbabilities;
+
+    const xs = revealed.map(cell => cell.x);
+    expect(probabilities.size).toBeGreaterThan(0);
+    probabilities.forEach((probability, key) => {
+      const [x] = key.split(',').map(Number);
+      expect(x).toBeGreaterThanOrEqual(Math.min(...xs) - 3);
+      expect(x).toBeLessThanOrEqual(Math.max(...xs) + 3);
+      expect(probability).toBeGreaterThanOrEqual(0);
+      expect(probability).toBeLessThanOrEqual(1);
+    });
+  });
+});
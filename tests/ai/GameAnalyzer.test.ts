@@ -1,7 +1,8 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { GameAnalyzer } from '@/ai/GameAnalyzer';
 import { GameBoard } from '@/game/GameBoard';
-import { DifficultyLevel, Move, GameAnalysis, SkillArea } from '@/types';
+import { GameLogic } from '@/game/GameLogic';
+import { DifficultyLevel, FirstClickPolicy, Move, GameAnalysis, SkillArea } from '@/types';
 import * as fc from 'fast-check';
 
 describe('GameAnalyzer', () => {
@@ -25,7 +26,6 @@ describe('GameAnalyzer', () => {
           cell: { x: 0, y: 0 },
           action: 'reveal',
           timestamp: new Date(),
-          boardState: board.serialize(),
           wasOptimal: true,
           alternativeOptions: []
         }
@@ -42,6 +42,37 @@ describe('GameAnalyzer', () => {
       expect(analysis).toHaveProperty('strategicInsights');
       expect(analysis).toHaveProperty('skillDemonstrated');
     });
+
+    it('should evaluate chord moves against the flags they relied on', () => {
+      // Chord around a numbered cell with every mine flagged, then with a safe cell flagged instead
+      const playChord = (wrongFlag: boolean) => {
+        const gameLogic = new GameLogic();
+        const board = gameLogic.startGame(new GameBoard({
+          width: 5,
+          height: 5,
+          mineCount: 5,
+          level: DifficultyLevel.BEGINNER,
+          seed: 42,
+          firstClickPolicy: FirstClickPolicy.NONE
+        }));
+        const target = board.getCells().flat().find(cell =>
+          !cell.isMine && cell.adjacentMines > 0 &&
+          board.getAdjacentCells(cell.x, cell.y).some(n => !n.isMine))!;
+        const neighbours = board.getAdjacentCells(target.x, target.y);
+        const flags = neighbours.filter(n => n.isMine);
+        if (wrongFlag) {
+          flags.splice(0, 1, neighbours.find(n => !n.isMine)!);
+        }
+
+        gameLogic.makeMove(board, target.x, target.y, 'reveal');
+        flags.forEach(n => gameLogic.makeMove(board, n.x, n.y, 'flag'));
+        expect(gameLogic.makeMove(board, target.x, target.y, 'chord')).toBe(true);
+        return analyzer.analyzeGame(gameLogic.getGameHistory(), board);
+      };
+
+      expect(playChord(false).optimalMoves).toBe(1);
+      expect(playChord(true).optimalMoves).toBe(0);
+    });
   });
 
   describe('Property-Based Tests', () => {
@@ -90,7 +121,6 @@ describe('GameAnalyzer', () => {
                 cell: { x: m.x, y: m.y },
                 action: m.action,
                 timestamp: new Date(),
-                boardState: board.serialize(),
                 wasOptimal: m.wasOptimal,
                 alternativeOptions: []
               }));
@@ -191,7 +221,6 @@ describe('GameAnalyzer', () => {
                 cell: { x: m.x, y: m.y },
                 action: m.action,
                 timestamp: new Date(),
-                boardState: board.serialize(),
                 wasOptimal: m.wasOptimal,
                 alternativeOptions: []
               }));
@@ -205,7 +234,7 @@ describe('GameAnalyzer', () => {
             const expectedSuboptimal = moves.filter(m => !m.wasOptimal).length;
 
             // Identify suboptimal moves
-            const suboptimalMoves = analyzer.identifySuboptimalMoves(moves);
+            const suboptimalMoves = analyzer.identifySuboptimalMoves(moves, board);
 
             // Property: Should identify exactly the moves marked as suboptimal
             expect(suboptimalMoves.length).toBe(expectedSuboptimal);
@@ -258,7 +287,6 @@ describe('GameAnalyzer', () => {
                 }),
                 action: fc.constantFrom('reveal' as const, 'flag' as const),
                 timestamp: fc.date(),
-                boardState: fc.string(),
                 wasOptimal: fc.constant(false),
                 alternativeOptions: fc.array(fc.record({
                   cell: fc.record({
@@ -281,7 +309,6 @@ describe('GameAnalyzer', () => {
                 }),
                 action: fc.constantFrom('reveal' as const, 'flag' as const),
                 timestamp: fc.date(),
-                boardState: fc.string(),
                 wasOptimal: fc.constant(false),
                 alternativeOptions: fc.array(fc.record({
                   cell: fc.record({
@@ -393,7 +420,6 @@ describe('GameAnalyzer', () => {
                   }),
                   action: fc.constantFrom('reveal' as const, 'flag' as const),
                   timestamp: fc.date(),
-                  boardState: fc.string(),
                   wasOptimal: fc.constant(false),
                   alternativeOptions: fc.array(fc.record({
                     cell: fc.record({
@@ -416,7 +442,6 @@ describe('GameAnalyzer', () => {
                   }),
                   action: fc.constantFrom('reveal' as const, 'flag' as const),
                   timestamp: fc.date(),
-                  boardState: fc.string(),
                   wasOptimal: fc.constant(false),
                   alternativeOptions: fc.array(fc.record({
                     cell: fc.record({
@@ -531,7 +556,6 @@ describe('GameAnalyzer', () => {
               cell: { x: m.x, y: m.y },
               action: m.action,
               timestamp: new Date(m.timestamp.getTime() + index * 1000), // Ensure chronological order
-              boardState: `board_state_${index}`,
               wasOptimal: m.wasOptimal,
               alternativeOptions: m.wasOptimal ? [] : [
                 {
@@ -662,7 +686,6 @@ describe('GameAnalyzer', () => {
           cell: { x: 0, y: 0 },
           action: 'reveal',
           timestamp: new Date(),
-          boardState: board.serialize(),
           wasOptimal: true,
           alternativeOptions: []
         },
@@ -670,13 +693,12 @@ describe('GameAnalyzer', () => {
           cell: { x: 1, y: 1 },
           action: 'reveal',
           timestamp: new Date(),
-          boardState: board.serialize(),
           wasOptimal: false,
           alternativeOptions: []
         }
       ];
 
-      const suboptimal = analyzer.identifySuboptimalMoves(moves);
+      const suboptimal = analyzer.identifySuboptimalMoves(moves, board);
       expect(suboptimal.length).toBe(1);
       expect(suboptimal[0].cell).toEqual({ x: 1, y: 1 });
     });
@@ -744,19 +766,11 @@ describe('GameAnalyzer', () => {
 
   describe('generateGameReplay', () => {
     it('should generate commentary for each move', () => {
-      const board = new GameBoard({
-        width: 5,
-        height: 5,
-        mineCount: 5,
-        level: DifficultyLevel.BEGINNER
-      });
-
       const moves: Move[] = [
         {
           cell: { x: 0, y: 0 },
           action: 'reveal',
           timestamp: new Date(),
-          boardState: board.serialize(),
           wasOptimal: true,
           alternativeOptions: []
         },
@@ -764,7 +778,6 @@ describe('GameAnalyzer', () => {
           cell: { x: 1, y: 1 },
           action: 'flag',
           timestamp: new Date(),
-          boardState: board.serialize(),
           wasOptimal: false,
           alternativeOptions: []
         }
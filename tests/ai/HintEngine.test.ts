@@ -97,6 +97,21 @@ describe('HintEngine', () => {
     });
   });
 
+  describe('question-marked cells', () => {
+    it('should still suggest question-marked cells and mention the marker', () => {
+      gameBoard.questionCell(0, 0);
+      const probabilities = {
+        cellProbabilities: new Map([['0,0', 0.0]]),
+        lastUpdated: new Date(),
+        calculationMethod: 'exact' as const
+      };
+
+      const [move] = hintEngine.findSafeMoves(gameBoard, probabilities);
+      expect(move.cell).toEqual({ x: 0, y: 0 });
+      expect(move.reasoning).toContain('"?"');
+    });
+  });
+
   describe('findBestProbabilisticMove', () => {
     it('should return null when no moves are available', () => {
       // Reveal all cells
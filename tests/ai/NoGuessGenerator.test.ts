@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { NoGuessGenerator } from '@/ai/NoGuessGenerator';
+import { LogicSolver } from '@/ai/LogicSolver';
+import { GameBoard } from '@/game/GameBoard';
+import { DifficultyLevel, FirstClickPolicy, GridTopology, NeighbourhoodRule } from '@/types';
+
+describe('NoGuessGenerator', () => {
+  const beginner = { width: 9, height: 9, mineCount: 10, level: DifficultyLevel.BEGINNER };
+
+  /**
+   * **Feature: ai-minesweeper, Property: No-guess boards are solvable by logic**
+   * For any seed, a board reported as no-guess can be cleared by the logic solver from the reported first click
+   */
+  it('Property: No-guess boards are solvable by logic', () => {
+    const generator = new NoGuessGenerator();
+    const solver = new LogicSolver();
+
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 0, max: 0xffffffff }),
+        (seed) => {
+          const result = generator.generate({ ...beginner, seed });
+
+          if (!result.noGuess || result.attempts < 1) {
+            return false;
+          }
+
+          const board = new GameBoard(result.settings);
+          return solver.solve(board, result.firstClick).solved;
+        }
+      ),
+      { numRuns: 25 }
+    );
+  });
+
+  it('should be reproducible from the input seed', () => {
+    const generator = new NoGuessGenerator();
+    const first = generator.generate({ ...beginner, seed: 42 });
+    const second = generator.generate({ ...beginner, seed: 42 });
+
+    expect(second.settings.seed).toBe(first.settings.seed);
+    expect(second.attempts).toBe(first.attempts);
+    expect(first.settings.firstClickPolicy).toBe(FirstClickPolicy.ZERO);
+  });
+
+  it('should report failure when the attempt budget runs out', () => {
+    const generator = new NoGuessGenerator();
+    // A near-full board can never be cleared without guessing
+    const result = generator.generate(
+      { width: 5, height: 5, mineCount: 20, level: DifficultyLevel.CUSTOM, seed: 7 },
+      { maxAttempts: 3 }
+    );
+
+    expect(result.noGuess).toBe(false);
+    expect(result.attempts).toBe(3);
+  });
+
+  it('should use the requested first click', () => {
+    const generator = new NoGuessGenerator();
+    const result = generator.generate({ ...beginner, seed: 3 }, { firstClick: { x: 0, y: 0 } });
+
+    const board = new GameBoard(result.settings);
+    board.revealCell(0, 0);
+    expect(board.getCell(0, 0)!.adjacentMines).toBe(0);
+  });
+
+  it('should keep the requested grid topology', () => {
+    const generator = new NoGuessGenerator();
+    const result = generator.generate({ ...beginner, seed: 5, topology: GridTopology.HEX }, { maxAttempts: 200 });
+
+    expect(result.noGuess).toBe(true);
+    expect(result.settings.topology).toBe(GridTopology.HEX);
+    const board = new GameBoard(result.settings);
+    expect(board.getTopology()).toBe(GridTopology.HEX);
+    expect(new LogicSolver().solve(board, result.firstClick).solved).toBe(true);
+  });
+
+  it('should keep the requested neighbourhood rule', () => {
+    const generator = new NoGuessGenerator();
+    const result = generator.generate(
+      { ...beginner, seed: 5, neighbourhood: NeighbourhoodRule.ORTHOGONAL },
+      { maxAttempts: 200 }
+    );
+
+    expect(result.settings.neighbourhood).toBe(NeighbourhoodRule.ORTHOGONAL);
+    const board = new GameBoard(result.settings);
+    expect(board.getNeighbourhood()).toBe(NeighbourhoodRule.ORTHOGONAL);
+    expect(new LogicSolver().solve(board, result.firstClick).solved).toBe(result.noGuess);
+  });
+});
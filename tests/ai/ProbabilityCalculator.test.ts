@@ -2,7 +2,7 @@ import { describe, it, expect, beforeEach } from 'vitest';
 import * as fc from 'fast-check';
 import { ProbabilityCalculator } from '@/ai/ProbabilityCalculator';
 import { GameBoard } from '@/game/GameBoard';
-import { DifficultyLevel } from '@/types';
+import { DifficultyLevel, FirstClickPolicy, GridTopology, NeighbourhoodRule } from '@/types';
 
 describe('ProbabilityCalculator', () => {
   let calculator: ProbabilityCalculator;
@@ -51,6 +51,35 @@ describe('ProbabilityCalculator', () => {
     expect(probability).toBe(0);
   });
 
+  it('should leave the holes of a shaped board out of the calculation', () => {
+    // Before any reveal every playable cell holds the same share of the mines
+    const shaped = new GameBoard({
+      width: 5,
+      height: 3,
+      mineCount: 3,
+      level: DifficultyLevel.CUSTOM,
+      seed: 8,
+      mask: ['#####', '#...#', '#####']
+    });
+    const probabilities = calculator.calculateProbabilities(shaped).cellProbabilities;
+
+    expect(probabilities.size).toBe(12);
+    expect(probabilities.has('2,1')).toBe(false);
+    expect(probabilities.get('0,0')).toBeCloseTo(3 / 12);
+  });
+
+  it('should treat question-marked cells as unknown', () => {
+    const seededBoard = new GameBoard({ width: 6, height: 6, mineCount: 6, level: DifficultyLevel.CUSTOM, seed: 3 });
+    const withoutMarks = calculator.calculateProbabilities(seededBoard).cellProbabilities;
+
+    seededBoard.questionCell(0, 0);
+    seededBoard.questionCell(3, 4);
+    const withMarks = calculator.calculateProbabilities(seededBoard).cellProbabilities;
+
+    expect(withMarks.get('0,0')).toBeGreaterThan(0);
+    expect(withMarks).toEqual(withoutMarks);
+  });
+
   it('should update probabilities when board state changes', async () => {
     const initialProbs = calculator.calculateProbabilities(board);
     
@@ -212,4 +241,74 @@ describe('ProbabilityCalculator', () => {
       { numRuns: 100 }
     );
   });
-});
\ No newline at end of file
+
+  /**
+   * **Feature: ai-minesweeper, Property: Deterministic certainties are sound**
+   * For any partially revealed board, every cell deduced as certain matches the real mine layout
+   */
+  it('Property: Deterministic certainties are sound', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 0, max: 0xffffffff }),
+        fc.integer({ min: 5, max: 25 }),
+        (seed, mineCount) => {
+          const testBoard = new GameBoard({
+            width: 10,
+            height: 10,
+            mineCount,
+            level: DifficultyLevel.CUSTOM,
+            seed,
+            firstClickPolicy: FirstClickPolicy.SAFE
+          });
+          testBoard.revealCell(5, 5);
+
+          const certainties = calculator.calculateCertainties(testBoard);
+          for (const [key, value] of certainties.cellProbabilities) {
+            const [x, y] = key.split(',').map(Number);
+            if (testBoard.getCell(x, y)!.isMine !== (value === 1)) {
+              return false;
+            }
+          }
+
+          return true;
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  /**
+   * **Feature: ai-minesweeper, Property: Certainties hold under every neighbourhood rule**
+   * For any neighbourhood rule and square or wrapped grid, the constraints follow the cells each
+   * number counts, so every deduced certainty matches the real mine layout
+   */
+  it('Property: Certainties hold under every neighbourhood rule', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 0, max: 0xffffffff }),
+        fc.constantFrom(...Object.values(NeighbourhoodRule)),
+        fc.constantFrom(GridTopology.SQUARE, GridTopology.TORUS),
+        (seed, neighbourhood, topology) => {
+          const testBoard = new GameBoard({
+            width: 8,
+            height: 8,
+            mineCount: 10,
+            level: DifficultyLevel.CUSTOM,
+            seed,
+            firstClickPolicy: FirstClickPolicy.SAFE,
+            topology,
+            neighbourhood
+          });
+          testBoard.revealCell(4, 4);
+
+          const certainties = calculator.calculateCertainties(testBoard);
+          for (const [key, value] of certainties.cellProbabilities) {
+            const [x, y] = key.split(',').map(Number);
+            expect(testBoard.getCell(x, y)!.isMine).toBe(value === 1);
+          }
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { PuzzlePlayer } from '@/ai/PuzzlePlayer';
+import { GameLogic } from '@/game/GameLogic';
+import { GameBoard } from '@/game/GameBoard';
+import { PUZZLES, Puzzle, createPuzzleBoard, getPuzzle } from '@/game/Puzzles';
+import { DifficultyLevel, GameState } from '@/types';
+
+const FIRST_STEPS = getPuzzle('first-steps')!;
+
+// Two hidden cells side by side with one mine between them: the numbers cannot tell which
+const COIN_FLIP: Puzzle = {
+  id: 'coin-flip',
+  title: 'Coin Flip',
+  grid: [
+    '*#',
+    '11'
+  ],
+  solution: [
+    { x: 0, y: 0, action: 'flag' },
+    { x: 1, y: 0, action: 'reveal' }
+  ]
+};
+
+describe('PuzzlePlayer', () => {
+  it('should load the position with its numbers showing and nothing else', () => {
+    const board = createPuzzleBoard(FIRST_STEPS);
+
+    expect(board.getGameState()).toBe(GameState.READY);
+    expect(board.getMineCount()).toBe(2);
+    expect(board.getCells().flat().filter(cell => cell.isRevealed)).toHaveLength(10);
+    expect(board.getCell(2, 1)!.adjacentMines).toBe(2);
+    expect(board.getCell(0, 0)!.isRevealed).toBe(false);
+  });
+
+  it('should reject puzzles whose grid, numbers or solution do not add up', () => {
+    expect(() => createPuzzleBoard({ ...FIRST_STEPS, grid: ['#*#*#', '11311', '00000'] }))
+      .toThrow("Puzzle 'first-steps' shows 3 at (2, 1) but the mines around it make 2");
+    expect(() => createPuzzleBoard({ ...FIRST_STEPS, grid: ['#*#*', '11211'] }))
+      .toThrow("Puzzle 'first-steps' has a malformed grid");
+    expect(() => createPuzzleBoard({ ...FIRST_STEPS, solution: FIRST_STEPS.solution.slice(1) }))
+      .toThrow("Puzzle 'first-steps' solution leaves hidden cells unsolved");
+    expect(() => createPuzzleBoard({ ...FIRST_STEPS, solution: [{ x: 1, y: 0, action: 'reveal' }] }))
+      .toThrow("Puzzle 'first-steps' solution reveals a mine at (1, 0)");
+    const layout = { width: 2, height: 2, mineCount: 1, level: DifficultyLevel.CUSTOM };
+    expect(() => GameBoard.fromLayout(layout, [{ x: 2, y: 0 }])).toThrow('Invalid layout cell at (2, 0)');
+    expect(() => GameBoard.fromLayout(layout, [{ x: 0, y: 0 }], [{ x: 0, y: 0 }])).toThrow('Layout reveals a mine');
+  });
+
+  it('should refuse to start a puzzle that needs a guess', () => {
+    expect(() => createPuzzleBoard(COIN_FLIP)).not.toThrow();
+    expect(() => new PuzzlePlayer(new GameLogic(), COIN_FLIP).start()).toThrow("Puzzle 'coin-flip' is not uniquely solvable");
+  });
+
+  it('should turn away moves that contradict the solution', () => {
+    const gameLogic = new GameLogic();
+    const player = new PuzzlePlayer(gameLogic, FIRST_STEPS);
+    const board = player.start();
+
+    expect(player.play(1, 0, 'reveal')).toBe('wrong');
+    expect(player.play(0, 0, 'flag')).toBe('wrong');
+    expect(board.getGameState()).toBe(GameState.READY);
+    expect(player.play(2, 1, 'reveal')).toBe('ignored');
+    expect(player.play(1, 0, 'flag')).toBe('correct');
+    expect(board.getCell(1, 0)!.isFlagged).toBe(true);
+    expect(player.getMistakes()).toBe(2);
+    expect(gameLogic.getMoveCount()).toBe(1);
+  });
+
+  /**
+   * **Feature: ai-minesweeper, Property: Built-in puzzles play out as written**
+   *
+   * For every built-in puzzle, playing its intended solution move by move is accepted and solves
+   * the puzzle, and a wrong move anywhere along the way is turned away as the only mistake
+   */
+  it('Property: Built-in puzzles play out as written', () => {
+    fc.assert(
+      fc.property(
+        fc.constantFrom(...PUZZLES),
+        fc.nat(),
+        (puzzle, pick) => {
+          const player = new PuzzlePlayer(new GameLogic(), puzzle);
+          const board = player.start();
+
+          // The puzzle is solved once the last safe cell opens, which can leave flags unplayed
+          const moves = puzzle.solution.slice(0, puzzle.solution.map(move => move.action).lastIndexOf('reveal') + 1);
+          const wrongAt = pick % moves.length;
+
+          moves.forEach(({ x, y, action }, step) => {
+            if (step === wrongAt) {
+              expect(player.play(x, y, action === 'flag' ? 'reveal' : 'flag')).toBe('wrong');
+            }
+            // Openings can uncover later cells before their turn comes
+            if (!board.getCell(x, y)!.isRevealed) {
+              expect(player.play(x, y, action)).toBe('correct');
+            }
+          });
+
+          expect(player.isSolved()).toBe(true);
+          expect(player.getMistakes()).toBe(1);
+          expect(player.play(0, 0, 'flag')).toBe('ignored');
+        }
+      ),
+      { numRuns: 25 }
+    );
+  });
+});
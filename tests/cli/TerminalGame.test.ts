@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { TerminalGame, parseTerminalArguments } from '@/cli/TerminalGame';
+import { DifficultyLevel, FirstClickPolicy, GameState } from '@/types';
+
+const SETTINGS = {
+  width: 9, height: 9, mineCount: 10, level: DifficultyLevel.BEGINNER, seed: 7,
+  firstClickPolicy: FirstClickPolicy.NONE
+};
+
+describe('TerminalGame', () => {
+  it('should read board settings from command-line flags', () => {
+    expect(parseTerminalArguments([])).toMatchObject({ width: 9, height: 9, mineCount: 10 });
+    expect(parseTerminalArguments(['--level', 'expert', '--seed', '42'])).toMatchObject({ width: 30, height: 16, mineCount: 99, seed: 42 });
+    expect(parseTerminalArguments(['--width', '5', '--height', '4', '--mines', '3'])).toMatchObject({ width: 5, height: 4, mineCount: 3 });
+
+    expect(() => parseTerminalArguments(['--level', 'huge'])).toThrow('Unknown level: huge');
+    expect(() => parseTerminalArguments(['--seed', 'abc'])).toThrow('--seed must be a whole number');
+    expect(() => parseTerminalArguments(['--colour', 'red'])).toThrow('Unknown option: --colour');
+    expect(() => parseTerminalArguments(['--seed'])).toThrow('Expected --flag value');
+  });
+
+  it('should play moves and draw the board as text', () => {
+    const game = new TerminalGame(SETTINGS);
+    const board = game.getBoard();
+    const safe = board.getCells().flat().find(cell => !cell.isMine && cell.adjacentMines > 0)!;
+    const mine = board.getCells().flat().find(cell => cell.isMine)!;
+
+    const start = game.render().split('\n');
+    expect(start[0]).toBe('Seed 7 | Mines left 10 | Moves 0 | ready');
+    expect(start[1]).toBe('  0 1 2 3 4 5 6 7 8');
+    expect(start.slice(2)).toEqual(Array.from({ length: 9 }, (_, y) => `${y} # # # # # # # # #`));
+
+    const revealed = game.execute(`r ${safe.x} ${safe.y}`).split('\n');
+    expect(revealed[2 + safe.y].split(' ')[1 + safe.x]).toBe(String(safe.adjacentMines));
+    expect(game.execute(`f ${mine.x} ${mine.y}`)).toContain('Mines left 9 | Moves 2');
+    expect(game.execute(`r ${safe.x} ${safe.y}`)).toBe(`Cannot reveal (${safe.x}, ${safe.y})`);
+    expect(game.execute('r 1')).toBe('Expected x and y, as in: r 3 4');
+    expect(game.execute('dig 1 1')).toBe('Unknown command: dig. Type help for the list of commands.');
+    expect(game.execute('  ')).toBe('');
+  });
+
+  it('should take moves back and give hints from the probabilities', () => {
+    const game = new TerminalGame(SETTINGS);
+    const safe = game.getBoard().getCells().flat().find(cell => !cell.isMine && cell.adjacentMines > 0)!;
+    const start = game.render();
+    expect(game.execute('undo')).toBe('Nothing to undo');
+
+    game.execute(`r ${safe.x} ${safe.y}`);
+    const probabilities = game.execute('probs').split('\n');
+    expect(probabilities).toHaveLength(10);
+    expect(probabilities[1 + safe.y].slice(2).trim().split(/\s+/)[safe.x]).toBe(String(safe.adjacentMines));
+
+    expect(game.execute('hint')).toMatch(/^Hint: (reveal|flag) \(\d+, \d+\), \d+% confident\./);
+    expect(game.getGameLogic().getHintsUsedCount()).toBe(1);
+    expect(game.execute('undo')).toBe(start);
+  });
+
+  it('should show the mines once the game is lost and refuse further moves', () => {
+    const game = new TerminalGame(SETTINGS);
+    const mine = game.getBoard().getCells().flat().find(cell => cell.isMine)!;
+
+    const lost = game.execute(`r ${mine.x} ${mine.y}`).split('\n');
+    expect(game.getBoard().getGameState()).toBe(GameState.LOST);
+    expect(lost[0]).toContain('You hit a mine.');
+    expect(lost.slice(2).join('').split('*')).toHaveLength(11);
+    expect(game.execute('r 0 0')).toBe('The game is over. Undo to take back the last move.');
+  });
+});
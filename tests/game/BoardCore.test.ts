@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { BoardCell, BoardCore, CELL_FLAGGED, CELL_MINE, CELL_REVEALED, forEachNeighbour } from '@/game/BoardCore';
+import { GameBoard } from '@/game/GameBoard';
+import { DifficultyLevel } from '@/types';
+
+describe('BoardCore', () => {
+  it('should list neighbours by index, clipped at the edges', () => {
+    const neighbours = (index: number) => {
+      const result: number[] = [];
+      forEachNeighbour(4, 3, index, neighbour => result.push(neighbour));
+      return result;
+    };
+
+    expect(neighbours(0)).toEqual([1, 4, 5]);
+    expect(neighbours(5)).toEqual([0, 1, 2, 4, 6, 8, 9, 10]);
+    expect(neighbours(11)).toEqual([6, 7, 10]);
+  });
+
+  it('should write cell views through to the typed arrays and keep counts in step', () => {
+    const core = new BoardCore(3, 3);
+    const cell = new BoardCell(core, 1, 2);
+
+    cell.isMine = true;
+    core.calculateAdjacency();
+    expect(core.state[7]).toBe(CELL_MINE);
+    expect(core.getMineTotal()).toBe(1);
+    expect(new BoardCell(core, 0, 1).adjacentMines).toBe(1);
+
+    cell.isFlagged = true;
+    cell.isFlagged = true;
+    expect(core.getFlaggedCount()).toBe(1);
+    expect(JSON.parse(JSON.stringify(cell))).toEqual({
+      x: 1,
+      y: 2,
+      isMine: true,
+      isRevealed: false,
+      isFlagged: true,
+      isQuestioned: false,
+      adjacentMines: 0
+    });
+  });
+
+  it('should count one click per opening and per isolated number in the 3BV', () => {
+    // Row of five with a mine in the middle: two openings, each absorbing its neighbouring 1
+    const row = new BoardCore(5, 1);
+    row.set(2, CELL_MINE, true);
+    row.calculateAdjacency();
+    expect(row.calculate3BV()).toEqual({ total: 2, solved: 0 });
+
+    row.set(0, CELL_REVEALED, true);
+    row.set(1, CELL_REVEALED, true);
+    expect(row.calculate3BV()).toEqual({ total: 2, solved: 1 });
+
+    // A mine in the middle of a 3x3 board leaves eight numbers and no openings
+    const ring = new BoardCore(3, 3);
+    ring.set(4, CELL_MINE, true);
+    ring.calculateAdjacency();
+    expect(ring.calculate3BV().total).toBe(8);
+  });
+
+  /**
+   * **Feature: ai-minesweeper, Property: 3BV is fully solved by clearing the board**
+   *
+   * For any board, the 3BV never exceeds the number of safe cells and is fully solved once the game is won
+   */
+  it('Property: 3BV is fully solved by clearing the board', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 0, max: 0xffffffff }),
+        fc.integer({ min: 1, max: 40 }),
+        (seed, mineCount) => {
+          const board = new GameBoard({ width: 10, height: 8, mineCount, level: DifficultyLevel.CUSTOM, seed });
+          const threeBV = board.get3BV();
+          expect(threeBV).toBeGreaterThan(0);
+          expect(threeBV).toBeLessThanOrEqual(80 - mineCount);
+
+          board.getCells().flat().filter(cell => !cell.isMine).forEach(cell => board.revealCell(cell.x, cell.y));
+          expect(board.getSolved3BV()).toBe(threeBV);
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+
+  /**
+   * **Feature: ai-minesweeper, Property: Compact board matches the cell view**
+   *
+   * For any board and sequence of moves, the typed-array copy agrees with every Cell the board exposes
+   */
+  it('Property: Compact board matches the cell view', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 0, max: 0xffffffff }),
+        fc.array(fc.record({ x: fc.nat(11), y: fc.nat(9), flag: fc.boolean() }), { maxLength: 15 }),
+        (seed, moves) => {
+          const board = new GameBoard({ width: 12, height: 10, mineCount: 20, level: DifficultyLevel.CUSTOM, seed });
+          moves.forEach(({ x, y, flag }) => (flag ? board.flagCell(x, y) : board.revealCell(x, y)));
+
+          const compact = board.toCompact();
+          expect(compact.remainingMines).toBe(board.getRemainingMines());
+          board.getCells().flat().forEach(cell => {
+            const index = cell.y * compact.width + cell.x;
+            expect((compact.state[index] & CELL_MINE) !== 0).toBe(cell.isMine);
+            expect((compact.state[index] & CELL_REVEALED) !== 0).toBe(cell.isRevealed);
+            expect((compact.state[index] & CELL_FLAGGED) !== 0).toBe(cell.isFlagged);
+            expect(compact.adjacent[index]).toBe(cell.adjacentMines);
+          });
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+});
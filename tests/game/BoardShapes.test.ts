@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { SHAPE_PRESETS, countPlayableCells, validateMask } from '@/game/BoardShapes';
+import { GameBoard } from '@/game/GameBoard';
+import { GameLogic } from '@/game/GameLogic';
+import { DifficultyLevel, FirstClickPolicy, GameState } from '@/types';
+
+const RING = [
+  '#####',
+  '#...#',
+  '#####'
+];
+
+const shapedBoard = (mask: string[], mineCount: number, seed: number) => new GameBoard({
+  width: mask[0].length,
+  height: mask.length,
+  mineCount,
+  level: DifficultyLevel.CUSTOM,
+  seed,
+  mask
+});
+
+describe('BoardShapes', () => {
+  it('should ship presets that fit their own size and their suggested mines', () => {
+    SHAPE_PRESETS.forEach(preset => {
+      expect(() => validateMask(preset.mask, preset.mask[0].length, preset.mask.length)).not.toThrow();
+      expect(preset.mineCount).toBeLessThan(countPlayableCells(preset.mask) * 0.2);
+    });
+    expect(countPlayableCells(RING)).toBe(12);
+  });
+
+  it('should keep holes out of play', () => {
+    const board = shapedBoard(RING, 0, 1);
+    const hole = board.getCell(2, 1)!;
+
+    expect(hole.isMasked).toBe(true);
+    expect(board.revealCell(2, 1)).toBe(false);
+    expect(board.flagCell(2, 1)).toBe(false);
+    expect(board.getAdjacentCells(2, 0).map(cell => `${cell.x},${cell.y}`).sort()).toEqual(['1,0', '3,0']);
+    expect(new GameLogic().validateMove(board, 2, 1, 'reveal')).toBe(false);
+  });
+
+  it('should be won once every playable safe cell is revealed', () => {
+    const gameLogic = new GameLogic();
+    const board = gameLogic.startGame(shapedBoard(RING, 1, 4));
+    const safe = board.getCells().flat().filter(cell => !cell.isMasked && !cell.isMine);
+
+    safe.forEach(cell => gameLogic.makeMove(board, cell.x, cell.y, 'reveal'));
+
+    expect(board.getGameState()).toBe(GameState.WON);
+    expect(gameLogic.checkWinCondition(board)).toBe(true);
+    expect(board.get3BV()).toBeGreaterThan(0);
+    expect(board.get3BV()).toBeLessThanOrEqual(safe.length);
+  });
+
+  it('should keep the shape through a round trip and reject masks that do not fit', () => {
+    const board = shapedBoard(RING, 2, 9);
+    const restored = GameBoard.fromSerialized(board.serialize());
+
+    expect(restored.getMask()).toEqual(RING);
+    expect(restored.getCell(2, 1)!.isMasked).toBe(true);
+    expect(restored.serialize()).toBe(board.serialize());
+    expect(() => new GameBoard({ width: 4, height: 3, mineCount: 1, level: DifficultyLevel.CUSTOM, mask: RING }))
+      .toThrow('Shape mask does not match the board dimensions');
+    expect(() => shapedBoard(RING, 13, 1)).toThrow('Invalid mine count: 13 for 12 cells');
+  });
+
+  /**
+   * **Feature: ai-minesweeper, Property: Holes never hold mines or numbers**
+   *
+   * For any preset shape, seed and opening click, mines only land on playable cells, holes
+   * stay at zero, and every number counts only the playable cells around it
+   */
+  it('Property: Holes never hold mines or numbers', () => {
+    fc.assert(
+      fc.property(
+        fc.constantFrom(...SHAPE_PRESETS),
+        fc.integer({ min: 0, max: 0xffffffff }),
+        fc.nat(),
+        (preset, seed, pick) => {
+          const board = new GameBoard({
+            width: preset.mask[0].length,
+            height: preset.mask.length,
+            mineCount: preset.mineCount,
+            level: DifficultyLevel.CUSTOM,
+            seed,
+            firstClickPolicy: FirstClickPolicy.ZERO,
+            mask: preset.mask
+          });
+          const playable = board.getCells().flat().filter(cell => !cell.isMasked);
+          const opening = playable[pick % playable.length];
+          board.revealCell(opening.x, opening.y);
+
+          expect(playable).toHaveLength(countPlayableCells(preset.mask));
+          expect(playable.filter(cell => cell.isMine)).toHaveLength(preset.mineCount);
+          board.getCells().flat().forEach(cell => {
+            if (cell.isMasked) {
+              expect(cell.isMine || cell.isRevealed || cell.adjacentMines > 0).toBe(false);
+            } else if (!cell.isMine) {
+              expect(cell.adjacentMines).toBe(board.getAdjacentCells(cell.x, cell.y).filter(neighbour => neighbour.isMine).length);
+            }
+          });
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+});
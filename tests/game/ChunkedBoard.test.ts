@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { ChunkedBoard } from '@/game/ChunkedBoard';
+import { GameLogic } from '@/game/GameLogic';
+import { BoardEventMap } from '@/interfaces/GameEngine';
+import { Cell, GameState } from '@/types';
+
+// Reveal the first safe hidden cell the picker finds, which takes the board past that edge
+const revealSafe = (board: ChunkedBoard, pick: (board: ChunkedBoard) => Cell[]) => {
+  const cell = pick(board).find(candidate => !candidate.isMine && !candidate.isRevealed)!;
+  board.revealCell(cell.x, cell.y);
+  return cell;
+};
+const rightEdge = (board: ChunkedBoard) => board.getCells().map(row => row[board.getWidth() - 1]);
+const bottomEdge = (board: ChunkedBoard) => board.getCells()[board.getHeight() - 1];
+const leftEdge = (board: ChunkedBoard) => board.getCells().map(row => row[0]);
+
+// Mines keyed by world position, which does not change as the board grows
+const worldMines = (board: ChunkedBoard) => {
+  const origin = board.getOrigin();
+  const mines = new Map<string, boolean>();
+  board.getCells().flat().forEach(cell => mines.set(`${cell.x - origin.x},${cell.y - origin.y}`, cell.isMine));
+  return mines;
+};
+
+describe('ChunkedBoard', () => {
+  it('should start with a ring of chunks around an opening', () => {
+    const board = new ChunkedBoard({ seed: 7, chunkSize: 8 });
+    const start = board.getStartCell();
+
+    expect(board.getWidth()).toBe(24);
+    expect(board.getHeight()).toBe(24);
+    expect(board.getCell(start.x, start.y)!.adjacentMines).toBe(0);
+
+    const revealed = board.revealCellBatch(start.x, start.y);
+    expect(revealed.length).toBeGreaterThan(1);
+    expect(revealed.some(cell => cell.isMine)).toBe(false);
+    expect(board.getGameState()).toBe(GameState.PLAYING);
+    expect(board.getClearedCells()).toBe(revealed.length);
+  });
+
+  it('should move existing cells when it grows to the left', () => {
+    const board = new ChunkedBoard({ seed: 11, chunkSize: 8 });
+    const expansions: Array<BoardEventMap['boardExpanded']> = [];
+    board.on('boardExpanded', event => expansions.push(event));
+    const start = board.getStartCell();
+
+    const cell = revealSafe(board, leftEdge);
+
+    expect(expansions[0]).toMatchObject({ width: 32, height: 24, shiftX: 8, shiftY: 0 });
+    // An opening can run on past other edges too
+    const shiftX = expansions.reduce((total, event) => total + event.shiftX, 0);
+    const shiftY = expansions.reduce((total, event) => total + event.shiftY, 0);
+    expect(board.getStartCell()).toEqual({ x: start.x + shiftX, y: start.y + shiftY });
+    expect(board.getCell(cell.x, cell.y)).toBe(cell);
+    expect(cell.x).toBeGreaterThanOrEqual(2);
+  });
+
+  it('should end the game on a mine but never declare a win', () => {
+    const gameLogic = new GameLogic();
+    const board = gameLogic.startGame(new ChunkedBoard({ seed: 5, chunkSize: 8 }));
+    const events: string[] = [];
+    gameLogic.on('gameLost', () => events.push('lost'));
+    gameLogic.on('gameWon', () => events.push('won'));
+
+    const start = board.getStartCell();
+    gameLogic.makeMove(board, start.x, start.y, 'reveal');
+    const mine = board.getCells().flat().find(cell => cell.isMine)!;
+    gameLogic.makeMove(board, mine.x, mine.y, 'reveal');
+
+    expect(board.getGameState()).toBe(GameState.LOST);
+    expect(events).toEqual(['lost']);
+    expect(board.revealCell(start.x + 1, start.y + 1)).toBe(false);
+  });
+
+  it('should restore the layout and cell states from serialize()', () => {
+    const board = new ChunkedBoard({ seed: 13, chunkSize: 8 });
+    const start = board.getStartCell();
+    board.revealCell(start.x, start.y);
+    revealSafe(board, leftEdge);
+    const hidden = board.getCells().flat().find(cell => !cell.isRevealed)!;
+    board.flagCell(hidden.x, hidden.y);
+
+    const restored = ChunkedBoard.fromSerialized(board.serialize());
+
+    expect(restored.getWidth()).toBe(board.getWidth());
+    expect(restored.getStartCell()).toEqual(board.getStartCell());
+    expect(JSON.stringify(restored.getCells())).toBe(JSON.stringify(board.getCells()));
+    expect(restored.getRemainingMines()).toBe(board.getRemainingMines());
+    expect(restored.getClearedCells()).toBe(board.getClearedCells());
+  });
+
+  it('should reject settings that cannot make a playable board', () => {
+    expect(() => new ChunkedBoard({ chunkSize: 3 })).toThrow('Invalid chunk size: 3');
+    expect(() => new ChunkedBoard({ density: 0.05 })).toThrow('Invalid mine density: 0.05');
+    expect(() => ChunkedBoard.fromSerialized('{"width":3}')).toThrow('Serialized board is not a chunked board');
+  });
+
+  /**
+   * **Feature: ai-minesweeper, Property: Endless chunks do not depend on generation order**
+   *
+   * For any seed, growing right then down or down then right gives the same mines at every
+   * world position, and every number counts the mines across chunk borders
+   */
+  it('Property: Endless chunks do not depend on generation order', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 0, max: 0xffffffff }), (seed) => {
+        const first = new ChunkedBoard({ seed, chunkSize: 8 });
+        revealSafe(first, rightEdge);
+        revealSafe(first, bottomEdge);
+        const second = new ChunkedBoard({ seed, chunkSize: 8 });
+        revealSafe(second, bottomEdge);
+        revealSafe(second, rightEdge);
+
+        expect(first.getWidth()).toBeGreaterThan(24);
+        expect(first.getHeight()).toBeGreaterThan(24);
+        const secondMines = worldMines(second);
+        worldMines(first).forEach((isMine, position) => {
+          if (secondMines.has(position)) {
+            expect(secondMines.get(position)).toBe(isMine);
+          }
+        });
+
+        // Cells on the outer edge may still border chunks that do not exist yet
+        first.getCells().flat()
+          .filter(cell => cell.x > 0 && cell.y > 0 && cell.x < first.getWidth() - 1 && cell.y < first.getHeight() - 1)
+          .forEach(cell => {
+            const count = cell.isMine ? 0 : first.getAdjacentCells(cell.x, cell.y).filter(neighbour => neighbour.isMine).length;
+            expect(cell.adjacentMines).toBe(count);
+          });
+      }),
+      { numRuns: 20 }
+    );
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { DAILY_CHALLENGE_LEVEL, createDailyChallenge, getChallengeDate } from '@/game/DailyChallenge';
+import { GameBoard } from '@/game/GameBoard';
+import { AdaptiveDifficultyManager } from '@/adaptive/AdaptiveDifficultyManager';
+import { FirstClickPolicy } from '@/types';
+
+const mineLayout = (board: GameBoard) => board.getCells().flat().map(cell => cell.isMine);
+
+describe('DailyChallenge', () => {
+  it('should use the UTC calendar date', () => {
+    expect(getChallengeDate(new Date('2026-10-19T23:59:59Z'))).toBe('2026-10-19');
+    expect(getChallengeDate(new Date('2026-10-20T00:00:00Z'))).toBe('2026-10-20');
+  });
+
+  it('should build the challenge from the preset with mines placed up front', () => {
+    const challenge = createDailyChallenge('2026-10-19');
+    const preset = AdaptiveDifficultyManager.getDifficultyPreset(DAILY_CHALLENGE_LEVEL);
+
+    expect(challenge.date).toBe('2026-10-19');
+    expect(challenge.settings).toMatchObject(preset);
+    expect(challenge.settings.firstClickPolicy).toBe(FirstClickPolicy.NONE);
+    expect(new GameBoard(challenge.settings).hasPlacedMines()).toBe(true);
+  });
+
+  it('should give different days different boards', () => {
+    const today = new GameBoard(createDailyChallenge('2026-10-19').settings);
+    const tomorrow = new GameBoard(createDailyChallenge('2026-10-20').settings);
+
+    expect(mineLayout(today)).not.toEqual(mineLayout(tomorrow));
+  });
+
+  it('should reject malformed dates', () => {
+    expect(() => createDailyChallenge('19/10/2026')).toThrow('Invalid challenge date: 19/10/2026');
+  });
+
+  /**
+   * **Feature: ai-minesweeper, Property: Daily challenge boards are the same for everyone**
+   *
+   * For any date, every player building that day's challenge gets an identical mine layout
+   */
+  it('Property: Daily challenge boards are the same for everyone', () => {
+    fc.assert(
+      fc.property(
+        fc.date({ min: new Date('2000-01-01T00:00:00Z'), max: new Date('2099-12-31T23:59:59Z') }),
+        (moment) => {
+          const date = getChallengeDate(moment);
+          const first = new GameBoard(createDailyChallenge(date).settings);
+          const second = new GameBoard(createDailyChallenge(date).settings);
+
+          expect(first.getSeed()).toBe(second.getSeed());
+          expect(mineLayout(first)).toEqual(mineLayout(second));
+        }
+      ),
+      { numRuns: 30 }
+    );
+  });
+});
@@ -1,7 +1,7 @@
 import { describe, it, expect } from 'vitest';
 import * as fc from 'fast-check';
 import { GameBoard } from '@/game/GameBoard';
-import { GameState, DifficultySettings, DifficultyLevel } from '@/types';
+import { GameState, DifficultySettings, DifficultyLevel, FirstClickPolicy, GridTopology } from '@/types';
 
 describe('GameBoard Property Tests', () => {
   // Generator for valid difficulty settings
@@ -194,4 +194,212 @@ describe('GameBoard Property Tests', () => {
       { numRuns: 100 }
     );
   });
-});
\ No newline at end of file
+
+  /**
+   * **Feature: ai-minesweeper, Property: Seeded board reproducibility**
+   * For any difficulty settings and seed, two boards built from the same seed have identical mine layouts
+   */
+  it('Property: Seeded board reproducibility', () => {
+    fc.assert(
+      fc.property(
+        difficultySettingsArb,
+        fc.integer({ min: 0, max: 0xffffffff }),
+        (settings, seed) => {
+          const first = new GameBoard({ ...settings, seed });
+          const second = new GameBoard({ ...settings, seed });
+
+          if (first.getSeed() !== seed || second.getSeed() !== seed) {
+            return false;
+          }
+
+          for (let y = 0; y < settings.height; y++) {
+            for (let x = 0; x < settings.width; x++) {
+              if (first.getCell(x, y)!.isMine !== second.getCell(x, y)!.isMine) {
+                return false;
+              }
+            }
+          }
+
+          return JSON.parse(first.serialize()).seed === seed;
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should generate and expose a seed when none is given', () => {
+    const settings: DifficultySettings = { width: 9, height: 9, mineCount: 10, level: DifficultyLevel.BEGINNER };
+    const board = new GameBoard(settings);
+    const replayed = new GameBoard({ ...settings, seed: board.getSeed() });
+
+    expect(JSON.parse(replayed.serialize()).cells).toEqual(JSON.parse(board.serialize()).cells);
+  });
+
+  /**
+   * **Feature: ai-minesweeper, Property: First-click guarantees**
+   * For any board and first click, SAFE never places a mine under the click and ZERO opens a cell with no adjacent mines
+   */
+  it('Property: First-click guarantees', () => {
+    fc.assert(
+      fc.property(
+        difficultySettingsArb,
+        fc.constantFrom(FirstClickPolicy.SAFE, FirstClickPolicy.ZERO),
+        fc.nat(),
+        fc.nat(),
+        (settings, policy, rawX, rawY) => {
+          const board = new GameBoard({ ...settings, firstClickPolicy: policy });
+          const x = rawX % settings.width;
+          const y = rawY % settings.height;
+
+          // Mines wait for the first reveal
+          if (board.hasPlacedMines()) {
+            return false;
+          }
+
+          board.revealCell(x, y);
+          const cell = board.getCell(x, y)!;
+          const openingFits = settings.width * settings.height - board.getAdjacentCells(x, y).length - 1 >= settings.mineCount;
+
+          if (!board.hasPlacedMines() || cell.isMine || board.getGameState() === GameState.LOST) {
+            return false;
+          }
+
+          const mines = board.getCells().flat().filter(c => c.isMine).length;
+          if (mines !== settings.mineCount) {
+            return false;
+          }
+
+          return policy !== FirstClickPolicy.ZERO || !openingFits || cell.adjacentMines === 0;
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should record the first-click policy in the serialized board', () => {
+    const board = new GameBoard({
+      width: 9,
+      height: 9,
+      mineCount: 10,
+      level: DifficultyLevel.BEGINNER,
+      firstClickPolicy: FirstClickPolicy.ZERO
+    });
+
+    expect(JSON.parse(board.serialize())).toMatchObject({ firstClickPolicy: FirstClickPolicy.ZERO, minesPlaced: false });
+    board.revealCell(4, 4);
+    expect(JSON.parse(board.serialize()).minesPlaced).toBe(true);
+  });
+
+  /**
+   * **Feature: ai-minesweeper, Property: Serialization round trip**
+   * For any board and sequence of moves, fromSerialized(serialize()) rebuilds an identical board
+   */
+  it('Property: Serialization round trip', () => {
+    fc.assert(
+      fc.property(
+        difficultySettingsArb,
+        fc.integer({ min: 0, max: 0xffffffff }),
+        fc.array(fc.tuple(fc.nat(), fc.nat(), fc.boolean()), { maxLength: 10 }),
+        (settings, seed, moves) => {
+          const board = new GameBoard({ ...settings, seed, firstClickPolicy: FirstClickPolicy.SAFE });
+          moves.forEach(([x, y, flag]) => {
+            if (flag) {
+              board.flagCell(x % settings.width, y % settings.height);
+            } else {
+              board.revealCell(x % settings.width, y % settings.height);
+            }
+          });
+
+          const restored = GameBoard.fromSerialized(board.serialize());
+          return restored.serialize() === board.serialize();
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+
+  it('should reject malformed serialized boards', () => {
+    const board = new GameBoard({ width: 4, height: 4, mineCount: 3, level: DifficultyLevel.CUSTOM, seed: 5 });
+    const state = JSON.parse(board.serialize());
+
+    expect(() => GameBoard.fromSerialized('not json')).toThrow('not valid JSON');
+    expect(() => GameBoard.fromSerialized(JSON.stringify({ ...state, width: 0 }))).toThrow('dimensions');
+    expect(() => GameBoard.fromSerialized(JSON.stringify({ ...state, gameState: 'paused' }))).toThrow('game state');
+    expect(() => GameBoard.fromSerialized(JSON.stringify({ ...state, cells: state.cells.slice(1) }))).toThrow('Cell grid');
+    expect(() => GameBoard.fromSerialized(JSON.stringify({ ...state, mineCount: 4 }))).toThrow('mines');
+
+    state.cells[1][2].isRevealed = 'yes';
+    expect(() => GameBoard.fromSerialized(JSON.stringify(state))).toThrow('(2, 1)');
+  });
+
+  /**
+   * **Feature: ai-minesweeper, Property: Batched reveal reports every revealed cell**
+   * For any board and click, the returned batch is exactly the set of cells that became revealed
+   */
+  it('Property: Batched reveal reports every revealed cell', () => {
+    fc.assert(
+      fc.property(
+        difficultySettingsArb,
+        fc.integer({ min: 0, max: 0xffffffff }),
+        fc.nat(),
+        fc.nat(),
+        (settings, seed, rawX, rawY) => {
+          const board = new GameBoard({ ...settings, seed });
+          const x = rawX % settings.width;
+          const y = rawY % settings.height;
+
+          const revealed = board.revealCellBatch(x, y);
+          const allRevealed = board.getCells().flat().filter(cell => cell.isRevealed);
+
+          return revealed.length === allRevealed.length &&
+                 revealed.every(cell => cell.isRevealed) &&
+                 revealed[0] === board.getCell(x, y) &&
+                 board.revealCellBatch(x, y).length === 0;
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+
+  it('should flood-fill a 200x200 board without overflowing the stack', () => {
+    const board = new GameBoard({
+      width: 200,
+      height: 200,
+      mineCount: 1,
+      level: DifficultyLevel.CUSTOM,
+      seed: 1,
+      firstClickPolicy: FirstClickPolicy.ZERO
+    });
+
+    const revealed = board.revealCellBatch(100, 100);
+
+    expect(revealed).toHaveLength(200 * 200 - 1);
+    expect(board.getGameState()).toBe(GameState.WON);
+  });
+
+  it('should keep deferred mine placement reproducible after a round trip', () => {
+    const settings = { width: 9, height: 9, mineCount: 10, level: DifficultyLevel.BEGINNER, seed: 77, firstClickPolicy: FirstClickPolicy.ZERO };
+    const original = new GameBoard(settings);
+    const restored = GameBoard.fromSerialized(original.serialize());
+
+    original.revealCell(4, 4);
+    restored.revealCell(4, 4);
+    expect(JSON.parse(restored.serialize()).cells).toEqual(JSON.parse(original.serialize()).cells);
+  });
+
+  it('should count mines across the wrapped edges of a torus and keep the topology through a round trip', () => {
+    const board = new GameBoard({ width: 6, height: 5, mineCount: 8, level: DifficultyLevel.CUSTOM, seed: 9, topology: GridTopology.TORUS });
+    const corner = board.getAdjacentCells(0, 0).map(cell => `${cell.x},${cell.y}`);
+
+    expect(corner).toHaveLength(8);
+    expect(corner).toContain('5,4');
+    board.getCells().flat().filter(cell => !cell.isMine).forEach(cell => {
+      expect(cell.adjacentMines).toBe(board.getAdjacentCells(cell.x, cell.y).filter(neighbour => neighbour.isMine).length);
+    });
+
+    const restored = GameBoard.fromSerialized(board.serialize());
+    expect(restored.getTopology()).toBe(GridTopology.TORUS);
+    expect(restored.getAdjacentCells(0, 0)).toHaveLength(8);
+    expect(() => GameBoard.fromSerialized(JSON.stringify({ ...JSON.parse(board.serialize()), topology: 'cube' }))).toThrow('Invalid topology: cube');
+  });
+});
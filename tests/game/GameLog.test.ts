@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { GameLogic } from '@/game/GameLogic';
+import { GameLog } from '@/game/GameLog';
+import { ChunkedBoard } from '@/game/ChunkedBoard';
+import { IGameBoard } from '@/interfaces/GameEngine';
+import { DifficultyLevel, FirstClickPolicy, GameState } from '@/types';
+
+const SETTINGS = { width: 8, height: 8, mineCount: 10, level: DifficultyLevel.BEGINNER, seed: 12 };
+
+// Cell states as plain data, so boards rebuilt from JSON compare equal to live ones
+const cellsOf = (board: IGameBoard) => JSON.parse(JSON.stringify(board.getCells()));
+
+describe('GameLog', () => {
+  it('should rebuild the board at any move without keeping snapshots', () => {
+    const gameLogic = new GameLogic();
+    const board = gameLogic.createBoard({ ...SETTINGS, firstClickPolicy: FirstClickPolicy.ZERO });
+    const before = board.serialize();
+    gameLogic.makeMove(board, 3, 3, 'reveal');
+    const mine = board.getCells().flat().find(cell => cell.isMine)!;
+    gameLogic.makeMove(board, mine.x, mine.y, 'flag');
+
+    const log = gameLogic.getGameLog()!;
+    expect(log.getLength()).toBe(2);
+    expect(log.getOrigin()).toBe(before);
+    expect(log.replay(0).serialize()).toBe(before);
+    expect(log.replay(1).getCell(mine.x, mine.y)!.isFlagged).toBe(false);
+    expect(cellsOf(log.replay())).toEqual(cellsOf(board));
+  });
+
+  it('should keep slices as they were when either side plays on', () => {
+    const gameLogic = new GameLogic();
+    const board = gameLogic.createBoard(SETTINGS);
+    const [first, second, third] = board.getCells().flat().filter(cell => !cell.isMine && cell.adjacentMines > 0);
+    gameLogic.makeMove(board, first.x, first.y, 'reveal');
+    gameLogic.makeMove(board, second.x, second.y, 'reveal');
+
+    const log = gameLogic.getGameLog()!;
+    const earlier = log.slice(1);
+    earlier.append({ ...log.getMoves()[1], cell: { x: third.x, y: third.y } }, false);
+    gameLogic.makeMove(board, third.x, third.y, 'reveal');
+
+    expect(earlier.getMoves().map(move => move.cell)).toEqual([first, third].map(({ x, y }) => ({ x, y })));
+    expect(log.getMoves().map(move => move.cell)).toEqual([first, second, third].map(({ x, y }) => ({ x, y })));
+    expect(earlier.replay().getCell(second.x, second.y)!.isRevealed).toBe(false);
+  });
+
+  it('should replay endless boards as they grew', () => {
+    const gameLogic = new GameLogic();
+    const board = gameLogic.startGame(new ChunkedBoard({ seed: 3, chunkSize: 8 }));
+    const start = board.getStartCell();
+    gameLogic.makeMove(board, start.x, start.y, 'reveal');
+    const edge = board.getCells().map(row => row[board.getWidth() - 1]).find(cell => !cell.isMine && !cell.isRevealed)!;
+    gameLogic.makeMove(board, edge.x, edge.y, 'reveal');
+
+    const replayed = gameLogic.getGameLog()!.replay();
+    expect(replayed.getWidth()).toBe(board.getWidth());
+    expect(cellsOf(replayed)).toEqual(cellsOf(board));
+  });
+
+  it('should reject moves that do not apply to its board', () => {
+    const gameLogic = new GameLogic();
+    const board = gameLogic.createBoard(SETTINGS);
+    gameLogic.makeMove(board, 0, 0, 'flag');
+    const log = gameLogic.getGameLog()!;
+    const broken = GameLog.restore(log.getOrigin(), [...log.getMoves(), { ...log.getMoves()[0], action: 'reveal' }]);
+
+    expect(() => broken.replay()).toThrow('Move 1 (reveal at (0, 0)) does not apply to the logged board');
+  });
+
+  /**
+   * **Feature: ai-minesweeper, Property: Replaying the log rebuilds every board of the game**
+   *
+   * For any seed, first-click policy and run of clicks, with question marks switched on and off
+   * during play, replaying the log up to each move gives the board as it stood after that move
+   */
+  it('Property: Replaying the log rebuilds every board of the game', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 1, max: 10000 }),
+        fc.constantFrom(FirstClickPolicy.NONE, FirstClickPolicy.SAFE, FirstClickPolicy.ZERO),
+        fc.array(fc.record({
+          cell: fc.nat(63),
+          action: fc.constantFrom('reveal' as const, 'flag' as const, 'chord' as const),
+          questionMarks: fc.boolean()
+        }), { maxLength: 30 }),
+        (seed, firstClickPolicy, clicks) => {
+          const gameLogic = new GameLogic();
+          const board = gameLogic.createBoard({ ...SETTINGS, seed, firstClickPolicy });
+          const boards: unknown[] = [];
+          clicks.forEach(({ cell, action, questionMarks }) => {
+            gameLogic.setQuestionMarksEnabled(questionMarks);
+            if (gameLogic.makeMove(board, cell % 8, Math.floor(cell / 8), action)) {
+              boards.push(cellsOf(board));
+            }
+          });
+
+          const log = gameLogic.getGameLog()!;
+          expect(log.getLength()).toBe(boards.length);
+          boards.forEach((cells, index) =>
+            expect(cellsOf(log.replay(index + 1))).toEqual(cells));
+          if (log.getLength() > 0 && board.getGameState() === GameState.LOST) {
+            expect(log.replay().getGameState()).toBe(GameState.LOST);
+          }
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+});
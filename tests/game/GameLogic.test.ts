@@ -2,6 +2,7 @@ import { describe, it, expect, beforeEach } from 'vitest';
 import * as fc from 'fast-check';
 import { GameLogic } from '@/game/GameLogic';
 import { GameBoard } from '@/game/GameBoard';
+import { GameLog } from '@/game/GameLog';
 import { DifficultyLevel, GameState } from '@/types';
 
 describe('GameLogic', () => {
@@ -28,6 +29,14 @@ describe('GameLogic', () => {
       expect(board.getGameState()).toBe(GameState.READY);
     });
 
+    it('should record the seed used to create the board', () => {
+      const board = gameLogic.createBoard({ ...testSettings, seed: 1234 });
+
+      expect(board.getSeed()).toBe(1234);
+      expect(gameLogic.getSeed()).toBe(1234);
+      expect(gameLogic.getGameStatistics().seed).toBe(1234);
+    });
+
     it('should validate moves correctly', () => {
       const board = gameLogic.createBoard(testSettings);
       
@@ -65,6 +74,228 @@ describe('GameLogic', () => {
     });
   });
 
+  describe('Chording', () => {
+    // Find a seeded board with a numbered cell that has both mine and safe neighbours
+    const findChordableCell = () => {
+      for (let seed = 1; ; seed++) {
+        const board = gameLogic.createBoard({ ...testSettings, seed });
+        const cells = board.getCells();
+        for (let y = 0; y < board.getHeight(); y++) {
+          for (let x = 0; x < board.getWidth(); x++) {
+            const cell = cells[y][x];
+            const neighbours = board.getAdjacentCells(x, y);
+            const safeNeighbours = neighbours.filter(n => !n.isMine && n.adjacentMines > 0);
+            if (!cell.isMine && cell.adjacentMines > 0 && safeNeighbours.length >= cell.adjacentMines) {
+              return { board, x, y, neighbours };
+            }
+          }
+        }
+      }
+    };
+
+    it('should reveal unflagged neighbours when the flags match the number', () => {
+      const { board, x, y, neighbours } = findChordableCell();
+      gameLogic.makeMove(board, x, y, 'reveal');
+      neighbours.filter(n => n.isMine).forEach(n => gameLogic.makeMove(board, n.x, n.y, 'flag'));
+
+      expect(gameLogic.validateMove(board, x, y, 'chord')).toBe(true);
+      expect(gameLogic.makeMove(board, x, y, 'chord')).toBe(true);
+      expect(neighbours.filter(n => !n.isMine).every(n => n.isRevealed)).toBe(true);
+      expect(board.getGameState()).not.toBe(GameState.LOST);
+      expect(gameLogic.getGameHistory().pop()?.action).toBe('chord');
+    });
+
+    it('should reject chords when the flag count does not match', () => {
+      const { board, x, y } = findChordableCell();
+
+      // Hidden cells cannot be chorded
+      expect(gameLogic.validateMove(board, x, y, 'chord')).toBe(false);
+
+      gameLogic.makeMove(board, x, y, 'reveal');
+      expect(gameLogic.validateMove(board, x, y, 'chord')).toBe(false);
+      expect(gameLogic.makeMove(board, x, y, 'chord')).toBe(false);
+    });
+
+    it('should lose the game when a flag was misplaced', () => {
+      const { board, x, y, neighbours } = findChordableCell();
+      gameLogic.makeMove(board, x, y, 'reveal');
+
+      // Flag safe cells instead of the real mines
+      const count = board.getCell(x, y)!.adjacentMines;
+      neighbours.filter(n => !n.isMine && !n.isRevealed).slice(0, count)
+        .forEach(n => gameLogic.makeMove(board, n.x, n.y, 'flag'));
+
+      expect(gameLogic.makeMove(board, x, y, 'chord')).toBe(true);
+      expect(board.getGameState()).toBe(GameState.LOST);
+      expect(gameLogic.checkLossCondition(board)).toBe(true);
+    });
+  });
+
+  describe('Question Marks', () => {
+    it('should cycle flag, question mark and clear when enabled', () => {
+      const board = gameLogic.createBoard(testSettings);
+      gameLogic.setQuestionMarksEnabled(true);
+      const cell = board.getCell(2, 2)!;
+
+      gameLogic.makeMove(board, 2, 2, 'flag');
+      expect(cell.isFlagged).toBe(true);
+
+      gameLogic.makeMove(board, 2, 2, 'flag');
+      expect(cell.isFlagged).toBe(false);
+      expect(cell.isQuestioned).toBe(true);
+      expect(board.getRemainingMines()).toBe(testSettings.mineCount);
+
+      gameLogic.makeMove(board, 2, 2, 'flag');
+      expect(cell.isFlagged).toBe(false);
+      expect(cell.isQuestioned).toBe(false);
+    });
+
+    it('should only toggle flags when disabled', () => {
+      const board = gameLogic.createBoard(testSettings);
+      const cell = board.getCell(2, 2)!;
+
+      gameLogic.makeMove(board, 2, 2, 'flag');
+      gameLogic.makeMove(board, 2, 2, 'flag');
+      expect(cell.isFlagged).toBe(false);
+      expect(cell.isQuestioned).toBe(false);
+    });
+
+    it('should allow revealing question-marked cells', () => {
+      const board = gameLogic.createBoard(testSettings);
+      const safeCell = board.getCells().flat().find(cell => !cell.isMine)!;
+      board.questionCell(safeCell.x, safeCell.y);
+
+      expect(gameLogic.validateMove(board, safeCell.x, safeCell.y, 'reveal')).toBe(true);
+      gameLogic.makeMove(board, safeCell.x, safeCell.y, 'reveal');
+      expect(safeCell.isRevealed).toBe(true);
+      expect(safeCell.isQuestioned).toBe(false);
+    });
+  });
+
+  describe('Board Events', () => {
+    it('should report a reveal cascade as one batch after the game starts', () => {
+      const board = gameLogic.createBoard({ ...testSettings, width: 9, height: 9, mineCount: 10, seed: 7 });
+      const events: string[] = [];
+      let batch: Array<{ x: number; y: number }> = [];
+      gameLogic.on('gameStarted', () => events.push('gameStarted'));
+      gameLogic.on('cellRevealed', ({ cells }) => {
+        events.push('cellRevealed');
+        batch = cells;
+      });
+
+      const opening = board.getCells().flat().find(cell => !cell.isMine && cell.adjacentMines === 0)!;
+      gameLogic.makeMove(board, opening.x, opening.y, 'reveal');
+
+      expect(events).toEqual(['gameStarted', 'cellRevealed']);
+      expect(batch).toEqual(gameLogic.getLastRevealedCells());
+      expect(batch.length).toBeGreaterThan(1);
+    });
+
+    it('should report flags and the remaining mine count', () => {
+      const board = gameLogic.createBoard(testSettings);
+      const remaining: number[] = [];
+      let flagged: { x: number; y: number } | null = null;
+      gameLogic.on('cellFlagged', ({ cell }) => { flagged = cell; });
+      gameLogic.on('minesRemainingChanged', ({ minesRemaining }) => remaining.push(minesRemaining));
+
+      gameLogic.makeMove(board, 1, 1, 'flag');
+      gameLogic.makeMove(board, 1, 1, 'flag');
+
+      expect(flagged).toMatchObject({ x: 1, y: 1, isFlagged: false });
+      expect(remaining).toEqual([2, 3]);
+    });
+
+    it('should deliver game over events after the final move is recorded', () => {
+      const board = gameLogic.createBoard({ ...testSettings, seed: 11 });
+      let movesAtLoss = 0;
+      let lostCell: { x: number; y: number } | null = null;
+      gameLogic.on('gameLost', ({ cell }) => {
+        movesAtLoss = gameLogic.getMoveCount();
+        lostCell = cell;
+      });
+
+      const mine = board.getCells().flat().find(cell => cell.isMine)!;
+      gameLogic.makeMove(board, mine.x, mine.y, 'reveal');
+
+      expect(movesAtLoss).toBe(1);
+      expect(lostCell).toMatchObject({ x: mine.x, y: mine.y, isMine: true });
+    });
+
+    it('should follow the board in play and stop listening to replaced boards', () => {
+      const oldBoard = gameLogic.createBoard(testSettings);
+      const newBoard = gameLogic.createBoard(testSettings);
+      const sources: unknown[] = [];
+      gameLogic.on('cellFlagged', ({ board }) => sources.push(board));
+
+      oldBoard.flagCell(0, 0);
+      newBoard.flagCell(0, 0);
+
+      const restored = GameBoard.fromSerialized(oldBoard.serialize());
+      gameLogic.restoreHistory(GameLog.start(restored), restored);
+      restored.flagCell(1, 1);
+
+      expect(sources).toEqual([newBoard, restored]);
+    });
+
+    it('should stop notifying a listener after it unsubscribes', () => {
+      const board = gameLogic.createBoard(testSettings);
+      let calls = 0;
+      const unsubscribe = gameLogic.on('cellFlagged', () => calls++);
+
+      gameLogic.makeMove(board, 0, 0, 'flag');
+      unsubscribe();
+      gameLogic.makeMove(board, 0, 0, 'flag');
+
+      expect(calls).toBe(1);
+    });
+  });
+
+  describe('Efficiency Statistics', () => {
+    it('should count every click during the game, including wasted ones', () => {
+      const board = gameLogic.createBoard({ ...testSettings, seed: 5 });
+      const safeCell = board.getCells().flat().find(cell => !cell.isMine)!;
+
+      gameLogic.makeMove(board, safeCell.x, safeCell.y, 'reveal');
+      gameLogic.makeMove(board, safeCell.x, safeCell.y, 'reveal'); // Already revealed
+      gameLogic.makeMove(board, safeCell.x, safeCell.y, 'chord');
+      const hidden = board.getCells().flat().find(cell => !cell.isRevealed);
+      if (hidden) {
+        gameLogic.makeMove(board, hidden.x, hidden.y, 'flag');
+      }
+
+      const stats = gameLogic.getGameStatistics().efficiency;
+      expect(stats.clicks).toEqual({ left: 2, right: hidden ? 1 : 0, chord: 1 });
+      expect(stats.ioe).toBeCloseTo(stats.solved3BV / (hidden ? 4 : 3));
+      expect(stats.throughput).toBeCloseTo(stats.solved3BV / gameLogic.getMoveCount());
+    });
+
+    it('should report full completion once the board is cleared', () => {
+      const board = gameLogic.createBoard({ ...testSettings, seed: 9 });
+      board.getCells().flat()
+        .filter(cell => !cell.isMine)
+        .forEach(cell => gameLogic.makeMove(board, cell.x, cell.y, 'reveal'));
+
+      const stats = gameLogic.getEfficiencyStats();
+      expect(board.getGameState()).toBe(GameState.WON);
+      expect(stats.threeBV).toBe(board.get3BV());
+      expect(stats.solved3BV).toBe(stats.threeBV);
+      expect(stats.completion).toBe(100);
+      expect(stats.ioe).toBeLessThanOrEqual(1);
+    });
+
+    it('should reset clicks on a new game and keep them across a resume', () => {
+      const board = gameLogic.createBoard(testSettings);
+      gameLogic.makeMove(board, 0, 0, 'flag');
+      const session = gameLogic.getSession();
+
+      gameLogic.createBoard(testSettings);
+      expect(gameLogic.getClickCounts()).toEqual({ left: 0, right: 0, chord: 0 });
+
+      gameLogic.restoreSession(session);
+      expect(gameLogic.getClickCounts().right).toBe(1);
+    });
+  });
+
   describe('Win/Loss Condition Detection', () => {
     it('should detect loss condition when mine is revealed', () => {
       const board = gameLogic.createBoard(testSettings);
@@ -145,6 +376,28 @@ describe('GameLogic', () => {
       // Should have a positive score for winning
       expect(gameLogic.getScore()).toBeGreaterThan(0);
     });
+
+    it('should score with the selected ruleset and keep it across a resume', () => {
+      const board = gameLogic.createBoard({ ...testSettings, seed: 3 });
+      gameLogic.setScoringRuleset('no-flag');
+      board.getCells().flat()
+        .filter(cell => !cell.isMine)
+        .forEach(cell => gameLogic.makeMove(board, cell.x, cell.y, 'reveal'));
+
+      const session = gameLogic.getSession();
+      expect(gameLogic.getGameStatistics().scoringRuleset).toBe('no-flag');
+      expect(session.scoringRuleset).toBe('no-flag');
+
+      const resumed = new GameLogic();
+      resumed.restoreSession(session);
+      expect(resumed.getScoringRuleset().id).toBe('no-flag');
+      expect(resumed.getScore()).toBe(gameLogic.getScore());
+    });
+
+    it('should reject unknown scoring rulesets', () => {
+      expect(() => gameLogic.setScoringRuleset('missing')).toThrow("Unknown scoring ruleset 'missing'");
+      expect(gameLogic.getScoringRuleset().id).toBe('classic');
+    });
   });
 
   describe('Game State Management', () => {
@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { GameLogic } from '@/game/GameLogic';
+import { GameModeRun } from '@/game/GameModes';
+import { IGameBoard } from '@/interfaces/GameEngine';
+import { DifficultyLevel, GameMode, GameState } from '@/types';
+
+const difficulty = { width: 8, height: 8, mineCount: 8, level: DifficultyLevel.CUSTOM };
+
+describe('GameModeRun', () => {
+  let gameLogic: GameLogic;
+  let clock: number;
+  const now = () => clock;
+
+  // The first reveal places the mines away from the click
+  const clearBoard = (board: IGameBoard) => {
+    gameLogic.makeMove(board, 0, 0, 'reveal');
+    board.getCells().flat()
+      .filter(cell => !cell.isMine && !cell.isRevealed)
+      .forEach(cell => gameLogic.makeMove(board, cell.x, cell.y, 'reveal'));
+    expect(board.getGameState()).toBe(GameState.WON);
+  };
+
+  const loseBoard = (board: IGameBoard) => {
+    gameLogic.makeMove(board, 0, 0, 'reveal');
+    const mine = board.getCells().flat().find(cell => cell.isMine)!;
+    gameLogic.makeMove(board, mine.x, mine.y, 'reveal');
+    expect(board.getGameState()).toBe(GameState.LOST);
+  };
+
+  beforeEach(() => {
+    gameLogic = new GameLogic();
+    clock = 0;
+  });
+
+  it('should keep a time attack going after a loss until the clock runs out', () => {
+    const run = new GameModeRun(gameLogic, { mode: GameMode.TIME_ATTACK, difficulty, timeLimit: 60 }, now);
+    const finished: boolean[] = [];
+    run.on('boardFinished', ({ won }) => finished.push(won));
+
+    clearBoard(run.start());
+    clock = 20_000;
+    loseBoard(run.nextBoard()!);
+    clearBoard(run.nextBoard()!);
+    expect(finished).toEqual([true, false, true]);
+    expect(run.getTimeRemaining()).toBe(40);
+
+    run.nextBoard();
+    clock = 60_000;
+    run.update();
+
+    expect(run.isFinished()).toBe(true);
+    expect(run.nextBoard()).toBeNull();
+    expect(run.getResult()).toEqual({
+      mode: GameMode.TIME_ATTACK,
+      boardsCleared: 2,
+      boardsLost: 1,
+      timeLimit: 60,
+      timestamp: new Date(60_000)
+    });
+  });
+
+  it('should make every survival board denser until the first loss', () => {
+    const run = new GameModeRun(gameLogic, { mode: GameMode.SURVIVAL, difficulty, densityStep: 0.05 }, now);
+    const mineCounts: number[] = [];
+    run.on('boardStarted', ({ board }) => mineCounts.push(board.getMineCount()));
+
+    clearBoard(run.start());
+    clearBoard(run.nextBoard()!);
+    clock = 30_000;
+    loseBoard(run.nextBoard()!);
+
+    expect(mineCounts).toEqual([8, 11, 14]);
+    expect(run.nextBoard()).toBeNull();
+    expect(run.getResult()).toMatchObject({ mode: GameMode.SURVIVAL, boardsCleared: 2, duration: 30 });
+    expect((run.getResult() as { finalDensity: number }).finalDensity).toBeCloseTo(0.225);
+  });
+
+  it('should give boards too small for a safe opening no mines', () => {
+    const tiny = { width: 2, height: 2, mineCount: 1, level: DifficultyLevel.CUSTOM };
+    const run = new GameModeRun(gameLogic, { mode: GameMode.SURVIVAL, difficulty: tiny }, now);
+
+    const board = run.start();
+    expect(board.getMineCount()).toBe(0);
+    clearBoard(board);
+    expect(run.nextBoard()!.getMineCount()).toBe(0);
+  });
+
+  it('should end a countdown run when a board runs out of time', () => {
+    const run = new GameModeRun(gameLogic, { mode: GameMode.COUNTDOWN, difficulty, boardTimeLimit: 30 }, now);
+    const first = run.start();
+    clock = 12_000;
+    clearBoard(first);
+
+    // Listeners see the run as over by the time the board is reported lost
+    const events: string[] = [];
+    run.on('boardFinished', ({ won }) => events.push(`boardFinished:${won}:${run.isFinished()}`));
+    run.on('runFinished', () => events.push('runFinished'));
+
+    run.nextBoard();
+    clock = 41_000;
+    expect(run.getTimeRemaining()).toBe(1);
+    clock = 42_000;
+    run.update();
+
+    expect(events).toEqual(['boardFinished:false:true', 'runFinished']);
+    expect(run.getResult()).toMatchObject({ mode: GameMode.COUNTDOWN, boardsCleared: 1, boardTimeLimit: 30, fastestBoard: 12 });
+  });
+
+  it('should ignore boards that are no longer part of the run', () => {
+    const run = new GameModeRun(gameLogic, { mode: GameMode.SURVIVAL, difficulty }, now);
+    run.start();
+    run.stop();
+
+    loseBoard(gameLogic.createBoard(difficulty));
+    expect(run.isFinished()).toBe(false);
+    expect(run.getBoardsCleared()).toBe(0);
+  });
+
+  it('should reject time limits that are not positive', () => {
+    expect(() => new GameModeRun(gameLogic, { mode: GameMode.TIME_ATTACK, difficulty, timeLimit: 0 }))
+      .toThrow('Invalid time limit: 0');
+    expect(() => new GameModeRun(gameLogic, { mode: GameMode.COUNTDOWN, difficulty, boardTimeLimit: -5 }))
+      .toThrow('Invalid board time limit: -5');
+  });
+});
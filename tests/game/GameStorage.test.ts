@@ -0,0 +1,87 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { GameLogic } from '@/game/GameLogic';
+import { GameStorage } from '@/game/GameStorage';
+import { IGameBoard } from '@/interfaces/GameEngine';
+import { DifficultyLevel, GameState } from '@/types';
+
+describe('GameStorage', () => {
+  let gameLogic: GameLogic;
+  let board: IGameBoard;
+
+  beforeEach(() => {
+    localStorage.clear();
+    gameLogic = new GameLogic();
+    board = gameLogic.createBoard({
+      width: 8,
+      height: 8,
+      mineCount: 10,
+      level: DifficultyLevel.BEGINNER,
+      seed: 2024
+    });
+  });
+
+  const revealFirstSafeCell = () => {
+    const safeCell = board.getCells().flat().find(cell => !cell.isMine && !cell.isRevealed)!;
+    gameLogic.makeMove(board, safeCell.x, safeCell.y, 'reveal');
+  };
+
+  it('should return null when nothing is saved', () => {
+    expect(GameStorage.hasSavedGame()).toBe(false);
+    expect(GameStorage.loadGame()).toBeNull();
+  });
+
+  it('should resume the board, move history, hints and timer', () => {
+    revealFirstSafeCell();
+    gameLogic.makeMove(board, 7, 7, 'flag');
+    gameLogic.recordHintUsage({
+      cell: { x: 0, y: 0 },
+      action: 'reveal',
+      confidence: 0.9,
+      reasoning: 'test hint',
+      expectedInformation: 1
+    });
+
+    GameStorage.saveGame(board, gameLogic, 'game_1', 42000);
+    expect(GameStorage.hasSavedGame()).toBe(true);
+
+    const saved = GameStorage.loadGame()!;
+    expect(saved.gameId).toBe('game_1');
+    expect(saved.elapsedTime).toBe(42000);
+    expect(saved.assisted).toBe(false);
+    expect(saved.board.serialize()).toBe(board.serialize());
+
+    const resumedLogic = new GameLogic();
+    resumedLogic.restoreSession(saved.session);
+    expect(resumedLogic.getMoveCount()).toBe(2);
+    expect(resumedLogic.getGameHistory()[0].timestamp).toBeInstanceOf(Date);
+    expect(resumedLogic.getHintsUsedCount()).toBe(1);
+    expect(resumedLogic.getSeed()).toBe(2024);
+    expect(resumedLogic.getGameStatistics().startTime).toBeInstanceOf(Date);
+    expect(resumedLogic.getGameLog()!.replay().serialize()).toBe(saved.board.serialize());
+  });
+
+  it('should keep a game marked as assisted across a reload', () => {
+    revealFirstSafeCell();
+    GameStorage.saveGame(board, gameLogic, 'game_1', 1000, true);
+
+    expect(GameStorage.loadGame()!.assisted).toBe(true);
+  });
+
+  it('should not resume finished games', () => {
+    const mine = board.getCells().flat().find(cell => cell.isMine)!;
+    gameLogic.makeMove(board, mine.x, mine.y, 'reveal');
+    expect(board.getGameState()).toBe(GameState.LOST);
+
+    GameStorage.saveGame(board, gameLogic, 'game_1', 1000);
+
+    expect(GameStorage.loadGame()).toBeNull();
+    expect(GameStorage.hasSavedGame()).toBe(false);
+  });
+
+  it('should discard corrupted saves', () => {
+    localStorage.setItem('ai_minesweeper_saved_game', JSON.stringify({ version: 2, gameId: 'game_1', board: '{}' }));
+
+    expect(GameStorage.loadGame()).toBeNull();
+    expect(GameStorage.hasSavedGame()).toBe(false);
+  });
+});
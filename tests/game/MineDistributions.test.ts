@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  CLUSTERED_DISTRIBUTION,
+  DENSITY_GRADIENT_DISTRIBUTION,
+  MineDistribution,
+  MineDistributionContext,
+  SPARSE_EDGE_DISTRIBUTION,
+  UNIFORM_DISTRIBUTION,
+  getMineDistribution,
+  getMineDistributions,
+  registerMineDistribution
+} from '@/game/MineDistributions';
+import { GameBoard } from '@/game/GameBoard';
+import { createSeededRandom } from '@/utils/SeededRandom';
+import { DifficultyLevel } from '@/types';
+
+const context = (seed: number, overrides: Partial<MineDistributionContext> = {}): MineDistributionContext => ({
+  width: 30,
+  height: 16,
+  mineCount: 99,
+  seed,
+  random: createSeededRandom(seed),
+  canHoldMine: () => true,
+  ...overrides
+});
+
+// Share of the mines in the given cells, summed over a batch of seeds to smooth out luck
+const share = (distribution: MineDistribution, inArea: (x: number, y: number) => boolean) => {
+  let inside = 0;
+  let total = 0;
+  for (let seed = 1; seed <= 20; seed++) {
+    distribution.place(context(seed)).forEach(index => {
+      total++;
+      if (inArea(index % 30, Math.floor(index / 30))) inside++;
+    });
+  }
+  return inside / total;
+};
+
+describe('MineDistributions', () => {
+  it('should keep existing seeds giving the same boards', () => {
+    // The layout seed 42 gave before distributions existed
+    const board = new GameBoard({ width: 9, height: 9, mineCount: 10, level: DifficultyLevel.BEGINNER, seed: 42 });
+    const mines = board.getCells().flat().filter(cell => cell.isMine).map(cell => [cell.x, cell.y]);
+
+    expect(mines).toEqual([[7, 0], [6, 2], [0, 4], [1, 4], [5, 4], [7, 4], [2, 5], [6, 5], [7, 6], [2, 7]]);
+    expect(board.getMineDistribution()).toBe('uniform');
+  });
+
+  it('should shape where the mines go', () => {
+    const border = (x: number, y: number) => x === 0 || y === 0 || x === 29 || y === 15;
+    const rightHalf = (x: number) => x >= 15;
+
+    expect(share(SPARSE_EDGE_DISTRIBUTION, border)).toBeLessThan(share(UNIFORM_DISTRIBUTION, border) / 2);
+    expect(share(DENSITY_GRADIENT_DISTRIBUTION, rightHalf)).toBeGreaterThan(0.65);
+
+    // Clustered mines touch each other far more often
+    const touching = (distribution: MineDistribution) => {
+      const mines = new Set(distribution.place(context(5)));
+      return [...mines].filter(index => [1, -1, 30, -30].some(offset => mines.has(index + offset))).length;
+    };
+    expect(touching(CLUSTERED_DISTRIBUTION)).toBeGreaterThan(touching(UNIFORM_DISTRIBUTION));
+  });
+
+  it('should look distributions up by id and accept new ones', () => {
+    expect(getMineDistribution('clustered')).toBe(CLUSTERED_DISTRIBUTION);
+    expect(getMineDistribution('missing')).toBeUndefined();
+
+    const corners: MineDistribution = {
+      id: 'test-corners',
+      name: 'Corners',
+      description: 'Mines in the first cells only',
+      place: ({ mineCount }) => Array.from({ length: mineCount }, (_, i) => i)
+    };
+    registerMineDistribution(corners);
+    expect(getMineDistributions()).toContain(corners);
+
+    const board = new GameBoard({ width: 5, height: 5, mineCount: 3, level: DifficultyLevel.CUSTOM, mineDistribution: 'test-corners' });
+    expect(board.getCells()[0].slice(0, 3).every(cell => cell.isMine)).toBe(true);
+    expect(GameBoard.fromSerialized(board.serialize()).getMineDistribution()).toBe('test-corners');
+    expect(() => new GameBoard({ width: 5, height: 5, mineCount: 3, level: DifficultyLevel.CUSTOM, mineDistribution: 'missing' }))
+      .toThrow("Unknown mine distribution 'missing'");
+  });
+
+  /**
+   * **Feature: ai-minesweeper, Property: Every distribution places exactly the mines asked for**
+   *
+   * For any built-in distribution, seed and excluded area, the layout has exactly mineCount
+   * distinct mines, none of them excluded, and the same seed always gives the same layout
+   */
+  it('Property: Every distribution places exactly the mines asked for', () => {
+    fc.assert(
+      fc.property(
+        fc.constantFrom(UNIFORM_DISTRIBUTION, CLUSTERED_DISTRIBUTION, SPARSE_EDGE_DISTRIBUTION, DENSITY_GRADIENT_DISTRIBUTION),
+        fc.integer({ min: 0, max: 0xffffffff }),
+        fc.integer({ min: 1, max: 60 }),
+        fc.integer({ min: 0, max: 9 }),
+        (distribution, seed, mineCount, excludedRow) => {
+          const settings = { width: 12, height: 10, mineCount, canHoldMine: (index: number) => Math.floor(index / 12) !== excludedRow };
+          const mines = distribution.place(context(seed, settings));
+
+          expect(new Set(mines).size).toBe(mineCount);
+          mines.forEach(index => {
+            expect(index).toBeGreaterThanOrEqual(0);
+            expect(index).toBeLessThan(120);
+            expect(Math.floor(index / 12)).not.toBe(excludedRow);
+          });
+          expect(distribution.place(context(seed, settings))).toEqual(mines);
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { getNeighbourFunction } from '@/game/Neighbourhood';
+import { GameBoard } from '@/game/GameBoard';
+import { DifficultyLevel, GridTopology, NeighbourhoodRule } from '@/types';
+
+const neighboursOf = (rule: NeighbourhoodRule, topology: GridTopology, width: number, height: number, x: number, y: number) => {
+  const neighbours: string[] = [];
+  getNeighbourFunction(topology, rule)(width, height, y * width + x, index => neighbours.push(`${index % width},${Math.floor(index / width)}`));
+  return neighbours;
+};
+
+describe('Neighbourhood', () => {
+  it('should count the cells each rule names', () => {
+    expect(neighboursOf(NeighbourhoodRule.ORTHOGONAL, GridTopology.SQUARE, 5, 5, 2, 2).sort()).toEqual(['1,2', '2,1', '2,3', '3,2']);
+    expect(neighboursOf(NeighbourhoodRule.KNIGHT, GridTopology.SQUARE, 5, 5, 0, 0).sort()).toEqual(['1,2', '2,1']);
+    expect(neighboursOf(NeighbourhoodRule.RADIUS_2, GridTopology.SQUARE, 5, 5, 2, 2)).toHaveLength(24);
+    expect(neighboursOf(NeighbourhoodRule.KNIGHT, GridTopology.TORUS, 5, 5, 0, 0)).toContain('4,3');
+    expect(neighboursOf(NeighbourhoodRule.STANDARD, GridTopology.HEX, 5, 5, 2, 2)).toHaveLength(6);
+  });
+
+  it('should refuse variant rules on a hex grid', () => {
+    expect(() => new GameBoard({
+      width: 5,
+      height: 5,
+      mineCount: 3,
+      level: DifficultyLevel.CUSTOM,
+      topology: GridTopology.HEX,
+      neighbourhood: NeighbourhoodRule.KNIGHT
+    })).toThrow('Neighbourhood rule knight needs a square grid');
+  });
+
+  it('should number a board by its rule and keep the rule through a round trip', () => {
+    const board = new GameBoard({ width: 7, height: 7, mineCount: 12, level: DifficultyLevel.CUSTOM, seed: 3, neighbourhood: NeighbourhoodRule.KNIGHT });
+    board.getCells().flat().filter(cell => !cell.isMine).forEach(cell => {
+      const knightMines = neighboursOf(NeighbourhoodRule.KNIGHT, GridTopology.SQUARE, 7, 7, cell.x, cell.y)
+        .filter(key => {
+          const [x, y] = key.split(',').map(Number);
+          return board.getCell(x, y)!.isMine;
+        });
+      expect(cell.adjacentMines).toBe(knightMines.length);
+    });
+
+    const restored = GameBoard.fromSerialized(board.serialize());
+    expect(restored.getNeighbourhood()).toBe(NeighbourhoodRule.KNIGHT);
+    expect(restored.getAdjacentCells(0, 0)).toHaveLength(2);
+    expect(() => GameBoard.fromSerialized(JSON.stringify({ ...JSON.parse(board.serialize()), neighbourhood: 'king' })))
+      .toThrow('Invalid neighbourhood rule: king');
+  });
+
+  /**
+   * **Feature: ai-minesweeper, Property: Neighbourhood rules are symmetric**
+   *
+   * For any rule on a square or wrapped board, a cell counts exactly the cells that count it,
+   * never itself and never the same cell twice
+   */
+  it('Property: Neighbourhood rules are symmetric', () => {
+    fc.assert(
+      fc.property(
+        fc.constantFrom(...Object.values(NeighbourhoodRule)),
+        fc.constantFrom(GridTopology.SQUARE, GridTopology.TORUS),
+        fc.integer({ min: 1, max: 7 }),
+        fc.integer({ min: 1, max: 7 }),
+        (rule, topology, width, height) => {
+          const forEachNeighbour = getNeighbourFunction(topology, rule);
+          const neighbours = Array.from({ length: width * height }, (_, index) => {
+            const list: number[] = [];
+            forEachNeighbour(width, height, index, neighbour => list.push(neighbour));
+            return list;
+          });
+
+          neighbours.forEach((list, index) => {
+            expect(list).not.toContain(index);
+            expect(new Set(list).size).toBe(list.length);
+            list.forEach(neighbour => expect(neighbours[neighbour]).toContain(index));
+          });
+        }
+      )
+    );
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { GameBoard } from '@/game/GameBoard';
+import { decodePosition, encodePosition } from '@/game/PositionCode';
+import { getShapePreset } from '@/game/BoardShapes';
+import { getMineDistributions } from '@/game/MineDistributions';
+import { IGameBoard } from '@/interfaces/GameEngine';
+import { DifficultyLevel, FirstClickPolicy, GameState, GridTopology } from '@/types';
+
+const EXPERT = { width: 30, height: 16, mineCount: 99, level: DifficultyLevel.EXPERT, seed: 99 };
+
+// Everything a position code should bring back
+const positionOf = (board: IGameBoard) => ({
+  state: board.getGameState(),
+  topology: board.getTopology(),
+  cells: board.getCells().map(row => row.map(cell =>
+    `${cell.isMasked ? '.' : ''}${cell.isMine ? '*' : ''}${cell.isRevealed ? cell.adjacentMines : ''}${cell.isFlagged ? 'F' : ''}`
+  ))
+});
+
+describe('PositionCode', () => {
+  it('should pack a seeded game in progress into a short URL-safe code', () => {
+    const board = new GameBoard(EXPERT);
+    const safe = board.getCells().flat().filter(cell => !cell.isMine);
+    board.revealCell(safe[40].x, safe[40].y);
+    const mine = board.getCells().flat().find(cell => cell.isMine)!;
+    board.flagCell(mine.x, mine.y);
+
+    const code = encodePosition(board);
+    expect(code).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(code.length).toBeLessThan(120);
+
+    const copy = decodePosition(code);
+    expect(positionOf(copy)).toEqual({ ...positionOf(board), state: GameState.READY });
+    expect(copy.getSeed()).toBe(99);
+  });
+
+  it('should list the mines of boards the seed cannot rebuild, and bring finished games back finished', () => {
+    const board = new GameBoard({ ...EXPERT, firstClickPolicy: FirstClickPolicy.ZERO });
+    board.revealCell(10, 8);
+    const mine = board.getCells().flat().find(cell => cell.isMine)!;
+    board.revealCell(mine.x, mine.y);
+    expect(board.getGameState()).toBe(GameState.LOST);
+    expect(positionOf(decodePosition(encodePosition(board)))).toEqual(positionOf(board));
+
+    const won = GameBoard.fromLayout({ width: 3, height: 1, mineCount: 1, level: DifficultyLevel.CUSTOM }, [{ x: 0, y: 0 }]);
+    won.revealCell(2, 0);
+    expect(won.getGameState()).toBe(GameState.WON);
+    expect(positionOf(decodePosition(encodePosition(won)))).toEqual(positionOf(won));
+  });
+
+  it('should reject codes it cannot read', () => {
+    const code = encodePosition(new GameBoard(EXPERT));
+
+    expect(() => decodePosition('not a code!')).toThrow('Invalid position code: not a code!');
+    expect(() => decodePosition(code.slice(0, 6))).toThrow('Invalid position code');
+    expect(() => decodePosition(`C${code.slice(1)}`)).toThrow('Invalid position code');
+  });
+
+  /**
+   * **Feature: ai-minesweeper, Property: Position codes bring back the exact board**
+   *
+   * For any board shape, grid, mine distribution and run of reveals and flags, decoding a board's
+   * code gives the same mines, holes, revealed cells, flags and finished state
+   */
+  it('Property: Position codes bring back the exact board', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 0, max: 0xffffffff }),
+        fc.boolean(),
+        fc.constantFrom(...Object.values(GridTopology)),
+        fc.constantFrom(FirstClickPolicy.NONE, FirstClickPolicy.SAFE),
+        fc.constantFrom(...getMineDistributions().map(distribution => distribution.id)),
+        fc.array(fc.record({ cell: fc.nat(), flag: fc.boolean() }), { maxLength: 15 }),
+        (seed, shaped, topology, firstClickPolicy, mineDistribution, clicks) => {
+          const ring = getShapePreset('ring')!;
+          const board = new GameBoard(shaped
+            ? { width: ring.mask[0].length, height: ring.mask.length, mineCount: ring.mineCount, level: DifficultyLevel.CUSTOM, seed, mask: ring.mask, firstClickPolicy, mineDistribution }
+            : { width: 9, height: 9, mineCount: 10, level: DifficultyLevel.BEGINNER, seed, topology, firstClickPolicy, mineDistribution });
+          const cells = board.getCells().flat();
+          clicks.forEach(({ cell, flag }) => {
+            const { x, y } = cells[cell % cells.length];
+            if (flag) board.flagCell(x, y);
+            else if (board.getGameState() !== GameState.LOST) board.revealCell(x, y);
+          });
+
+          const position = positionOf(board);
+          const copy = decodePosition(encodePosition(board));
+          expect(positionOf(copy)).toEqual({ ...position, state: position.state === GameState.PLAYING ? GameState.READY : position.state });
+
+          // Mines still waiting for the first click are placed the same way once it comes
+          const start = cells.find(cell => !cell.isMasked && !cell.isRevealed && !cell.isFlagged);
+          if (!board.hasPlacedMines() && start) {
+            board.revealCell(start.x, start.y);
+            copy.revealCell(start.x, start.y);
+            expect(positionOf(copy)).toEqual(positionOf(board));
+          }
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+});
@@ -0,0 +1,161 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { GameLogic } from '@/game/GameLogic';
+import { GameLog } from '@/game/GameLog';
+import { ChunkedBoard } from '@/game/ChunkedBoard';
+import { createPuzzleBoard, getPuzzle } from '@/game/Puzzles';
+import {
+  convertRawvf,
+  createReplay,
+  importReplay,
+  parseReplay,
+  playReplay,
+  serializeReplay
+} from '@/game/ReplayFormat';
+import { DifficultyLevel, FirstClickPolicy, GameState } from '@/types';
+
+const mineCells = (board: { getCells(): Array<Array<{ x: number; y: number; isMine: boolean }>> }) =>
+  board.getCells().flat().filter(cell => cell.isMine).map(({ x, y }) => `${x},${y}`);
+
+const RAWVF = [
+  'RawVF_Version: Rev5',
+  'Program: Minesweeper Arbiter',
+  'Width: 3',
+  'Height: 3',
+  'Mines: 2',
+  'Board:',
+  '*00',
+  '000',
+  '00*',
+  'Events:',
+  '0.00 lc 40 8 (3 1)',
+  '0.10 lr 40 8 (3 1)',
+  '0.50 lc 24 8 (2 1)',
+  '0.60 lr 24 8 (2 1)',
+  '0.90 rc 8 8 (1 1)',
+  '1.00 rr 8 8 (1 1)',
+  '1.20 lc 24 8 (2 1)',
+  '1.25 rc 24 8 (2 1)',
+  '1.30 rr 24 8 (2 1)',
+  '1.35 lr 24 8 (2 1)',
+  '1.50 lc 8 40 (1 3)',
+  '1.60 lr 8 40 (1 3)'
+].join('\n');
+
+describe('ReplayFormat', () => {
+  it('should export a seeded game as its seed and play it back move for move', () => {
+    const gameLogic = new GameLogic();
+    const board = gameLogic.createBoard({
+      width: 9, height: 9, mineCount: 10, level: DifficultyLevel.BEGINNER, seed: 7,
+      firstClickPolicy: FirstClickPolicy.SAFE
+    });
+    gameLogic.makeMove(board, 4, 4, 'reveal');
+    const hidden = board.getCells().flat().filter(cell => !cell.isRevealed);
+    gameLogic.makeMove(board, hidden.find(cell => cell.isMine)!.x, hidden.find(cell => cell.isMine)!.y, 'flag');
+    gameLogic.makeMove(board, hidden.find(cell => !cell.isMine)!.x, hidden.find(cell => !cell.isMine)!.y, 'reveal');
+
+    const file = serializeReplay(createReplay(gameLogic.getGameLog()!));
+    expect(JSON.parse(file).mines).toBeUndefined();
+
+    const moves = importReplay(file);
+    const history = gameLogic.getGameHistory();
+    expect(moves.map(move => [move.action, move.cell])).toEqual(history.map(move => [move.action, move.cell]));
+    expect(moves.map(move => move.timestamp.getTime())).toEqual(history.map(move => move.timestamp.getTime()));
+    expect(mineCells(playReplay(parseReplay(file)).board)).toEqual(mineCells(board));
+  });
+
+  it('should carry the layout of hand-made boards, chords included', () => {
+    const gameLogic = new GameLogic();
+    const board = gameLogic.startGame(createPuzzleBoard(getPuzzle('first-steps')!));
+    gameLogic.makeMove(board, 1, 0, 'flag');
+    gameLogic.makeMove(board, 3, 0, 'flag');
+    gameLogic.makeMove(board, 2, 0, 'reveal');
+    gameLogic.makeMove(board, 1, 1, 'chord');
+    gameLogic.makeMove(board, 3, 1, 'chord');
+    expect(board.getGameState()).toBe(GameState.WON);
+
+    const replay = parseReplay(serializeReplay(createReplay(gameLogic.getGameLog()!)));
+    expect(replay.layout!.mines).toEqual([{ x: 1, y: 0 }, { x: 3, y: 0 }]);
+    expect(replay.layout!.revealed).toHaveLength(10);
+    expect(replay.actions.filter(action => action.action === 'chord')).toHaveLength(2);
+    expect(playReplay(replay).board.getGameState()).toBe(GameState.WON);
+  });
+
+  it('should reject files it cannot read or play', () => {
+    const gameLogic = new GameLogic();
+    const board = gameLogic.createBoard({ width: 5, height: 5, mineCount: 3, level: DifficultyLevel.CUSTOM, seed: 1 });
+    const safe = board.getCells().flat().find(cell => !cell.isMine)!;
+    gameLogic.makeMove(board, safe.x, safe.y, 'reveal');
+    const file = JSON.parse(serializeReplay(createReplay(gameLogic.getGameLog()!)));
+
+    expect(() => importReplay('{')).toThrow('Replay is not valid JSON');
+    expect(() => importReplay('{"format":"board"}')).toThrow('Not a replay file');
+    expect(() => importReplay(JSON.stringify({ ...file, version: 2 }))).toThrow('Unsupported replay version: 2');
+    expect(() => importReplay(JSON.stringify({ ...file, actions: [[0, 'x', 0, 0]] }))).toThrow('Invalid replay action at index 0');
+    expect(() => importReplay(JSON.stringify({ ...file, settings: { ...file.settings, seed: undefined } })))
+      .toThrow('Replay has neither a seed nor a mine layout');
+    expect(() => importReplay(JSON.stringify({ ...file, settings: { ...file.settings, topology: 'cube' } })))
+      .toThrow('Invalid grid topology: cube');
+    expect(() => importReplay(JSON.stringify({ ...file, settings: { ...file.settings, neighbourhood: 'king' } })))
+      .toThrow('Invalid neighbourhood rule: king');
+    expect(() => importReplay(JSON.stringify({ ...file, settings: { ...file.settings, firstClickPolicy: 'always' } })))
+      .toThrow('Invalid first click policy: always');
+    expect(() => importReplay(JSON.stringify({ ...file, settings: { ...file.settings, mineDistribution: 'spiral' } })))
+      .toThrow('Unknown mine distribution: spiral');
+    expect(() => importReplay(JSON.stringify({ ...file, actions: [...file.actions, ...file.actions] })))
+      .toThrow(`Replay action 1 (reveal at (${safe.x}, ${safe.y})) does not apply to the board`);
+    expect(() => createReplay(GameLog.start(board))).toThrow('A replay needs at least one move');
+
+    const endlessLogic = new GameLogic();
+    const endless = endlessLogic.startGame(new ChunkedBoard({ seed: 5, chunkSize: 8 }));
+    endlessLogic.makeMove(endless, endless.getStartCell().x, endless.getStartCell().y, 'reveal');
+    expect(() => createReplay(endlessLogic.getGameLog()!)).toThrow('Endless games cannot be saved as replays');
+  });
+
+  it('should convert RAWVF videos, dropping clicks that change nothing', () => {
+    const replay = convertRawvf(RAWVF);
+
+    expect(replay.settings).toMatchObject({ width: 3, height: 3, mineCount: 2 });
+    expect(replay.layout!.mines).toEqual([{ x: 0, y: 0 }, { x: 2, y: 2 }]);
+    // The second click lands on a cell the opening already uncovered, and letting go of the
+    // left button after the chord does nothing
+    expect(replay.actions).toEqual([
+      { time: 100, action: 'reveal', x: 2, y: 0 },
+      { time: 900, action: 'flag', x: 0, y: 0 },
+      { time: 1300, action: 'chord', x: 1, y: 0 },
+      { time: 1600, action: 'reveal', x: 0, y: 2 }
+    ]);
+    expect(playReplay(replay).board.getGameState()).toBe(GameState.WON);
+    expect(() => convertRawvf(RAWVF.replace('Mines: 2', 'Mines: 3'))).toThrow('RAWVF board has 2 mines but its header says 3');
+  });
+
+  /**
+   * **Feature: ai-minesweeper, Property: Replays rebuild the game they were exported from**
+   *
+   * For any seeded game and any run of clicks on it, importing the exported replay gives back
+   * the recorded moves with the same board after each one
+   */
+  it('Property: Replays rebuild the game they were exported from', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 1, max: 10000 }),
+        fc.constantFrom(FirstClickPolicy.NONE, FirstClickPolicy.ZERO),
+        fc.array(fc.record({ cell: fc.nat(63), action: fc.constantFrom('reveal' as const, 'flag' as const, 'chord' as const) }), { minLength: 1, maxLength: 30 }),
+        (seed, firstClickPolicy, clicks) => {
+          const gameLogic = new GameLogic();
+          gameLogic.setQuestionMarksEnabled(seed % 2 === 0);
+          const board = gameLogic.createBoard({ width: 8, height: 8, mineCount: 10, level: DifficultyLevel.BEGINNER, seed, firstClickPolicy });
+          clicks.forEach(({ cell, action }) => gameLogic.makeMove(board, cell % 8, Math.floor(cell / 8), action));
+          const log = gameLogic.getGameLog()!;
+          if (log.getLength() === 0) return;
+
+          const { moves, log: imported } = playReplay(parseReplay(serializeReplay(createReplay(log))));
+          expect(moves.map(move => [move.action, move.cell])).toEqual(log.getMoves().map(move => [move.action, move.cell]));
+          const cellsOf = (length: number, from: GameLog) => JSON.stringify(from.replay(length).getCells());
+          moves.forEach((_, index) => expect(cellsOf(index + 1, imported)).toBe(cellsOf(index + 1, log)));
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+});
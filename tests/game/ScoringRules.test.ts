@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import {
+  CLASSIC_SCORING,
+  HINT_PENALTY_SCORING,
+  NO_FLAG_SCORING,
+  THREE_BV_SCORING,
+  TIME_SCORING,
+  ScoringContext,
+  getScoringRuleset,
+  getScoringRulesets,
+  registerScoringRuleset
+} from '@/game/ScoringRules';
+import { GameState } from '@/types';
+
+const context = (overrides: Partial<ScoringContext> = {}): ScoringContext => ({
+  gameState: GameState.WON,
+  duration: 20,
+  moveCount: 10,
+  width: 9,
+  height: 9,
+  mineCount: 10,
+  hintsUsed: 0,
+  efficiency: {
+    threeBV: 30,
+    solved3BV: 30,
+    threeBVPerSecond: 1.5,
+    ioe: 0.75,
+    throughput: 1,
+    completion: 100,
+    clicks: { left: 30, right: 10, chord: 0 }
+  },
+  previousScore: 0,
+  ...overrides
+});
+
+describe('ScoringRules', () => {
+  it('should keep the original formula as the classic ruleset', () => {
+    expect(CLASSIC_SCORING.score(context())).toBe(Math.floor((81 * 10 * 1000) / (20 * 10)));
+    expect(CLASSIC_SCORING.score(context({ gameState: GameState.LOST, previousScore: 150 }))).toBe(50);
+    expect(CLASSIC_SCORING.score(context({ gameState: GameState.PLAYING, previousScore: 7 }))).toBe(7);
+  });
+
+  it('should score time and 3BV rulesets only for wins', () => {
+    expect(TIME_SCORING.score(context())).toBe(500);
+    expect(THREE_BV_SCORING.score(context())).toBe(Math.floor((30 * 0.75 * 1000) / 20));
+    expect(TIME_SCORING.score(context({ gameState: GameState.LOST }))).toBe(0);
+    expect(THREE_BV_SCORING.score(context({ gameState: GameState.PLAYING }))).toBe(0);
+  });
+
+  it('should apply hint penalties and the no-flag bonus on top of classic scoring', () => {
+    const classic = CLASSIC_SCORING.score(context());
+    const noFlags = context({ efficiency: { ...context().efficiency, clicks: { left: 30, right: 0, chord: 0 } } });
+
+    expect(HINT_PENALTY_SCORING.score(context({ hintsUsed: 2 }))).toBe(Math.floor(classic * 0.5625));
+    expect(NO_FLAG_SCORING.score(context())).toBe(classic);
+    expect(NO_FLAG_SCORING.score(noFlags)).toBe(classic * 2);
+  });
+
+  it('should look up built-in and registered rulesets by id', () => {
+    expect(getScoringRulesets().map(ruleset => ruleset.id))
+      .toEqual(expect.arrayContaining(['classic', 'time', '3bv', 'hint-penalty', 'no-flag']));
+
+    registerScoringRuleset({ id: 'moves', name: 'Moves', description: 'Fewest moves wins', score: c => 1000 - c.moveCount });
+    expect(getScoringRuleset('moves')?.score(context())).toBe(990);
+    expect(getScoringRuleset('missing')).toBeUndefined();
+  });
+
+  /**
+   * **Feature: ai-minesweeper, Property: Built-in scores are never negative**
+   *
+   * For any finished or running game, every built-in ruleset returns a non-negative whole number
+   */
+  it('Property: Built-in scores are never negative', () => {
+    fc.assert(
+      fc.property(
+        fc.constantFrom(GameState.READY, GameState.PLAYING, GameState.WON, GameState.LOST),
+        fc.nat(3600),
+        fc.nat(500),
+        fc.nat(10),
+        fc.nat(1000),
+        (gameState, duration, moveCount, hintsUsed, previousScore) => {
+          const scoringContext = context({ gameState, duration, moveCount, hintsUsed, previousScore });
+          [CLASSIC_SCORING, TIME_SCORING, THREE_BV_SCORING, HINT_PENALTY_SCORING, NO_FLAG_SCORING].forEach(ruleset => {
+            const score = ruleset.score(scoringContext);
+            expect(Number.isInteger(score)).toBe(true);
+            expect(score).toBeGreaterThanOrEqual(0);
+          });
+        }
+      ),
+      { numRuns: 100 }
+    );
+  });
+});
@@ -0,0 +1,166 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import * as fc from 'fast-check';
+import { GameLogic } from '@/game/GameLogic';
+import { StateManager } from '@/game/StateManager';
+import { IGameBoard } from '@/interfaces/GameEngine';
+import { DifficultyLevel, GameState } from '@/types';
+
+describe('StateManager', () => {
+  let gameLogic: GameLogic;
+  let stateManager: StateManager;
+  let board: IGameBoard;
+
+  // Reveal the first hidden safe cell, recording the new state like main.ts does
+  const revealNextSafeCell = (): boolean => {
+    const target = board.getCells().flat().find(cell => !cell.isMine && !cell.isRevealed);
+    if (!target || !gameLogic.makeMove(board, target.x, target.y, 'reveal')) {
+      return false;
+    }
+    stateManager.saveState(board);
+    return true;
+  };
+
+  beforeEach(() => {
+    gameLogic = new GameLogic();
+    stateManager = new StateManager(gameLogic);
+    board = gameLogic.createBoard({
+      width: 8,
+      height: 8,
+      mineCount: 20,
+      level: DifficultyLevel.CUSTOM,
+      seed: 99
+    });
+    stateManager.saveState(board);
+  });
+
+  it('should only allow undo in practice mode', () => {
+    revealNextSafeCell();
+
+    expect(stateManager.canUndo()).toBe(false);
+    expect(stateManager.undo()).toBeNull();
+
+    stateManager.setPracticeMode(true);
+    expect(stateManager.canUndo()).toBe(true);
+  });
+
+  it('should undo and redo moves together with the move history', () => {
+    stateManager.setPracticeMode(true);
+    const initialState = board.serialize();
+    revealNextSafeCell();
+    const afterFirstMove = board.serialize();
+    revealNextSafeCell();
+
+    board = stateManager.undo()!;
+    expect(board.serialize()).toBe(afterFirstMove);
+    expect(gameLogic.getMoveCount()).toBe(1);
+
+    board = stateManager.undo()!;
+    expect(board.serialize()).toBe(initialState);
+    expect(gameLogic.getMoveCount()).toBe(0);
+    expect(stateManager.canUndo()).toBe(false);
+
+    board = stateManager.redo()!;
+    expect(board.serialize()).toBe(afterFirstMove);
+    expect(gameLogic.getMoveCount()).toBe(1);
+    expect(stateManager.getCurrentBoard()).toBe(board);
+  });
+
+  it('should discard redo history after a new move', () => {
+    stateManager.setPracticeMode(true);
+    revealNextSafeCell();
+    board = stateManager.undo()!;
+
+    expect(stateManager.canRedo()).toBe(true);
+    revealNextSafeCell();
+    expect(stateManager.canRedo()).toBe(false);
+  });
+
+  it('should rewind a lost game in practice mode', () => {
+    stateManager.setPracticeMode(true);
+    revealNextSafeCell();
+
+    const mine = board.getCells().flat().find(cell => cell.isMine)!;
+    gameLogic.makeMove(board, mine.x, mine.y, 'reveal');
+    stateManager.saveState(board);
+    expect(board.getGameState()).toBe(GameState.LOST);
+
+    board = stateManager.undo()!;
+    expect(board.getGameState()).toBe(GameState.PLAYING);
+    expect(gameLogic.isGameActive(board)).toBe(true);
+    expect(gameLogic.getGameStatistics().endTime).toBeUndefined();
+  });
+
+  it('should restore named checkpoints and mark the game as assisted', () => {
+    stateManager.setPracticeMode(true);
+    revealNextSafeCell();
+    expect(stateManager.createCheckpoint('opening')).toBe(true);
+    const checkpointState = board.serialize();
+    revealNextSafeCell();
+
+    expect(stateManager.wasAssisted()).toBe(false);
+    expect(stateManager.getCheckpointNames()).toEqual(['opening']);
+
+    board = stateManager.restoreCheckpoint('opening')!;
+    expect(board.serialize()).toBe(checkpointState);
+    expect(stateManager.wasAssisted()).toBe(true);
+    expect(stateManager.restoreCheckpoint('missing')).toBeNull();
+  });
+
+  it('should clear history, checkpoints and the assisted flag on reset', () => {
+    stateManager.setPracticeMode(true);
+    revealNextSafeCell();
+    stateManager.createCheckpoint('opening');
+    stateManager.undo();
+
+    stateManager.reset();
+
+    expect(stateManager.getCurrentBoard()).toBeNull();
+    expect(stateManager.canUndo()).toBe(false);
+    expect(stateManager.getCheckpointNames()).toEqual([]);
+    expect(stateManager.wasAssisted()).toBe(false);
+    expect(stateManager.isPracticeMode()).toBe(true);
+  });
+
+  describe('Property-Based Tests', () => {
+    /**
+     * **Feature: ai-minesweeper, Property: Undo restores every earlier state**
+     *
+     * For any number of moves, undoing them one at a time walks back through the exact board states
+     */
+    it('Property: Undo restores every earlier state', () => {
+      fc.assert(
+        fc.property(
+          fc.integer({ min: 0, max: 0xffffffff }),
+          fc.integer({ min: 1, max: 6 }),
+          (seed, moveCount) => {
+            gameLogic = new GameLogic();
+            stateManager = new StateManager(gameLogic);
+            stateManager.setPracticeMode(true);
+            board = gameLogic.createBoard({
+              width: 6,
+              height: 6,
+              mineCount: 10,
+              level: DifficultyLevel.CUSTOM,
+              seed
+            });
+            stateManager.saveState(board);
+
+            const history = [board.serialize()];
+            for (let i = 0; i < moveCount && board.getGameState() !== GameState.WON; i++) {
+              if (revealNextSafeCell()) {
+                history.push(board.serialize());
+              }
+            }
+
+            for (let i = history.length - 2; i >= 0; i--) {
+              board = stateManager.undo()!;
+              expect(board.serialize()).toBe(history[i]);
+            }
+            expect(stateManager.canUndo()).toBe(false);
+          }
+        ),
+        { numRuns: 50 }
+      );
+    });
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { getTopology, HEX_TOPOLOGY, SQUARE_TOPOLOGY, TORUS_TOPOLOGY } from '@/game/Topology';
+import { GridTopology } from '@/types';
+
+const neighboursOf = (type: GridTopology, width: number, height: number, x: number, y: number) => {
+  const neighbours: number[] = [];
+  getTopology(type).forEachNeighbour(width, height, y * width + x, index => neighbours.push(index));
+  return neighbours;
+};
+
+const topologyArb = fc.constantFrom(GridTopology.SQUARE, GridTopology.TORUS, GridTopology.HEX);
+
+describe('Topology', () => {
+  it('should give each grid its own neighbours', () => {
+    expect(neighboursOf(GridTopology.SQUARE, 5, 5, 0, 0)).toHaveLength(3);
+    expect(neighboursOf(GridTopology.TORUS, 5, 5, 0, 0).sort((a, b) => a - b)).toEqual([1, 4, 5, 6, 9, 20, 21, 24]);
+    // Even rows lean left, odd rows lean right
+    expect(neighboursOf(GridTopology.HEX, 5, 5, 2, 2).sort((a, b) => a - b)).toEqual([6, 7, 11, 13, 16, 17]);
+    expect(neighboursOf(GridTopology.HEX, 5, 5, 2, 1).sort((a, b) => a - b)).toEqual([2, 3, 6, 8, 12, 13]);
+    expect(neighboursOf(GridTopology.HEX, 5, 5, 0, 0)).toHaveLength(2);
+  });
+
+  it('should wrap keyboard steps only on the torus', () => {
+    expect(SQUARE_TOPOLOGY.step(5, 5, 0, 2, -1, 0)).toBeNull();
+    expect(TORUS_TOPOLOGY.step(5, 5, 0, 2, -1, 0)).toEqual({ x: 4, y: 2 });
+    expect(TORUS_TOPOLOGY.step(5, 5, 3, 4, 0, 1)).toEqual({ x: 3, y: 0 });
+    expect(HEX_TOPOLOGY.step(5, 5, 4, 1, 1, 0)).toBeNull();
+  });
+
+  it('should miss the gaps between hexagons on the board edge', () => {
+    const cellSize = 30;
+    const size = HEX_TOPOLOGY.boardSize(4, 3, cellSize);
+
+    expect(size.width).toBe(4.5 * cellSize);
+    expect(HEX_TOPOLOGY.cellAt(1, 1, 4, 3, cellSize)).toBeNull();
+    expect(HEX_TOPOLOGY.cellAt(cellSize / 2, cellSize / 2, 4, 3, cellSize)).toEqual({ x: 0, y: 0 });
+  });
+
+  /**
+   * **Feature: ai-minesweeper, Property: Neighbourhoods are symmetric**
+   *
+   * For any topology and board, whenever a cell lists another as a neighbour the other lists it
+   * back, and no cell is its own neighbour
+   */
+  it('Property: Neighbourhoods are symmetric', () => {
+    fc.assert(
+      fc.property(topologyArb, fc.integer({ min: 1, max: 8 }), fc.integer({ min: 1, max: 8 }), (type, width, height) => {
+        const topology = getTopology(type);
+        const neighbours = Array.from({ length: width * height }, (_, index) => {
+          const list: number[] = [];
+          topology.forEachNeighbour(width, height, index, neighbour => list.push(neighbour));
+          return list;
+        });
+
+        neighbours.forEach((list, index) => {
+          expect(list).not.toContain(index);
+          expect(new Set(list).size).toBe(list.length);
+          list.forEach(neighbour => expect(neighbours[neighbour]).toContain(index));
+        });
+      })
+    );
+  });
+
+  /**
+   * **Feature: ai-minesweeper, Property: Cell centres hit their own cell**
+   *
+   * For any topology, cell and cell size, hit-testing a cell's centre returns that cell
+   */
+  it('Property: Cell centres hit their own cell', () => {
+    fc.assert(
+      fc.property(
+        topologyArb,
+        fc.integer({ min: 0, max: 29 }),
+        fc.integer({ min: 0, max: 15 }),
+        fc.integer({ min: 10, max: 60 }),
+        (type, x, y, cellSize) => {
+          const topology = getTopology(type);
+          const centre = topology.cellCentre(x, y, cellSize);
+          expect(topology.cellAt(centre.x, centre.y, 30, 16, cellSize)).toEqual({ x, y });
+        }
+      )
+    );
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, it, expect } from 'vitest';
+import * as fc from 'fast-check';
+import { BoardEditor } from '@/ui/BoardEditor';
+import { PuzzlePlayer } from '@/ai/PuzzlePlayer';
+import { GameLogic } from '@/game/GameLogic';
+import { GameBoard } from '@/game/GameBoard';
+import { getShapePreset } from '@/game/BoardShapes';
+import { getPuzzle, toPuzzleGrid } from '@/game/Puzzles';
+import { DifficultyLevel, GridTopology, NeighbourhoodRule } from '@/types';
+
+const FIRST_STEPS_CODE = `grid:${getPuzzle('first-steps')!.grid.join('/')}`;
+
+describe('BoardEditor', () => {
+  it('should place mines, reveal cells and cut holes', () => {
+    const editor = new BoardEditor();
+    editor.resize(3, 2);
+
+    expect(editor.applyTool(0, 0)).toBe(true);
+    editor.setTool('reveal');
+    expect(editor.applyTool(0, 0)).toBe(false);
+    expect(editor.applyTool(1, 0)).toBe(true);
+    editor.setTool('hole');
+    expect(editor.applyTool(2, 1)).toBe(true);
+    expect(editor.applyTool(3, 0)).toBe(false);
+
+    const board = editor.getBoard();
+    expect(board.getCell(0, 0)!.isMine).toBe(true);
+    expect(board.getCell(1, 0)!.isRevealed).toBe(true);
+    expect(board.getCell(1, 0)!.adjacentMines).toBe(1);
+    expect(board.getCell(2, 1)!.isMasked).toBe(true);
+    expect(() => editor.resize(31, 5)).toThrow('Invalid board dimensions: 31x5');
+  });
+
+  it('should show which hidden cells the solver can deduce', () => {
+    const editor = new BoardEditor();
+    editor.loadShareCode(FIRST_STEPS_CODE);
+
+    expect(editor.getDeducibleCells().size).toBe(5);
+    expect(editor.getDeducibleCells().get('1,0')).toBe(1);
+
+    // With every number hidden again there is nothing to deduce from
+    editor.setTool('reveal');
+    [0, 1, 2, 3, 4].forEach(x => editor.applyTool(x, 2));
+    [0, 1, 2, 3, 4].forEach(x => editor.applyTool(x, 1));
+    expect(editor.getDeducibleCells().size).toBe(0);
+  });
+
+  it('should export boards and puzzles that play back', () => {
+    const editor = new BoardEditor();
+    editor.loadShareCode(FIRST_STEPS_CODE);
+
+    expect(GameBoard.fromSerialized(editor.exportBoard()).getCell(1, 0)!.isMine).toBe(true);
+
+    const puzzle = editor.exportPuzzle('exported', 'Exported');
+    const player = new PuzzlePlayer(new GameLogic(), puzzle);
+    player.start();
+    puzzle.solution.forEach(({ x, y, action }) => player.play(x, y, action));
+    expect(player.isSolved()).toBe(true);
+    expect(player.getMistakes()).toBe(0);
+
+    editor.resize(2, 1);
+    editor.applyTool(0, 0);
+    expect(() => editor.exportPuzzle('coin-flip', 'Coin Flip')).toThrow('Position is not uniquely solvable');
+  });
+
+  it('should share an untouched seeded layout as its seed', () => {
+    const editor = new BoardEditor();
+    editor.loadSeed({ width: 9, height: 9, mineCount: 10, level: DifficultyLevel.BEGINNER, seed: 42 });
+    expect(editor.getShareCode()).toBe('seed:9x9:10:42');
+
+    const copy = new BoardEditor();
+    copy.loadShareCode('seed:9x9:10:42');
+    expect(toPuzzleGrid(copy.getBoard())).toEqual(toPuzzleGrid(editor.getBoard()));
+
+    // Moving a mine means the seed no longer describes the layout
+    editor.applyTool(0, 0);
+    expect(editor.getShareCode()).toMatch(/^grid:/);
+    expect(() => editor.loadShareCode('seed:9x9:500:1')).toThrow('Invalid share code: seed:9x9:500:1');
+  });
+
+  it('should keep the grid and number rules of a loaded board', () => {
+    const game = new GameBoard({
+      width: 8, height: 8, mineCount: 10, level: DifficultyLevel.CUSTOM, seed: 3,
+      topology: GridTopology.TORUS, neighbourhood: NeighbourhoodRule.KNIGHT
+    });
+    game.revealCell(0, 0);
+    const editor = new BoardEditor();
+    editor.loadBoard(game);
+
+    const board = editor.getBoard();
+    expect(board.getTopology()).toBe(GridTopology.TORUS);
+    expect(board.getNeighbourhood()).toBe(NeighbourhoodRule.KNIGHT);
+    expect(board.getCells().flat().map(cell => cell.adjacentMines))
+      .toEqual(game.getCells().flat().map(cell => cell.adjacentMines));
+
+    const code = editor.getShareCode();
+    expect(code).toMatch(/^position:/);
+    const copy = new BoardEditor();
+    copy.loadShareCode(code);
+    expect(copy.getBoard().getTopology()).toBe(GridTopology.TORUS);
+    expect(toPuzzleGrid(copy.getBoard())).toEqual(toPuzzleGrid(board));
+
+    expect(() => editor.exportPuzzle('torus', 'Torus')).toThrow('Puzzles can only be made on square, non-wrapping grids with standard numbers');
+    editor.resize(5, 5);
+    expect(editor.getBoard().getTopology()).toBe(GridTopology.SQUARE);
+  });
+
+  /**
+   * **Feature: ai-minesweeper, Property: Share codes reopen the same position**
+   *
+   * For any edited position, with or without a shape, opening its share code gives back the
+   * same mines, revealed cells and holes
+   */
+  it('Property: Share codes reopen the same position', () => {
+    fc.assert(
+      fc.property(
+        fc.boolean(),
+        fc.array(fc.record({ tool: fc.constantFrom('mine' as const, 'reveal' as const, 'hole' as const), cell: fc.nat() }), { maxLength: 40 }),
+        (shaped, edits) => {
+          const editor = new BoardEditor();
+          if (shaped) {
+            editor.setShape(getShapePreset('ring')!.mask);
+          } else {
+            editor.resize(7, 5);
+          }
+          const width = editor.getBoard().getWidth();
+          const height = editor.getBoard().getHeight();
+          edits.forEach(({ tool, cell }) => {
+            editor.setTool(tool);
+            editor.applyTool(cell % width, Math.floor(cell / width) % height);
+          });
+
+          const copy = new BoardEditor();
+          copy.loadShareCode(editor.getShareCode());
+          expect(toPuzzleGrid(copy.getBoard())).toEqual(toPuzzleGrid(editor.getBoard()));
+        }
+      ),
+      { numRuns: 50 }
+    );
+  });
+});
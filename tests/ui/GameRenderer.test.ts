@@ -1,10 +1,12 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { GameRenderer } from '@/ui/GameRenderer';
 import { GameBoard } from '@/game/GameBoard';
+import { ChunkedBoard } from '@/game/ChunkedBoard';
 import { HintEngine } from '@/ai/HintEngine';
 import { ProbabilityCalculator } from '@/ai/ProbabilityCalculator';
-import { DifficultyLevel, HintSuggestion, GameState } from '@/types';
+import { DifficultyLevel, GridTopology, HintSuggestion, GameState } from '@/types';
 import * as fc from 'fast-check';
+import { HEX_TOPOLOGY } from '@/game/Topology';
 
 // Mock Canvas and CanvasRenderingContext2D for testing
 class MockCanvasRenderingContext2D {
@@ -385,4 +387,114 @@ describe('GameRenderer', () => {
       }
     });
   });
-});
\ No newline at end of file
+
+  describe('Board Event Subscription', () => {
+    it('should redraw only the revealed cells and stop after unsubscribing', () => {
+      const ctx = canvas.getContext();
+      const board = new GameBoard({ width: 5, height: 5, mineCount: 3, level: DifficultyLevel.BEGINNER, seed: 3 });
+      const unsubscribe = renderer.subscribeTo(board);
+
+      ctx.clearOperations();
+      const safeCell = board.getCells().flat().find(cell => !cell.isMine && cell.adjacentMines > 0)!;
+      board.revealCell(safeCell.x, safeCell.y);
+      expect(ctx.getOperations('fillRect')).toHaveLength(1);
+
+      unsubscribe();
+      ctx.clearOperations();
+      board.flagCell(0, 0);
+      expect(ctx.operations).toHaveLength(0);
+    });
+  });
+
+  describe('Camera', () => {
+    beforeEach(() => {
+      renderer.setCellSize(40);
+    });
+
+    it('should draw only the cells in view and map clicks to board positions', () => {
+      const ctx = canvas.getContext();
+      const board = new GameBoard({ width: 10, height: 10, mineCount: 10, level: DifficultyLevel.CUSTOM, seed: 4 });
+      renderer.setCamera(4, 4, 3, 3);
+
+      ctx.clearOperations();
+      renderer.render(board);
+
+      expect(canvas.width).toBe(3 * 40 + 20);
+      expect(ctx.getOperations('strokeRect')).toHaveLength(9);
+      expect(renderer.screenToCell(10 + 1, 10 + 41)).toEqual({ x: 4, y: 5 });
+
+      renderer.clearCamera();
+      expect(renderer.screenToCell(10 + 1, 10 + 41)).toEqual({ x: 0, y: 1 });
+    });
+
+    it('should recentre on cells near the edge of the view without leaving the board', () => {
+      const board = new GameBoard({ width: 20, height: 20, mineCount: 10, level: DifficultyLevel.CUSTOM });
+      renderer.setCamera(0, 0, 10, 10);
+
+      expect(renderer.followFrontier(board, [board.getCell(5, 5)!])).toBe(false);
+      expect(renderer.followFrontier(board, [board.getCell(9, 5)!])).toBe(true);
+      expect(renderer.getCamera()).toEqual({ x: 4, y: 0, width: 10, height: 10 });
+
+      renderer.followFrontier(board, [board.getCell(19, 19)!]);
+      expect(renderer.getCamera()).toEqual({ x: 10, y: 10, width: 10, height: 10 });
+    });
+
+    it('should keep revealed cells in view as an endless board grows to the left', () => {
+      const board = new ChunkedBoard({ seed: 11, chunkSize: 8 });
+      renderer.subscribeTo(board);
+      renderer.setCamera(0, 0, 12, 12);
+
+      const cell = board.getCells().map(row => row[0]).find(candidate => !candidate.isMine)!;
+      board.revealCell(cell.x, cell.y);
+
+      const camera = renderer.getCamera()!;
+      expect(board.getWidth()).toBeGreaterThan(24);
+      expect(cell.x).toBeGreaterThanOrEqual(camera.x);
+      expect(cell.x).toBeLessThan(camera.x + camera.width);
+      expect(cell.y).toBeGreaterThanOrEqual(camera.y);
+      expect(cell.y).toBeLessThan(camera.y + camera.height);
+    });
+  });
+
+  describe('Shaped boards', () => {
+    it('should draw only the cells inside the shape', () => {
+      const ctx = canvas.getContext();
+      const board = new GameBoard({
+        width: 5,
+        height: 3,
+        mineCount: 2,
+        level: DifficultyLevel.CUSTOM,
+        seed: 2,
+        mask: ['#####', '#...#', '#####']
+      });
+
+      ctx.clearOperations();
+      renderer.render(board);
+
+      expect(ctx.getOperations('strokeRect')).toHaveLength(12);
+    });
+  });
+
+  describe('Topologies', () => {
+    beforeEach(() => {
+      renderer.setCellSize(40);
+    });
+
+    it('should draw hexagons and hit-test their centres', () => {
+      const ctx = canvas.getContext();
+      const board = new GameBoard({ width: 4, height: 3, mineCount: 2, level: DifficultyLevel.CUSTOM, seed: 6, topology: GridTopology.HEX });
+
+      ctx.clearOperations();
+      renderer.render(board);
+
+      expect(ctx.getOperations('strokeRect')).toHaveLength(0);
+      expect(ctx.getOperations('closePath')).toHaveLength(12);
+      expect(canvas.width).toBe(Math.ceil(HEX_TOPOLOGY.boardSize(4, 3, 40).width) + 20);
+
+      const centre = HEX_TOPOLOGY.cellCentre(1, 1, 40);
+      expect(renderer.screenToCell(10 + centre.x, 10 + centre.y)).toEqual({ x: 1, y: 1 });
+      expect(renderer.screenToCell(11, 11)).toBeNull();
+    });
+  });
+});
+